@@ -1,10 +1,30 @@
 const BASE = "/api";
 
+export type ScrapeErrorKind =
+  | "credentials"
+  | "two-factor"
+  | "blocked"
+  | "timeout"
+  | "site-changed"
+  | "network"
+  | "canceled"
+  | "unknown";
+
+export interface AccountFailure {
+  at: string;
+  errorKind: ScrapeErrorKind;
+  error: string;
+  hint: string;
+}
+
 export interface AccountInfo {
   name: string;
+  bankName: string;
   companyId: string;
   fields: string[];
   enabled: boolean;
+  /** Set when the most recent scrape of this account failed */
+  lastFailure?: AccountFailure;
 }
 
 export interface YnabRow {
@@ -13,6 +33,10 @@ export interface YnabRow {
   memo: string;
   outflow: string;
   inflow: string;
+  importId?: string;
+  category?: string;
+  categoryId?: string;
+  account?: string;
 }
 
 export interface SkippedItem {
@@ -24,6 +48,21 @@ export interface AccountSummaryData {
   count: number;
   outflow: number;
   inflow: number;
+  uncategorized: number;
+}
+
+export interface ScrapeAttemptInfo {
+  attempt: number;
+  startedAt: string;
+  success: boolean;
+  errorType?: string;
+  error?: string;
+}
+
+export interface AccountAttemptsInfo {
+  name: string;
+  success: boolean;
+  attempts: ScrapeAttemptInfo[];
 }
 
 export interface ScrapeResultInfo {
@@ -31,12 +70,18 @@ export interface ScrapeResultInfo {
   success: boolean;
   transactionCount: number;
   error?: string;
+  errorKind?: ScrapeErrorKind;
+  hint?: string;
+  attempts?: ScrapeAttemptInfo[];
+  /** Set on live scrapes of real accounts; exporting moves the account's watermark to it */
+  scrapedAt?: string;
 }
 
 export interface TransactionSummary {
   byAccount: Record<string, AccountSummaryData>;
   totalOutflow: number;
   totalInflow: number;
+  totalUncategorized: number;
 }
 
 export interface ScrapePayload {
@@ -49,12 +94,15 @@ export interface ScrapePayload {
 }
 
 export interface SSEEvent {
-  type: "warning" | "progress" | "account-done" | "done" | "error";
+  type: "warning" | "progress" | "otp-required" | "account-done" | "done" | "error";
   message?: string;
   accountName?: string;
   success?: boolean;
   transactionCount?: number;
   error?: string;
+  errorKind?: ScrapeErrorKind;
+  hint?: string;
+  attempts?: number;
   payload?: ScrapePayload;
 }
 
@@ -89,9 +137,25 @@ export interface NormalizedTransaction {
 export async function getAccounts(): Promise<AccountInfo[]> {
   const res = await fetch(`${BASE}/accounts`);
   const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "Failed to load accounts");
+  }
   return data.accounts;
 }
 
+export async function addAccountInstance(bankName: string, label: string): Promise<string> {
+  const res = await fetch(`${BASE}/accounts`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ bankName, label }),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "Failed to add login");
+  }
+  return data.name;
+}
+
 export async function saveCredentials(
   name: string,
   credentials: Record<string, string>
@@ -117,11 +181,43 @@ export async function deleteCredentials(name: string): Promise<void> {
   }
 }
 
+// --- Vault ---
+
+export interface VaultStatus {
+  exists: boolean;
+  unlocked: boolean;
+}
+
+export async function getVaultStatus(): Promise<VaultStatus> {
+  const res = await fetch(`${BASE}/vault`);
+  return res.json();
+}
+
+export async function unlockVault(passphrase: string): Promise<void> {
+  const res = await fetch(`${BASE}/vault/unlock`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ passphrase }),
+  });
+  if (!res.ok) {
+    const data = await res.json();
+    throw new Error(data.error || "Failed to unlock vault");
+  }
+}
+
+export async function lockVault(): Promise<void> {
+  await fetch(`${BASE}/vault/lock`, { method: "POST" });
+}
+
 // --- Scrape SSE ---
 
 export function createScrapeStream(
   daysBack: number,
   showBrowser: boolean,
+  sinceLast: boolean,
+  overlapDays: number,
+  concurrency: number,
+  maxAttempts: number,
   enableDetailedLogging: boolean,
   detailedLoggingLimit: number,
   selectedAccounts: string[],
@@ -131,6 +227,10 @@ export function createScrapeStream(
   const params = new URLSearchParams({
     daysBack: String(daysBack),
     showBrowser: String(showBrowser),
+    sinceLast: String(sinceLast),
+    overlapDays: String(overlapDays),
+    concurrency: String(concurrency),
+    maxAttempts: String(maxAttempts),
     enableDetailedLogging: String(enableDetailedLogging),
     detailedLoggingLimit: String(detailedLoggingLimit),
   });
@@ -174,12 +274,59 @@ export async function cancelScrape(scrapeId: string): Promise<void> {
   }
 }
 
+export async function submitOtpCode(scrapeId: string, accountName: string, code: string): Promise<void> {
+  const res = await fetch(`${BASE}/scrape/${encodeURIComponent(scrapeId)}/otp`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ accountName, code }),
+  });
+  if (!res.ok) {
+    const data = await res.json();
+    throw new Error(data.error || "Failed to submit code");
+  }
+}
+
 // --- Export ---
 
+/** Exporter name, see getExporters */
+export type OutputFormat = string;
+
+export interface ExporterInfo {
+  name: OutputFormat;
+  label: string;
+  extension: string;
+  /** Needs the payload's kept transactions, not just the rows */
+  needsTransactions: boolean;
+}
+
+export type CsvExtraColumn = "Account" | "Category" | "ImportId";
+
+/** How CSV exports are written; omitted fields use the YNAB defaults */
+export interface CsvDialect {
+  bom?: boolean;
+  delimiter?: string;
+  lineEnding?: "lf" | "crlf";
+  dateFormat?: "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY";
+  amountColumns?: "split" | "single";
+  extraColumns?: CsvExtraColumn[];
+}
+
+export async function getExporters(): Promise<ExporterInfo[]> {
+  const res = await fetch(`${BASE}/exporters`);
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "Failed to load export formats");
+  }
+  return data;
+}
+
 export async function exportCSV(body: {
   rows: YnabRow[];
+  transactions?: Record<string, unknown>[];
   outputDir: string;
   split: boolean;
+  format?: OutputFormat;
+  csvDialect?: CsvDialect;
   scrapeResults: ScrapeResultInfo[];
   skipped: SkippedItem[];
   auditLog?: any;
@@ -196,6 +343,42 @@ export async function exportCSV(body: {
   return res.json();
 }
 
+export interface YnabPushResult {
+  createdCount: number;
+  duplicateImportIds: string[];
+}
+
+export async function pushToYnab(rows: YnabRow[]): Promise<YnabPushResult> {
+  const res = await fetch(`${BASE}/ynab/push`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ rows }),
+  });
+  if (!res.ok) {
+    const data = await res.json();
+    throw new Error(data.error || "YNAB push failed");
+  }
+  return res.json();
+}
+
+export interface ActualPushResult {
+  addedCount: number;
+  updatedCount: number;
+}
+
+export async function pushToActual(rows: YnabRow[]): Promise<ActualPushResult> {
+  const res = await fetch(`${BASE}/actual/push`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ rows }),
+  });
+  if (!res.ok) {
+    const data = await res.json();
+    throw new Error(data.error || "Actual push failed");
+  }
+  return res.json();
+}
+
 export async function openPath(path: string): Promise<{ path: string }> {
   const res = await fetch(`${BASE}/open-path`, {
     method: "POST",
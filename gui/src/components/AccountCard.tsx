@@ -5,8 +5,15 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { ChevronDown, ChevronRight, Eye, EyeOff } from "lucide-react";
-import type { AccountInfo } from "@/api/client";
-import { saveCredentials, deleteCredentials } from "@/api/client";
+import type { AccountInfo, ScrapeErrorKind } from "@/api/client";
+import { saveCredentials, deleteCredentials, addAccountInstance } from "@/api/client";
+
+/** Badge text for failures the user has to fix on their side */
+const FAILURE_BADGES: Partial<Record<ScrapeErrorKind, string>> = {
+  credentials: "Credentials rejected on last run",
+  "two-factor": "One-time code needed on last run",
+  blocked: "Account blocked on last run",
+};
 
 interface AccountCardProps {
   account: AccountInfo;
@@ -26,6 +33,11 @@ export function AccountCard({ account, onUpdated }: AccountCardProps) {
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [error, setError] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const isNamedInstance = account.name !== account.bankName;
+  const failureBadge = account.lastFailure && FAILURE_BADGES[account.lastFailure.errorKind];
 
   const handleSave = async () => {
     setSaving(true);
@@ -54,6 +66,20 @@ export function AccountCard({ account, onUpdated }: AccountCardProps) {
     }
   };
 
+  const handleAddLogin = async () => {
+    setAdding(true);
+    setError("");
+    try {
+      await addAccountInstance(account.bankName, newLabel);
+      setNewLabel("");
+      onUpdated();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to add login");
+    } finally {
+      setAdding(false);
+    }
+  };
+
   const toggleShow = (field: string) => {
     setShowFields((prev) => ({ ...prev, [field]: !prev[field] }));
   };
@@ -68,10 +94,18 @@ export function AccountCard({ account, onUpdated }: AccountCardProps) {
           <div className="flex items-center gap-3">
             {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
             <CardTitle className="text-base">{account.name}</CardTitle>
+            {isNamedInstance && <Badge variant="outline">{account.bankName}</Badge>}
+          </div>
+          <div className="flex items-center gap-2">
+            {failureBadge && (
+              <Badge variant="destructive" title={account.lastFailure?.hint}>
+                {failureBadge}
+              </Badge>
+            )}
+            <Badge variant={account.enabled ? "success" : "secondary"}>
+              {account.enabled ? "Configured" : "Not configured"}
+            </Badge>
           </div>
-          <Badge variant={account.enabled ? "success" : "secondary"}>
-            {account.enabled ? "Configured" : "Not configured"}
-          </Badge>
         </div>
       </CardHeader>
 
@@ -103,23 +137,51 @@ export function AccountCard({ account, onUpdated }: AccountCardProps) {
               </div>
             ))}
 
+            {account.lastFailure && (
+              <p className="text-sm text-muted-foreground">
+                Last run failed ({account.lastFailure.error}). {account.lastFailure.hint}
+              </p>
+            )}
+
             {error && <p className="text-sm text-destructive">{error}</p>}
 
             <div className="flex gap-2 pt-2">
               <Button onClick={handleSave} disabled={saving} size="sm">
                 {saving ? "Saving..." : "Save"}
               </Button>
-              {account.enabled && (
+              {(account.enabled || isNamedInstance) && (
                 <Button
                   onClick={handleDelete}
                   disabled={deleting}
                   variant="destructive"
                   size="sm"
                 >
-                  {deleting ? "Removing..." : "Remove"}
+                  {deleting ? "Removing..." : isNamedInstance ? "Remove login" : "Remove"}
                 </Button>
               )}
             </div>
+
+            {!isNamedInstance && (
+              <div className="space-y-1 border-t pt-3">
+                <Label htmlFor={`${account.name}-new-login`}>Add another {account.bankName} login</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`${account.name}-new-login`}
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value)}
+                    placeholder="Label, e.g. Dana"
+                  />
+                  <Button
+                    onClick={handleAddLogin}
+                    disabled={adding || newLabel.trim().length === 0}
+                    variant="outline"
+                    size="sm"
+                  >
+                    {adding ? "Adding..." : "Add"}
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
         </CardContent>
       )}
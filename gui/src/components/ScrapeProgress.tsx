@@ -1,51 +1,111 @@
+import { useState, type FormEvent } from "react";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, CheckCircle2, XCircle, KeyRound } from "lucide-react";
 
 export interface AccountStatus {
   name: string;
-  status: "pending" | "scraping" | "done" | "failed";
+  status: "pending" | "scraping" | "otp" | "done" | "failed";
   message: string;
   transactionCount?: number;
   error?: string;
+  /** What to do about a failure */
+  hint?: string;
 }
 
 interface ScrapeProgressProps {
   accounts: AccountStatus[];
   messages: string[];
+  onSubmitOtp?: (accountName: string, code: string) => Promise<void>;
 }
 
-export function ScrapeProgress({ accounts, messages }: ScrapeProgressProps) {
+function OtpForm({
+  accountName,
+  onSubmit,
+}: {
+  accountName: string;
+  onSubmit: (accountName: string, code: string) => Promise<void>;
+}) {
+  const [code, setCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setSubmitting(true);
+    setError("");
+    try {
+      await onSubmit(accountName, code.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to submit code");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+      <Input
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="SMS code"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        className="h-8 w-28"
+        autoFocus
+      />
+      <Button type="submit" size="sm" disabled={submitting || !code.trim()}>
+        {submitting ? "Sending..." : "Submit"}
+      </Button>
+      {error && <span className="text-xs text-destructive">{error}</span>}
+    </form>
+  );
+}
+
+export function ScrapeProgress({ accounts, messages, onSubmitOtp }: ScrapeProgressProps) {
   return (
     <div className="space-y-4">
       <div className="space-y-2">
         {accounts.map((account) => (
-          <div
-            key={account.name}
-            className="flex items-center justify-between rounded-md border p-3"
-          >
-            <div className="flex items-center gap-3">
-              {account.status === "scraping" && (
-                <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
-              )}
-              {account.status === "done" && (
-                <CheckCircle2 className="h-4 w-4 text-green-500" />
-              )}
-              {account.status === "failed" && (
-                <XCircle className="h-4 w-4 text-red-500" />
-              )}
-              {account.status === "pending" && (
-                <div className="h-4 w-4 rounded-full border-2 border-muted" />
-              )}
-              <span className="text-sm font-medium">{account.name}</span>
-            </div>
-            <div className="flex items-center gap-2">
-              {account.transactionCount !== undefined && (
-                <Badge variant="secondary">{account.transactionCount} txns</Badge>
-              )}
-              {account.error && (
-                <Badge variant="destructive">{account.error}</Badge>
-              )}
+          <div key={account.name} className="rounded-md border p-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                {account.status === "scraping" && (
+                  <Loader2 className="h-4 w-4 animate-spin text-blue-500" />
+                )}
+                {account.status === "otp" && (
+                  <KeyRound className="h-4 w-4 text-amber-500" />
+                )}
+                {account.status === "done" && (
+                  <CheckCircle2 className="h-4 w-4 text-green-500" />
+                )}
+                {account.status === "failed" && (
+                  <XCircle className="h-4 w-4 text-red-500" />
+                )}
+                {account.status === "pending" && (
+                  <div className="h-4 w-4 rounded-full border-2 border-muted" />
+                )}
+                <span className="text-sm font-medium">{account.name}</span>
+                {account.status === "otp" && (
+                  <span className="text-xs text-muted-foreground">{account.message}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                {account.status === "otp" && onSubmitOtp && (
+                  <OtpForm accountName={account.name} onSubmit={onSubmitOtp} />
+                )}
+                {account.transactionCount !== undefined && (
+                  <Badge variant="secondary">{account.transactionCount} txns</Badge>
+                )}
+                {account.error && (
+                  <Badge variant="destructive">{account.error}</Badge>
+                )}
+              </div>
             </div>
+            {account.status === "failed" && account.hint && (
+              <p className="mt-2 text-xs text-muted-foreground">{account.hint}</p>
+            )}
           </div>
         ))}
       </div>
@@ -2,7 +2,18 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
-import type { AccountInfo } from "@/api/client";
+import type {
+  AccountInfo,
+  CsvDialect,
+  CsvExtraColumn,
+  ExporterInfo,
+  OutputFormat,
+} from "@/api/client";
+
+const SELECT_CLASS_NAME =
+  "flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+const CSV_EXTRA_COLUMNS: CsvExtraColumn[] = ["Account", "Category", "ImportId"];
 
 interface ScrapeSettingsProps {
   daysBack: number;
@@ -11,8 +22,21 @@ interface ScrapeSettingsProps {
   setOutputDir: (v: string) => void;
   split: boolean;
   setSplit: (v: boolean) => void;
+  format: OutputFormat;
+  setFormat: (v: OutputFormat) => void;
+  exporters: ExporterInfo[];
+  csvDialect: CsvDialect;
+  setCsvDialect: (v: CsvDialect) => void;
   showBrowser: boolean;
   setShowBrowser: (v: boolean) => void;
+  sinceLast: boolean;
+  setSinceLast: (v: boolean) => void;
+  overlapDays: number;
+  setOverlapDays: (v: number) => void;
+  concurrency: number;
+  setConcurrency: (v: number) => void;
+  maxAttempts: number;
+  setMaxAttempts: (v: number) => void;
   enableDetailedLogging: boolean;
   setEnableDetailedLogging: (v: boolean) => void;
   detailedLoggingLimit: number;
@@ -33,8 +57,21 @@ export function ScrapeSettings({
   setOutputDir,
   split,
   setSplit,
+  format,
+  setFormat,
+  exporters,
+  csvDialect,
+  setCsvDialect,
   showBrowser,
   setShowBrowser,
+  sinceLast,
+  setSinceLast,
+  overlapDays,
+  setOverlapDays,
+  concurrency,
+  setConcurrency,
+  maxAttempts,
+  setMaxAttempts,
   enableDetailedLogging,
   setEnableDetailedLogging,
   detailedLoggingLimit,
@@ -56,6 +93,17 @@ export function ScrapeSettings({
     }
   };
 
+  const updateCsvDialect = (changes: Partial<CsvDialect>) =>
+    setCsvDialect({ ...csvDialect, ...changes });
+  const toggleCsvColumn = (column: CsvExtraColumn) => {
+    const columns = csvDialect.extraColumns ?? [];
+    updateCsvDialect({
+      extraColumns: columns.includes(column)
+        ? columns.filter((c) => c !== column)
+        : [...columns, column],
+    });
+  };
+
   const selectAll = () => setSelectedAccounts(enabledAccounts.map((account) => account.name));
   const clearAll = () => setSelectedAccounts([]);
 
@@ -76,6 +124,42 @@ export function ScrapeSettings({
           <Label htmlFor="outputDir">Output Directory</Label>
           <Input id="outputDir" value={outputDir} onChange={(e) => setOutputDir(e.target.value)} />
         </div>
+        <div className="space-y-2">
+          <Label htmlFor="format">Output format</Label>
+          <select
+            id="format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as OutputFormat)}
+            className={SELECT_CLASS_NAME}
+          >
+            {exporters.length === 0 && <option value={format}>{format.toUpperCase()}</option>}
+            {exporters.map((exporter) => (
+              <option key={exporter.name} value={exporter.name}>
+                {exporter.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="concurrency">Parallel accounts</Label>
+          <Input
+            id="concurrency"
+            type="number"
+            min={1}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="maxAttempts">Max attempts (timeouts and generic errors)</Label>
+          <Input
+            id="maxAttempts"
+            type="number"
+            min={1}
+            value={maxAttempts}
+            onChange={(e) => setMaxAttempts(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </div>
       </div>
 
       <div className="flex items-center gap-6">
@@ -89,6 +173,124 @@ export function ScrapeSettings({
         </div>
       </div>
 
+      {format === "csv" && (
+        <div className="border-t pt-4 space-y-3">
+          <Label className="text-sm">CSV options</Label>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="csvDelimiter" className="text-sm text-muted-foreground">
+                Delimiter
+              </Label>
+              <select
+                id="csvDelimiter"
+                value={csvDialect.delimiter ?? ","}
+                onChange={(e) => updateCsvDialect({ delimiter: e.target.value })}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value=",">Comma (,)</option>
+                <option value=";">Semicolon (;)</option>
+                <option value={"\t"}>Tab</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="csvDateFormat" className="text-sm text-muted-foreground">
+                Date format
+              </Label>
+              <select
+                id="csvDateFormat"
+                value={csvDialect.dateFormat ?? "YYYY-MM-DD"}
+                onChange={(e) =>
+                  updateCsvDialect({ dateFormat: e.target.value as CsvDialect["dateFormat"] })
+                }
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="csvAmountColumns" className="text-sm text-muted-foreground">
+                Amounts
+              </Label>
+              <select
+                id="csvAmountColumns"
+                value={csvDialect.amountColumns ?? "split"}
+                onChange={(e) =>
+                  updateCsvDialect({
+                    amountColumns: e.target.value as CsvDialect["amountColumns"],
+                  })
+                }
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="split">Outflow and Inflow columns</option>
+                <option value="single">Single signed Amount column</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="csvLineEnding" className="text-sm text-muted-foreground">
+                Line ending
+              </Label>
+              <select
+                id="csvLineEnding"
+                value={csvDialect.lineEnding ?? "lf"}
+                onChange={(e) =>
+                  updateCsvDialect({ lineEnding: e.target.value as CsvDialect["lineEnding"] })
+                }
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="lf">LF (macOS, Linux)</option>
+                <option value="crlf">CRLF (Windows)</option>
+              </select>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="csvBom"
+              checked={csvDialect.bom ?? false}
+              onCheckedChange={(bom) => updateCsvDialect({ bom })}
+            />
+            <Label htmlFor="csvBom">Byte order mark (Hebrew in Excel)</Label>
+          </div>
+          <div className="flex items-center gap-4 text-sm">
+            <span className="text-muted-foreground">Extra columns:</span>
+            {CSV_EXTRA_COLUMNS.map((column) => (
+              <label key={column} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={csvDialect.extraColumns?.includes(column) ?? false}
+                  onChange={() => toggleCsvColumn(column)}
+                />
+                <span>{column}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="border-t pt-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Switch id="sinceLast" checked={sinceLast} onCheckedChange={setSinceLast} />
+          <Label htmlFor="sinceLast">Since last successful run</Label>
+        </div>
+        {sinceLast && (
+          <div className="space-y-2 ml-8">
+            <Label htmlFor="overlapDays" className="text-sm text-muted-foreground">
+              Overlap days (accounts never scraped use Days Back)
+            </Label>
+            <Input
+              id="overlapDays"
+              type="number"
+              min={0}
+              value={overlapDays}
+              onChange={(e) => setOverlapDays(parseInt(e.target.value) || 0)}
+              className="w-32"
+            />
+          </div>
+        )}
+      </div>
+
       <div className="border-t pt-4 space-y-3">
         <div className="flex items-center gap-2">
           <Switch
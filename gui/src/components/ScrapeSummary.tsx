@@ -31,6 +31,7 @@ export function ScrapeSummary({ summary }: ScrapeSummaryProps) {
             <TableHead className="text-right">Transactions</TableHead>
             <TableHead className="text-right">Outflow</TableHead>
             <TableHead className="text-right">Inflow</TableHead>
+            <TableHead className="text-right">Uncategorized</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -40,6 +41,9 @@ export function ScrapeSummary({ summary }: ScrapeSummaryProps) {
               <TableCell className="text-right">{data.count}</TableCell>
               <TableCell className="text-right text-red-600">{formatCurrency(data.outflow)}</TableCell>
               <TableCell className="text-right text-green-600">{formatCurrency(data.inflow)}</TableCell>
+              <TableCell className="text-right text-muted-foreground">
+                {data.uncategorized ?? 0}
+              </TableCell>
             </TableRow>
           ))}
         </TableBody>
@@ -53,6 +57,9 @@ export function ScrapeSummary({ summary }: ScrapeSummaryProps) {
             <TableCell className="text-right font-bold text-green-600">
               {formatCurrency(summary.totalInflow)}
             </TableCell>
+            <TableCell className="text-right font-bold text-muted-foreground">
+              {summary.totalUncategorized ?? 0}
+            </TableCell>
           </TableRow>
         </TableFooter>
       </Table>
@@ -18,9 +18,15 @@ interface TransactionTableProps {
 type SortKey = "date" | "payee" | "outflow" | "inflow";
 type SortDir = "asc" | "desc";
 
+/**
+ * Memo metadata when the memo uses the JSON preset, null for template memos
+ */
 function parseMemo(memo: string): Record<string, unknown> | null {
   try {
-    return JSON.parse(memo);
+    const parsed: unknown = JSON.parse(memo);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
   } catch {
     return null;
   }
@@ -28,7 +34,14 @@ function parseMemo(memo: string): Record<string, unknown> | null {
 
 function MemoDisplay({ memo }: { memo: string }) {
   const parsed = parseMemo(memo);
-  if (!parsed) return <span className="text-muted-foreground">{memo}</span>;
+  if (!parsed) {
+    // Memo templates are already readable
+    return (
+      <span className="text-xs text-muted-foreground" title={memo}>
+        {memo}
+      </span>
+    );
+  }
 
   const parts: string[] = [];
   if (parsed.chargeDate) parts.push(`charged: ${parsed.chargeDate as string}`);
@@ -39,9 +52,10 @@ function MemoDisplay({ memo }: { memo: string }) {
     parts.push(`original: ${curr}${parsed.originalAmount}`);
   }
   if (parsed.category) parts.push(`cat: ${parsed.category as string}`);
+  if (parsed.bankMemo) parts.push(`note: ${parsed.bankMemo as string}`);
 
   return (
-    <span className="text-xs text-muted-foreground">
+    <span className="text-xs text-muted-foreground" title={memo}>
       {parts.join(" | ") || memo}
     </span>
   );
@@ -1,15 +1,37 @@
 import { useEffect, useState } from "react";
-import { getAccounts, type AccountInfo } from "@/api/client";
+import {
+  getAccounts,
+  getVaultStatus,
+  unlockVault,
+  lockVault,
+  type AccountInfo,
+  type VaultStatus,
+} from "@/api/client";
 import { AccountCard } from "@/components/AccountCard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock } from "lucide-react";
 
 export function AccountsPage() {
   const [accounts, setAccounts] = useState<AccountInfo[]>([]);
+  const [vault, setVault] = useState<VaultStatus>({ exists: false, unlocked: false });
+  const [passphrase, setPassphrase] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [unlockError, setUnlockError] = useState("");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
 
   const fetchAccounts = async () => {
     try {
       setError("");
+      const status = await getVaultStatus();
+      setVault(status);
+      if (status.exists && !status.unlocked) {
+        setAccounts([]);
+        return;
+      }
       const data = await getAccounts();
       setAccounts(data);
     } catch (e) {
@@ -19,6 +41,25 @@ export function AccountsPage() {
     }
   };
 
+  const handleUnlock = async () => {
+    setUnlocking(true);
+    setUnlockError("");
+    try {
+      await unlockVault(passphrase);
+      setPassphrase("");
+      await fetchAccounts();
+    } catch (e) {
+      setUnlockError(e instanceof Error ? e.message : "Unlock failed");
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const handleLock = async () => {
+    await lockVault();
+    await fetchAccounts();
+  };
+
   useEffect(() => {
     fetchAccounts();
   }, []);
@@ -31,11 +72,62 @@ export function AccountsPage() {
     return <div className="p-4 text-destructive">{error}</div>;
   }
 
+  if (vault.exists && !vault.unlocked) {
+    return (
+      <Card className="max-w-md">
+        <CardHeader className="py-4">
+          <div className="flex items-center gap-2">
+            <Lock className="h-4 w-4" />
+            <CardTitle className="text-base">Unlock credential vault</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3 pt-0">
+          <p className="text-sm text-muted-foreground">
+            Bank credentials are stored encrypted. Enter the vault passphrase to manage accounts and
+            run scrapes.
+          </p>
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleUnlock();
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="vault-passphrase">Passphrase</Label>
+              <Input
+                id="vault-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoFocus
+              />
+            </div>
+            {unlockError && <p className="text-sm text-destructive">{unlockError}</p>}
+            <Button type="submit" size="sm" disabled={unlocking || passphrase.length === 0}>
+              {unlocking ? "Unlocking..." : "Unlock"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
   const enabled = accounts.filter((a) => a.enabled);
   const disabled = accounts.filter((a) => !a.enabled);
 
   return (
     <div className="space-y-6">
+      {vault.exists && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>Credentials are stored in the encrypted vault.</span>
+          <Button variant="outline" size="sm" onClick={handleLock}>
+            <Lock className="mr-1 h-3 w-3" />
+            Lock
+          </Button>
+        </div>
+      )}
+
       {enabled.length > 0 && (
         <div className="space-y-3">
           <h3 className="text-sm font-medium text-muted-foreground">
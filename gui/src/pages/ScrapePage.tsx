@@ -10,12 +10,23 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import {
   createScrapeStream,
   exportCSV,
+  pushToYnab,
+  pushToActual,
   openPath,
   getAccounts,
+  getExporters,
   cancelScrape,
+  submitOtpCode,
   type ScrapePayload,
+  type ScrapeAttemptInfo,
+  type AccountAttemptsInfo,
   type SSEEvent,
   type AccountInfo,
+  type YnabPushResult,
+  type ActualPushResult,
+  type OutputFormat,
+  type ExporterInfo,
+  type CsvDialect,
 } from "@/api/client";
 
 type Phase = "settings" | "progress" | "results";
@@ -48,6 +59,56 @@ function removeStored(key: string): void {
   window.localStorage.removeItem(key);
 }
 
+/**
+ * Append a retry's attempts to the earlier ones, continuing the numbering.
+ */
+function mergeAttempts(before: ScrapeAttemptInfo[] = [], after: ScrapeAttemptInfo[] = []): ScrapeAttemptInfo[] {
+  return [...before, ...after.map((a) => ({ ...a, attempt: a.attempt + before.length }))];
+}
+
+/**
+ * Fold a retry of failed accounts into the earlier results. Retried accounts' results
+ * replace their failed entries; their transactions and skipped items are added.
+ */
+function mergeRetryPayload(previous: ScrapePayload, retry: ScrapePayload): ScrapePayload {
+  const retried = new Map(retry.scrapeResults.map((r) => [r.accountName, r]));
+  const scrapeResults = previous.scrapeResults.map((r) => {
+    const next = retried.get(r.accountName);
+    return next ? { ...next, attempts: mergeAttempts(r.attempts, next.attempts) } : r;
+  });
+
+  let auditLog = previous.auditLog ?? retry.auditLog;
+  if (previous.auditLog && retry.auditLog) {
+    const retriedAttempts = new Map(
+      ((retry.auditLog.scrapeAttempts ?? []) as AccountAttemptsInfo[]).map((a) => [a.name, a])
+    );
+    const scrapeAttempts = ((previous.auditLog.scrapeAttempts ?? []) as AccountAttemptsInfo[]).map((a) => {
+      const next = retriedAttempts.get(a.name);
+      return next ? { ...next, attempts: mergeAttempts(a.attempts, next.attempts) } : a;
+    });
+    auditLog = {
+      ...previous.auditLog,
+      accounts: [...previous.auditLog.accounts, ...retry.auditLog.accounts],
+      skipped: [...previous.auditLog.skipped, ...retry.auditLog.skipped],
+      scrapeAttempts,
+    };
+  }
+
+  return {
+    scrapeResults,
+    kept: [...previous.kept, ...retry.kept],
+    skipped: [...previous.skipped, ...retry.skipped],
+    rows: [...previous.rows, ...retry.rows].sort((a, b) => b.date.localeCompare(a.date)),
+    summary: {
+      byAccount: { ...previous.summary.byAccount, ...retry.summary.byAccount },
+      totalOutflow: previous.summary.totalOutflow + retry.summary.totalOutflow,
+      totalInflow: previous.summary.totalInflow + retry.summary.totalInflow,
+      totalUncategorized: previous.summary.totalUncategorized + retry.summary.totalUncategorized,
+    },
+    auditLog,
+  };
+}
+
 export function ScrapePage() {
   const [phase, setPhase] = useState<Phase>("settings");
 
@@ -55,7 +116,14 @@ export function ScrapePage() {
   const [daysBack, setDaysBack] = useState(60);
   const [outputDir, setOutputDir] = useState("./output");
   const [split, setSplit] = useState(false);
+  const [format, setFormat] = useState<OutputFormat>("csv");
+  const [exporters, setExporters] = useState<ExporterInfo[]>([]);
+  const [csvDialect, setCsvDialect] = useState<CsvDialect>({});
   const [showBrowser, setShowBrowser] = useState(false);
+  const [sinceLast, setSinceLast] = useState(false);
+  const [overlapDays, setOverlapDays] = useState(7);
+  const [concurrency, setConcurrency] = useState(1);
+  const [maxAttempts, setMaxAttempts] = useState(3);
   const [enableDetailedLogging, setEnableDetailedLogging] = useState(false);
   const [detailedLoggingLimit, setDetailedLoggingLimit] = useState(10);
   const [accounts, setAccounts] = useState<AccountInfo[]>([]);
@@ -72,6 +140,10 @@ export function ScrapePage() {
   const [exporting, setExporting] = useState(false);
   const [openingOutput, setOpeningOutput] = useState(false);
   const [exportResult, setExportResult] = useState<ExportResult | null>(null);
+  const [pushing, setPushing] = useState(false);
+  const [pushResult, setPushResult] = useState<YnabPushResult | null>(null);
+  const [actualPushing, setActualPushing] = useState(false);
+  const [actualPushResult, setActualPushResult] = useState<ActualPushResult | null>(null);
   const [error, setError] = useState("");
   const [logsCollapsed, setLogsCollapsed] = useState(false);
   const [copyStatus, setCopyStatus] = useState<"idle" | "copied" | "failed">("idle");
@@ -84,7 +156,13 @@ export function ScrapePage() {
       daysBack: number;
       outputDir: string;
       split: boolean;
+      format: OutputFormat;
+      csvDialect: CsvDialect;
       showBrowser: boolean;
+      sinceLast: boolean;
+      overlapDays: number;
+      concurrency: number;
+      maxAttempts: number;
       enableDetailedLogging: boolean;
       detailedLoggingLimit: number;
       selectedAccounts: string[];
@@ -93,7 +171,13 @@ export function ScrapePage() {
     if (storedSettings.daysBack !== undefined) setDaysBack(storedSettings.daysBack);
     if (storedSettings.outputDir !== undefined) setOutputDir(storedSettings.outputDir);
     if (storedSettings.split !== undefined) setSplit(storedSettings.split);
+    if (storedSettings.format !== undefined) setFormat(storedSettings.format);
+    if (storedSettings.csvDialect !== undefined) setCsvDialect(storedSettings.csvDialect);
     if (storedSettings.showBrowser !== undefined) setShowBrowser(storedSettings.showBrowser);
+    if (storedSettings.sinceLast !== undefined) setSinceLast(storedSettings.sinceLast);
+    if (storedSettings.overlapDays !== undefined) setOverlapDays(storedSettings.overlapDays);
+    if (storedSettings.concurrency !== undefined) setConcurrency(storedSettings.concurrency);
+    if (storedSettings.maxAttempts !== undefined) setMaxAttempts(storedSettings.maxAttempts);
     if (storedSettings.enableDetailedLogging !== undefined) {
       setEnableDetailedLogging(storedSettings.enableDetailedLogging);
     }
@@ -134,6 +218,12 @@ export function ScrapePage() {
     fetchAccounts();
   }, []);
 
+  useEffect(() => {
+    getExporters()
+      .then(setExporters)
+      .catch(() => setExporters([]));
+  }, []);
+
   useEffect(() => {
     return () => {
       if (streamRef.current) {
@@ -150,7 +240,13 @@ export function ScrapePage() {
       daysBack,
       outputDir,
       split,
+      format,
+      csvDialect,
       showBrowser,
+      sinceLast,
+      overlapDays,
+      concurrency,
+      maxAttempts,
       enableDetailedLogging,
       detailedLoggingLimit,
       selectedAccounts,
@@ -159,7 +255,13 @@ export function ScrapePage() {
     daysBack,
     outputDir,
     split,
+    format,
+    csvDialect,
     showBrowser,
+    sinceLast,
+    overlapDays,
+    concurrency,
+    maxAttempts,
     enableDetailedLogging,
     detailedLoggingLimit,
     selectedAccounts,
@@ -196,24 +298,28 @@ export function ScrapePage() {
     }
   }, [accounts, accountsError, accountsLoading, selectedAccounts]);
 
-  const handleStart = useCallback(() => {
-    if (selectedAccounts.length === 0) {
-      setError("Select at least one account to scrape.");
-      setPhase("results");
-      return;
-    }
-
+  /**
+   * Stream a scrape of the given accounts. A retry keeps the current results and
+   * merges the new ones into them.
+   */
+  const startScrape = useCallback((accountNames: string[], retrying: boolean) => {
     setPhase("progress");
     setAccountStatuses(
-      selectedAccounts.map((name) => ({
+      accountNames.map((name) => ({
         name,
         status: "pending" as const,
         message: "Pending",
       }))
     );
-    setMessages([]);
-    setPayload(null);
+    if (retrying) {
+      setMessages((prev) => [...prev, "", `--- Retrying ${accountNames.length} failed account(s) ---`]);
+    } else {
+      setMessages([]);
+      setPayload(null);
+    }
     setExportResult(null);
+    setPushResult(null);
+    setActualPushResult(null);
     setError("");
     setLogsCollapsed(false);
     setCopyStatus("idle");
@@ -227,9 +333,13 @@ export function ScrapePage() {
     const stream = createScrapeStream(
       daysBack,
       showBrowser,
+      sinceLast,
+      overlapDays,
+      concurrency,
+      maxAttempts,
       enableDetailedLogging,
       detailedLoggingLimit,
-      selectedAccounts,
+      accountNames,
       scrapeId,
       (event: SSEEvent) => {
         switch (event.type) {
@@ -239,26 +349,34 @@ export function ScrapePage() {
 
           case "progress":
             setMessages((prev) => [...prev, event.message ?? ""]);
-            // Try to detect which account is being worked on
-            if (event.message) {
-              const scrapeMatch = event.message.match(/^Scraping (.+)\.\.\.$/);
-              if (scrapeMatch) {
-                const name = scrapeMatch[1].replace(/^\n/, "");
-                setAccountStatuses((prev) => {
-                  const exists = prev.find((a) => a.name === name);
-                  if (exists) {
-                    return prev.map((a) =>
-                      a.name === name
-                        ? { ...a, status: "scraping" as const, message: "Scraping..." }
-                        : a
-                    );
-                  }
-                  return [...prev, { name, status: "scraping" as const, message: "Scraping..." }];
-                });
-              }
+            // Per-account messages are tagged, so parallel scrapes can be tracked
+            if (event.accountName) {
+              const name = event.accountName;
+              setAccountStatuses((prev) => {
+                const exists = prev.find((a) => a.name === name);
+                if (exists) {
+                  return prev.map((a) =>
+                    a.name === name && a.status === "pending"
+                      ? { ...a, status: "scraping" as const, message: "Scraping..." }
+                      : a
+                  );
+                }
+                return [...prev, { name, status: "scraping" as const, message: "Scraping..." }];
+              });
             }
             break;
 
+          case "otp-required":
+            setMessages((prev) => [...prev, event.message ?? ""]);
+            setAccountStatuses((prev) =>
+              prev.map((a) =>
+                a.name === event.accountName
+                  ? { ...a, status: "otp" as const, message: event.message ?? "Waiting for one-time code" }
+                  : a
+              )
+            );
+            break;
+
           case "account-done":
             setAccountStatuses((prev) => {
               const name = event.accountName ?? "";
@@ -266,11 +384,12 @@ export function ScrapePage() {
               const entry: AccountStatus = {
                 name,
                 status: event.success ? "done" : "failed",
-                message: event.success
-                  ? `${event.transactionCount} transactions`
-                  : (event.error ?? "Failed"),
+                message:
+                  (event.success ? `${event.transactionCount} transactions` : (event.error ?? "Failed")) +
+                  (event.attempts && event.attempts > 1 ? ` (after ${event.attempts} attempts)` : ""),
                 transactionCount: event.transactionCount,
                 error: event.error,
+                hint: event.hint,
               };
               if (exists) {
                 return prev.map((a) => (a.name === name ? entry : a));
@@ -281,7 +400,8 @@ export function ScrapePage() {
 
           case "done":
             if (event.payload) {
-              setPayload(event.payload);
+              const result = event.payload;
+              setPayload((prev) => (retrying && prev ? mergeRetryPayload(prev, result) : result));
             }
             setPhase("results");
             break;
@@ -297,11 +417,32 @@ export function ScrapePage() {
   }, [
     daysBack,
     showBrowser,
+    sinceLast,
+    overlapDays,
+    concurrency,
+    maxAttempts,
     enableDetailedLogging,
     detailedLoggingLimit,
-    selectedAccounts,
   ]);
 
+  const handleStart = useCallback(() => {
+    if (selectedAccounts.length === 0) {
+      setError("Select at least one account to scrape.");
+      setPhase("results");
+      return;
+    }
+    startScrape(selectedAccounts, false);
+  }, [selectedAccounts, startScrape]);
+
+  const failedAccounts = payload?.scrapeResults.filter((r) => !r.success).map((r) => r.accountName) ?? [];
+
+  const handleRetryFailed = () => {
+    if (failedAccounts.length === 0) return;
+    startScrape(failedAccounts, true);
+  };
+
+  const formatLabel = exporters.find((e) => e.name === format)?.label ?? format.toUpperCase();
+
   const handleExport = async () => {
     if (!payload) return;
     setExporting(true);
@@ -309,8 +450,11 @@ export function ScrapePage() {
     try {
       const result = await exportCSV({
         rows: payload.rows,
+        transactions: payload.kept,
         outputDir,
         split,
+        format,
+        csvDialect: format === "csv" ? csvDialect : undefined,
         scrapeResults: payload.scrapeResults,
         skipped: payload.skipped,
         auditLog: payload.auditLog,
@@ -323,10 +467,40 @@ export function ScrapePage() {
     }
   };
 
+  const handlePushToYnab = async () => {
+    if (!payload) return;
+    setPushing(true);
+    setError("");
+    try {
+      const result = await pushToYnab(payload.rows);
+      setPushResult(result);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "YNAB push failed");
+    } finally {
+      setPushing(false);
+    }
+  };
+
+  const handlePushToActual = async () => {
+    if (!payload) return;
+    setActualPushing(true);
+    setError("");
+    try {
+      const result = await pushToActual(payload.rows);
+      setActualPushResult(result);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Actual push failed");
+    } finally {
+      setActualPushing(false);
+    }
+  };
+
   const handleReset = () => {
     setPhase("settings");
     setPayload(null);
     setExportResult(null);
+    setPushResult(null);
+    setActualPushResult(null);
     setError("");
     setCopyStatus("idle");
   };
@@ -348,6 +522,16 @@ export function ScrapePage() {
     setPhase("results");
   };
 
+  const handleSubmitOtp = async (accountName: string, code: string) => {
+    if (!scrapeIdRef.current) return;
+    await submitOtpCode(scrapeIdRef.current, accountName, code);
+    setAccountStatuses((prev) =>
+      prev.map((a) =>
+        a.name === accountName ? { ...a, status: "scraping" as const, message: "Scraping..." } : a
+      )
+    );
+  };
+
   const handleCopyLogs = async () => {
     if (messages.length === 0) return;
     const text = messages.join("\n");
@@ -400,8 +584,21 @@ export function ScrapePage() {
               setOutputDir={setOutputDir}
               split={split}
               setSplit={setSplit}
+              format={format}
+              exporters={exporters}
+              csvDialect={csvDialect}
+              setCsvDialect={setCsvDialect}
+              setFormat={setFormat}
               showBrowser={showBrowser}
               setShowBrowser={setShowBrowser}
+              sinceLast={sinceLast}
+              setSinceLast={setSinceLast}
+              overlapDays={overlapDays}
+              setOverlapDays={setOverlapDays}
+              concurrency={concurrency}
+              setConcurrency={setConcurrency}
+              maxAttempts={maxAttempts}
+              setMaxAttempts={setMaxAttempts}
               enableDetailedLogging={enableDetailedLogging}
               setEnableDetailedLogging={setEnableDetailedLogging}
               detailedLoggingLimit={detailedLoggingLimit}
@@ -424,7 +621,11 @@ export function ScrapePage() {
             <CardTitle>Scraping in progress...</CardTitle>
           </CardHeader>
           <CardContent>
-            <ScrapeProgress accounts={accountStatuses} messages={messages} />
+            <ScrapeProgress
+              accounts={accountStatuses}
+              messages={messages}
+              onSubmitOtp={handleSubmitOtp}
+            />
             <div className="mt-4">
               <Button variant="outline" onClick={handleCancel}>
                 Cancel Scrape
@@ -507,7 +708,7 @@ export function ScrapePage() {
               <div className="flex gap-2">
                 {!exportResult ? (
                   <Button onClick={handleExport} disabled={exporting}>
-                    {exporting ? "Exporting..." : "Export CSV"}
+                    {exporting ? "Exporting..." : `Export ${formatLabel}`}
                   </Button>
                 ) : (
                   <Card className="flex-1">
@@ -532,6 +733,41 @@ export function ScrapePage() {
                     </CardContent>
                   </Card>
                 )}
+                {!pushResult ? (
+                  <Button variant="outline" onClick={handlePushToYnab} disabled={pushing}>
+                    {pushing ? "Pushing..." : "Push to YNAB"}
+                  </Button>
+                ) : (
+                  <Card className="flex-1">
+                    <CardContent className="pt-6">
+                      <p className="text-sm text-green-600 font-medium">Pushed to YNAB!</p>
+                      <ul className="mt-1 text-xs text-muted-foreground">
+                        <li>{pushResult.createdCount} created</li>
+                        <li>{pushResult.duplicateImportIds.length} already imported</li>
+                      </ul>
+                    </CardContent>
+                  </Card>
+                )}
+                {!actualPushResult ? (
+                  <Button variant="outline" onClick={handlePushToActual} disabled={actualPushing}>
+                    {actualPushing ? "Pushing..." : "Push to Actual"}
+                  </Button>
+                ) : (
+                  <Card className="flex-1">
+                    <CardContent className="pt-6">
+                      <p className="text-sm text-green-600 font-medium">Pushed to Actual!</p>
+                      <ul className="mt-1 text-xs text-muted-foreground">
+                        <li>{actualPushResult.addedCount} added</li>
+                        <li>{actualPushResult.updatedCount} matched existing</li>
+                      </ul>
+                    </CardContent>
+                  </Card>
+                )}
+                {failedAccounts.length > 0 && (
+                  <Button variant="outline" onClick={handleRetryFailed}>
+                    Retry failed accounts ({failedAccounts.length})
+                  </Button>
+                )}
                 <Button variant="outline" onClick={handleReset}>
                   Scrape Again
                 </Button>
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  toActualAmount,
+  toActualTransaction,
+  pushToActual,
+  type ActualConfig,
+} from "./actual-api.js";
+import type { YnabRow } from "./transformer.js";
+
+const makeRow = (overrides: Partial<YnabRow> = {}): YnabRow => ({
+  date: "2024-03-15",
+  payee: "Test Store",
+  memo: "",
+  outflow: "100.00",
+  inflow: "",
+  importId: "ib:abc",
+  ...overrides,
+});
+
+describe("toActualAmount", () => {
+  it("converts outflows and inflows to signed integer cents", () => {
+    expect(toActualAmount(makeRow())).toBe(-10000);
+    expect(toActualAmount(makeRow({ outflow: "", inflow: "19.99" }))).toBe(1999);
+    expect(toActualAmount(makeRow({ outflow: "", inflow: "" }))).toBe(0);
+  });
+});
+
+describe("toActualTransaction", () => {
+  it("uses the import ID as imported_id", () => {
+    const txn = toActualTransaction(makeRow({ memo: "note" }));
+    expect(txn).toEqual({
+      date: "2024-03-15",
+      amount: -10000,
+      payee_name: "Test Store",
+      imported_payee: "Test Store",
+      notes: "note",
+      cleared: true,
+      imported_id: "ib:abc",
+    });
+  });
+
+  it("derives a stable imported_id for rows without an import ID", () => {
+    const first = toActualTransaction(makeRow({ importId: undefined })).imported_id;
+    expect(first).toMatch(/^row:[0-9a-f]{32}$/);
+    expect(toActualTransaction(makeRow({ importId: undefined })).imported_id).toBe(first);
+  });
+
+  it("sends null notes when the memo is empty", () => {
+    expect(toActualTransaction(makeRow()).notes).toBeNull();
+  });
+});
+
+describe("pushToActual", () => {
+  let server: Server;
+  let config: ActualConfig;
+  const requests: Array<{
+    url?: string;
+    headers: Record<string, unknown>;
+    body: { transactions: Array<{ imported_id: string }> };
+  }> = [];
+  let respondWith: { status: number; body: unknown } = { status: 200, body: {} };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(raw) });
+        res.writeHead(respondWith.status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(respondWith.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    config = {
+      serverUrl: `http://127.0.0.1:${port}/`,
+      apiKey: "key-123",
+      budgetId: "budget-1",
+      accountId: "account-1",
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("imports transactions into the configured account", async () => {
+    respondWith = { status: 200, body: { data: { added: ["t1"], updated: ["t2"] } } };
+
+    const result = await pushToActual([makeRow(), makeRow({ importId: "ib:def" })], config);
+
+    const request = requests[requests.length - 1];
+    expect(request.url).toBe("/v1/budgets/budget-1/accounts/account-1/transactions/import");
+    expect(request.headers["x-api-key"]).toBe("key-123");
+    expect(request.headers["budget-encryption-password"]).toBeUndefined();
+    expect(request.body.transactions).toHaveLength(2);
+    expect(request.body.transactions[1].imported_id).toBe("ib:def");
+    expect(result).toEqual({ addedCount: 1, updatedCount: 1 });
+  });
+
+  it("pushes each account instance to its mapped Actual account", async () => {
+    respondWith = { status: 200, body: { data: { added: ["t1"], updated: [] } } };
+    const before = requests.length;
+
+    const result = await pushToActual(
+      [makeRow({ account: "Max" }), makeRow({ account: "Leumi", importId: "ib:def" })],
+      { ...config, accountIds: { Max: "actual-max", Leumi: "actual-leumi" } }
+    );
+
+    expect(requests.slice(before).map((r) => r.url)).toEqual([
+      "/v1/budgets/budget-1/accounts/actual-max/transactions/import",
+      "/v1/budgets/budget-1/accounts/actual-leumi/transactions/import",
+    ]);
+    expect(result).toEqual({ addedCount: 2, updatedCount: 0 });
+  });
+
+  it("refuses to push several unmapped accounts into one Actual account", async () => {
+    const before = requests.length;
+    await expect(
+      pushToActual([makeRow({ account: "Max" }), makeRow({ account: "Leumi" })], config)
+    ).rejects.toThrow("Map Max, Leumi in ACTUAL_ACCOUNT_IDS");
+    expect(requests.length).toBe(before);
+  });
+
+  it("sends the encryption password for encrypted budgets", async () => {
+    respondWith = { status: 200, body: { data: { added: [], updated: [] } } };
+    await pushToActual([makeRow()], { ...config, encryptionPassword: "secret" });
+    expect(requests[requests.length - 1].headers["budget-encryption-password"]).toBe("secret");
+  });
+
+  it("throws with the server error on failure", async () => {
+    respondWith = { status: 401, body: { error: "Invalid API key" } };
+    await expect(pushToActual([makeRow()], config)).rejects.toThrow(
+      "Actual API error (401): Invalid API key"
+    );
+  });
+
+  it("does not call the server for empty input", async () => {
+    const before = requests.length;
+    expect(await pushToActual([], config)).toEqual({ addedCount: 0, updatedCount: 0 });
+    expect(requests.length).toBe(before);
+  });
+});
@@ -0,0 +1,136 @@
+import { getRowFingerprint, groupRowsByAccount, type YnabRow } from "./transformer.js";
+import type { Exporter } from "./exporters.js";
+import { toOFX } from "./ofx-writer.js";
+import { assignPushAccounts } from "./push-accounts.js";
+
+export interface ActualConfig {
+  /** Base URL of an actual-http-api server in front of the self-hosted Actual server */
+  serverUrl: string;
+  apiKey: string;
+  /** Budget sync ID (Actual > Settings > Advanced > Sync ID) */
+  budgetId: string;
+  /** Account that a single scraped account's rows are pushed to */
+  accountId: string;
+  /** Actual account per account instance, for pushes of several accounts (ACTUAL_ACCOUNT_IDS) */
+  accountIds?: Record<string, string>;
+  /** End-to-end encryption password, for encrypted budgets */
+  encryptionPassword?: string;
+}
+
+/**
+ * Transaction shape accepted by Actual's importTransactions
+ */
+export interface ActualTransaction {
+  date: string;
+  /** Integer amount in cents, negative for outflows */
+  amount: number;
+  payee_name: string;
+  imported_payee: string;
+  notes: string | null;
+  cleared: boolean;
+  imported_id: string;
+}
+
+/** One account's transactions in an Actual API payload file */
+export interface ActualPushResult {
+  addedCount: number;
+  updatedCount: number;
+}
+
+/**
+ * Signed amount for a row in Actual's integer cents (outflow is negative).
+ */
+export function toActualAmount(row: YnabRow): number {
+  const cents = (value: string) => Math.round((parseFloat(value) || 0) * 100);
+  return cents(row.inflow) - cents(row.outflow);
+}
+
+/**
+ * Map a YNAB row to an Actual transaction. imported_id is the row's stable fingerprint,
+ * so Actual reconciles re-imported transactions instead of duplicating them.
+ */
+export function toActualTransaction(row: YnabRow): ActualTransaction {
+  return {
+    date: row.date,
+    amount: toActualAmount(row),
+    payee_name: row.payee,
+    imported_payee: row.payee,
+    notes: row.memo || null,
+    cleared: true,
+    imported_id: getRowFingerprint(row),
+  };
+}
+
+/**
+ * Files for Actual's Import dialog: OFX, which Actual reads FITID from into imported_id, so
+ * re-imported transactions are matched instead of duplicated. The dialog imports into one
+ * account, so there is always one file per account.
+ */
+export const actualExporter: Exporter = {
+  name: "actual",
+  label: "Actual Budget (OFX)",
+  extension: "ofx",
+  filePrefix: "actual",
+  perAccount: true,
+  export: (rows) => toOFX(groupRowsByAccount(rows)),
+};
+
+/**
+ * Push rows to the configured Actual budget through actual-http-api, one request per Actual
+ * account (see assignPushAccounts). Actual matches transactions on imported_id, so re-pushing is safe.
+ */
+export async function pushToActual(
+  rows: YnabRow[],
+  config: ActualConfig
+): Promise<ActualPushResult> {
+  const result: ActualPushResult = { addedCount: 0, updatedCount: 0 };
+  const byAccount = assignPushAccounts(
+    rows,
+    { defaultAccountId: config.accountId, accountIds: config.accountIds },
+    { defaultEnvVar: "ACTUAL_ACCOUNT_ID", mapEnvVar: "ACTUAL_ACCOUNT_IDS" }
+  );
+
+  for (const [accountId, accountRows] of byAccount) {
+    const pushed = await importIntoAccount(accountRows, accountId, config);
+    result.addedCount += pushed.addedCount;
+    result.updatedCount += pushed.updatedCount;
+  }
+  return result;
+}
+
+async function importIntoAccount(
+  rows: YnabRow[],
+  accountId: string,
+  config: ActualConfig
+): Promise<ActualPushResult> {
+  const url =
+    `${config.serverUrl.replace(/\/+$/, "")}/v1/budgets/${encodeURIComponent(config.budgetId)}` +
+    `/accounts/${encodeURIComponent(accountId)}/transactions/import`;
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "x-api-key": config.apiKey,
+  };
+  if (config.encryptionPassword) {
+    headers["budget-encryption-password"] = config.encryptionPassword;
+  }
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ transactions: rows.map(toActualTransaction) }),
+  });
+
+  const body = (await res.json().catch(() => null)) as {
+    data?: { added?: string[]; updated?: string[] };
+    error?: string;
+  } | null;
+
+  if (!res.ok) {
+    throw new Error(`Actual API error (${res.status}): ${body?.error ?? res.statusText}`);
+  }
+
+  return {
+    addedCount: body?.data?.added?.length ?? 0,
+    updatedCount: body?.data?.updated?.length ?? 0,
+  };
+}
@@ -56,6 +56,47 @@ describe("createAuditLogger", () => {
     expect(log.accounts).toHaveLength(0);
   });
 
+  it("records and formats retried and failed scrape attempts", () => {
+    const logger = createAuditLogger();
+
+    logger.recordScrapeResults([
+      {
+        accountName: "Max",
+        success: true,
+        transactions: [makeTxn(-100)],
+        attempts: [
+          { attempt: 1, startedAt: "2024-03-15T10:00:00.000Z", success: false, errorType: "TIMEOUT", error: "TIMEOUT: slow" },
+          { attempt: 2, startedAt: "2024-03-15T10:00:05.000Z", success: true },
+        ],
+      },
+      {
+        accountName: "Leumi",
+        success: true,
+        transactions: [],
+        attempts: [{ attempt: 1, startedAt: "2024-03-15T10:00:00.000Z", success: true }],
+      },
+      {
+        accountName: "Hapoalim",
+        success: false,
+        transactions: [],
+        error: "INVALID_PASSWORD: bad",
+        errorKind: "credentials",
+        attempts: [
+          { attempt: 1, startedAt: "2024-03-15T10:00:00.000Z", success: false, errorType: "INVALID_PASSWORD", error: "INVALID_PASSWORD: bad" },
+        ],
+      },
+    ]);
+
+    expect(logger.getLog().scrapeAttempts).toHaveLength(3);
+
+    const output = logger.format();
+    expect(output).toContain("Max: succeeded after 2 attempt(s)");
+    expect(output).toContain("#1 2024-03-15T10:00:00.000Z: TIMEOUT: slow");
+    expect(output).toContain("Hapoalim: failed after 1 attempt(s) (credentials rejected)");
+    expect(output).toContain("Hint: Check the saved credentials");
+    expect(output).not.toContain("Leumi: succeeded");
+  });
+
   it("records skipped transactions", () => {
     const logger = createAuditLogger();
 
@@ -105,6 +146,40 @@ describe("createAuditLogger", () => {
     expect(log.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
   });
 
+  it("reports rows suppressed as already exported", () => {
+    const logger = createAuditLogger();
+
+    logger.recordAlreadyExported(7);
+
+    expect(logger.getLog().alreadyExportedCount).toBe(7);
+    expect(logger.format()).toContain("Already exported (suppressed): 7");
+  });
+
+  it("records the installment date strategy per account", () => {
+    const logger = createAuditLogger();
+    const installment = (accountName: string) => ({
+      ...makeTxn(-100),
+      description: "Store תשלום 2 מ-6",
+      accountName,
+    });
+
+    logger.recordInstallmentDating(
+      [installment("Max"), installment("Max"), installment("Leumi"), makeTxn(-5)],
+      { installmentDateStrategies: { Leumi: "charge-date" } }
+    );
+
+    expect(logger.getLog().installmentDating).toEqual([
+      { account: "Max", strategy: "offset", installmentCount: 2 },
+      { account: "Leumi", strategy: "charge-date", installmentCount: 1 },
+    ]);
+    expect(logger.format()).toContain("  Leumi: charge-date (1 installment(s))");
+  });
+
+  it("omits the already-exported line when --only-new was not used", () => {
+    const logger = createAuditLogger();
+    expect(logger.format()).not.toContain("Already exported");
+  });
+
   it("omits raw scraper results from formatted audit logs", () => {
     const logger = createAuditLogger();
     const log = logger.getLog() as any;
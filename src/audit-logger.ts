@@ -1,5 +1,15 @@
 import { createHash } from "node:crypto";
-import type { EnrichedTransaction, YnabRow } from "./transformer.js";
+import {
+  resolveInstallments,
+  type EnrichedTransaction,
+  type TransformOptions,
+  type YnabRow,
+} from "./transformer.js";
+import { selectInstallmentDateStrategy } from "./installment-dates.js";
+import type { YnabPushResult } from "./ynab-api.js";
+import type { ActualPushResult } from "./actual-api.js";
+import type { ScrapeAttempt, ScrapeResult } from "./scraper.js";
+import { errorKindLabel, remediationHint, type ScrapeErrorKind } from "./scrape-errors.js";
 
 export interface SkippedTransaction {
   reason: string;
@@ -15,15 +25,37 @@ export interface AccountSummary {
   totalInflow: number;
 }
 
+export interface AccountAttempts {
+  name: string;
+  success: boolean;
+  /** Why the account failed (unset on success) */
+  errorKind?: ScrapeErrorKind;
+  attempts: ScrapeAttempt[];
+}
+
+export interface InstallmentDating {
+  account: string;
+  /** Installment date strategy used for the account */
+  strategy: string;
+  installmentCount: number;
+}
+
 export interface AuditLog {
   timestamp: string;
   accounts: AccountSummary[];
+  /** Scrape attempts per account, including failed accounts */
+  scrapeAttempts?: AccountAttempts[];
   skipped: SkippedTransaction[];
+  /** Rows dropped by --only-new because an earlier run exported them */
+  alreadyExportedCount?: number;
+  installmentDating?: InstallmentDating[];
   outputFile: string | null;
   outputTransactionCount: number;
   totalOutflow: number;
   totalInflow: number;
   checksum: string | null;
+  ynabPush?: { createdCount: number; duplicateCount: number };
+  actualPush?: ActualPushResult;
   // Detailed logging (optional)
   transformationDetails?: Array<{ raw: EnrichedTransaction; transformed: YnabRow }>;
   detailedLoggingLimit?: number;
@@ -44,6 +76,16 @@ export function createAuditLogger() {
   return {
     recordScrapeResults(results: ScrapeResult[]) {
       for (const result of results) {
+        if (result.attempts && result.attempts.length > 0) {
+          log.scrapeAttempts = log.scrapeAttempts ?? [];
+          log.scrapeAttempts.push({
+            name: result.accountName,
+            success: result.success,
+            errorKind: result.errorKind,
+            attempts: result.attempts,
+          });
+        }
+
         if (!result.success) continue;
 
         let outflow = 0;
@@ -73,6 +115,32 @@ export function createAuditLogger() {
       });
     },
 
+    recordAlreadyExported(count: number) {
+      log.alreadyExportedCount = count;
+    },
+
+    /**
+     * Record which installment date strategy dated each account's installments
+     */
+    recordInstallmentDating(transactions: EnrichedTransaction[], options: TransformOptions) {
+      const byAccount = new Map<string, InstallmentDating>();
+      for (const txn of transactions) {
+        if (!resolveInstallments(txn)) continue;
+
+        const account = txn.accountName ?? "unknown";
+        const entry = byAccount.get(account) ?? {
+          account,
+          strategy: selectInstallmentDateStrategy(txn.accountName, options).name,
+          installmentCount: 0,
+        };
+        entry.installmentCount++;
+        byAccount.set(account, entry);
+      }
+      if (byAccount.size > 0) {
+        log.installmentDating = Array.from(byAccount.values());
+      }
+    },
+
     recordTransformations(
       pairs: Array<{ raw: EnrichedTransaction; transformed: YnabRow }>,
       limit: number = 0
@@ -95,6 +163,17 @@ export function createAuditLogger() {
       log.checksum = createHash("sha256").update(csvContent).digest("hex").slice(0, 16);
     },
 
+    recordYnabPush(result: YnabPushResult) {
+      log.ynabPush = {
+        createdCount: result.createdCount,
+        duplicateCount: result.duplicateImportIds.length,
+      };
+    },
+
+    recordActualPush(result: ActualPushResult) {
+      log.actualPush = { addedCount: result.addedCount, updatedCount: result.updatedCount };
+    },
+
     format(): string {
       return formatAuditLog(log);
     },
@@ -129,6 +208,25 @@ export function formatAuditLog(log: AuditLog): string {
   }
   lines.push("");
 
+  // Only accounts that needed a retry or failed; a single successful attempt is the norm
+  const notable = (log.scrapeAttempts ?? []).filter((a) => !a.success || a.attempts.length > 1);
+  if (notable.length > 0) {
+    lines.push("Scrape attempts:");
+    for (const entry of notable) {
+      const outcome = entry.success ? "succeeded" : "failed";
+      const kind = entry.errorKind ? ` (${errorKindLabel(entry.errorKind)})` : "";
+      lines.push(`  ${entry.name}: ${outcome} after ${entry.attempts.length} attempt(s)${kind}`);
+      for (const attempt of entry.attempts) {
+        const detail = attempt.success ? "ok" : (attempt.error ?? "failed");
+        lines.push(`    #${attempt.attempt} ${attempt.startedAt}: ${detail}`);
+      }
+      if (entry.errorKind) {
+        lines.push(`    Hint: ${remediationHint(entry.errorKind)}`);
+      }
+    }
+    lines.push("");
+  }
+
   lines.push(`Skipped (${log.skipped.length}):`);
   if (log.skipped.length === 0) {
     lines.push("  (none)");
@@ -141,6 +239,19 @@ export function formatAuditLog(log: AuditLog): string {
   }
   lines.push("");
 
+  if (log.alreadyExportedCount !== undefined) {
+    lines.push(`Already exported (suppressed): ${log.alreadyExportedCount}`);
+    lines.push("");
+  }
+
+  if (log.installmentDating && log.installmentDating.length > 0) {
+    lines.push("Installment dates:");
+    for (const entry of log.installmentDating) {
+      lines.push(`  ${entry.account}: ${entry.strategy} (${entry.installmentCount} installment(s))`);
+    }
+    lines.push("");
+  }
+
   if (log.outputFile) {
     lines.push(`Output: ${log.outputFile}`);
     lines.push(`  ${log.outputTransactionCount} transactions`);
@@ -153,6 +264,20 @@ export function formatAuditLog(log: AuditLog): string {
     lines.push("Output: (none - dry run or no transactions)");
   }
 
+  if (log.ynabPush) {
+    lines.push("");
+    lines.push(
+      `YNAB push: ${log.ynabPush.createdCount} created, ${log.ynabPush.duplicateCount} already imported`
+    );
+  }
+
+  if (log.actualPush) {
+    lines.push("");
+    lines.push(
+      `Actual push: ${log.actualPush.addedCount} added, ${log.actualPush.updatedCount} matched existing`
+    );
+  }
+
   if (log.transformationDetails && log.transformationDetails.length > 0) {
     lines.push("");
     lines.push("=== DETAILED LOGGING ===");
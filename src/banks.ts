@@ -6,11 +6,18 @@ import { CompanyTypes } from "israeli-bank-scrapers";
  * 1. Add entry here with companyId and credential fields
  * 2. Add corresponding env vars to .env.example
  */
+/** Bank account or credit card, for export formats that tell them apart (QIF) */
+export type AccountKind = "bank" | "card";
+
 export interface BankDefinition {
   name: string;
   companyId: CompanyTypes;
+  /** Defaults to "bank" */
+  kind?: AccountKind;
   /** Maps credential field name to environment variable name */
   credentialFields: Record<string, string>;
+  /** Login needs an SMS one-time code sent to the `phoneNumber` credential */
+  otp?: boolean;
 }
 
 /**
@@ -54,6 +61,7 @@ export const BANK_DEFINITIONS: BankDefinition[] = [
   {
     name: "Max",
     companyId: CompanyTypes.max,
+    kind: "card",
     credentialFields: {
       username: "MAX_USERNAME",
       password: "MAX_PASSWORD",
@@ -62,6 +70,7 @@ export const BANK_DEFINITIONS: BankDefinition[] = [
   {
     name: "Visa Cal",
     companyId: CompanyTypes.visaCal,
+    kind: "card",
     credentialFields: {
       username: "VISACAL_USERNAME",
       password: "VISACAL_PASSWORD",
@@ -70,6 +79,7 @@ export const BANK_DEFINITIONS: BankDefinition[] = [
   {
     name: "Isracard",
     companyId: CompanyTypes.isracard,
+    kind: "card",
     credentialFields: {
       id: "ISRACARD_ID",
       card6Digits: "ISRACARD_CARD6DIGITS",
@@ -79,6 +89,7 @@ export const BANK_DEFINITIONS: BankDefinition[] = [
   {
     name: "Amex",
     companyId: CompanyTypes.amex,
+    kind: "card",
     credentialFields: {
       id: "AMEX_ID",
       card6Digits: "AMEX_CARD6DIGITS",
@@ -102,4 +113,86 @@ export const BANK_DEFINITIONS: BankDefinition[] = [
       num: "MERCANTILE_NUM",
     },
   },
+  {
+    name: "One Zero",
+    companyId: CompanyTypes.oneZero,
+    credentialFields: {
+      email: "ONEZERO_EMAIL",
+      password: "ONEZERO_PASSWORD",
+      phoneNumber: "ONEZERO_PHONE_NUMBER",
+    },
+    otp: true,
+  },
 ];
+
+/**
+ * A named login for a bank. Every bank has a default instance named after it that
+ * uses the bank's own env vars; extra instances come from ACCOUNT_INSTANCES.
+ */
+export interface AccountInstance {
+  /** e.g. "Isracard" for the default instance, "Isracard - Dana" for a named one */
+  name: string;
+  bank: BankDefinition;
+  /** Maps credential field name to environment variable name for this instance */
+  credentialFields: Record<string, string>;
+}
+
+/**
+ * Env var suffix for an instance label ("Dana" -> "DANA", "Avi K" -> "AVI_K").
+ */
+export function instanceEnvSuffix(label: string): string {
+  return label
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Resolve all account instances from an ACCOUNT_INSTANCES spec.
+ * The spec is a comma-separated list of "Bank:Label" pairs, e.g. "Isracard:Dana,Isracard:Avi".
+ * Named instances read credentials from the bank's env vars plus the label suffix
+ * (ISRACARD_ID_DANA, ISRACARD_PASSWORD_DANA, ...).
+ */
+export function resolveAccountInstances(spec: string = ""): AccountInstance[] {
+  const instances: AccountInstance[] = BANK_DEFINITIONS.map((bank) => ({
+    name: bank.name,
+    bank,
+    credentialFields: bank.credentialFields,
+  }));
+
+  for (const entry of spec.split(",")) {
+    if (!entry.trim()) continue;
+
+    const sepIndex = entry.indexOf(":");
+    const bankName = (sepIndex === -1 ? "" : entry.slice(0, sepIndex)).trim();
+    const label = entry.slice(sepIndex + 1).trim();
+
+    const bank = BANK_DEFINITIONS.find((b) => b.name.toLowerCase() === bankName.toLowerCase());
+    if (!bank) {
+      throw new Error(`Invalid ACCOUNT_INSTANCES entry "${entry.trim()}": unknown bank "${bankName}"`);
+    }
+
+    const suffix = instanceEnvSuffix(label);
+    if (!suffix) {
+      throw new Error(
+        `Invalid ACCOUNT_INSTANCES entry "${entry.trim()}": label must contain latin letters or digits`
+      );
+    }
+
+    const name = `${bank.name} - ${label}`;
+    if (instances.some((i) => i.name === name)) {
+      throw new Error(`Invalid ACCOUNT_INSTANCES entry "${entry.trim()}": duplicate instance "${name}"`);
+    }
+
+    const credentialFields: Record<string, string> = {};
+    for (const [field, envVar] of Object.entries(bank.credentialFields)) {
+      credentialFields[field] = `${envVar}_${suffix}`;
+    }
+    instances.push({ name, bank, credentialFields });
+  }
+
+  // Keep each bank's instances together, in BANK_DEFINITIONS order
+  return instances.sort(
+    (a, b) => BANK_DEFINITIONS.indexOf(a.bank) - BANK_DEFINITIONS.indexOf(b.bank)
+  );
+}
@@ -1,5 +1,13 @@
-import { describe, it, expect } from "vitest";
-import { validateDaysBack, calculateStartDate, getSupportedBanks, loadConfig } from "./config.js";
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  validateDaysBack,
+  validateOverlapDays,
+  calculateStartDate,
+  resolveAccountStartDate,
+  getSupportedBanks,
+  loadConfig,
+} from "./config.js";
+import { resolveAccountInstances } from "./banks.js";
 
 describe("validateDaysBack", () => {
   it("returns default for undefined", () => {
@@ -63,6 +71,43 @@ describe("calculateStartDate", () => {
   });
 });
 
+describe("validateOverlapDays", () => {
+  it("returns default for undefined", () => {
+    expect(validateOverlapDays(undefined)).toBe(7);
+  });
+
+  it("accepts zero", () => {
+    expect(validateOverlapDays(0)).toBe(0);
+  });
+
+  it("throws for negative or invalid values", () => {
+    expect(() => validateOverlapDays(-1)).toThrow("Invalid overlapDays");
+    expect(() => validateOverlapDays("abc")).toThrow("Invalid overlapDays");
+  });
+});
+
+describe("resolveAccountStartDate", () => {
+  const fallback = new Date(2024, 0, 1);
+
+  it("falls back for accounts without a watermark", () => {
+    expect(resolveAccountStartDate(undefined, fallback, 7)).toBe(fallback);
+  });
+
+  it("subtracts the overlap from the last successful scrape", () => {
+    const result = resolveAccountStartDate(new Date(2024, 2, 20, 15, 30), fallback, 7);
+    expect(result.getFullYear()).toBe(2024);
+    expect(result.getMonth()).toBe(2);
+    expect(result.getDate()).toBe(13);
+    expect(result.getHours()).toBe(0);
+  });
+
+  it("crosses month boundaries", () => {
+    const result = resolveAccountStartDate(new Date(2024, 2, 3), fallback, 7);
+    expect(result.getMonth()).toBe(1);
+    expect(result.getDate()).toBe(25);
+  });
+});
+
 describe("getSupportedBanks", () => {
   it("returns array of bank names", () => {
     const banks = getSupportedBanks();
@@ -77,3 +122,50 @@ describe("getSupportedBanks", () => {
     expect(banks).toContain("Max");
   });
 });
+
+describe("resolveAccountInstances", () => {
+  it("returns one default instance per bank when no spec is given", () => {
+    const instances = resolveAccountInstances("");
+    expect(instances.map((i) => i.name)).toEqual(getSupportedBanks());
+  });
+
+  it("adds named instances with suffixed env vars next to their bank", () => {
+    const instances = resolveAccountInstances("Isracard:Dana, isracard:Avi K");
+    const names = instances.map((i) => i.name);
+    const index = names.indexOf("Isracard");
+
+    expect(names.slice(index, index + 3)).toEqual(["Isracard", "Isracard - Dana", "Isracard - Avi K"]);
+    expect(instances[index + 1].credentialFields).toEqual({
+      id: "ISRACARD_ID_DANA",
+      card6Digits: "ISRACARD_CARD6DIGITS_DANA",
+      password: "ISRACARD_PASSWORD_DANA",
+    });
+    expect(instances[index + 2].credentialFields.password).toBe("ISRACARD_PASSWORD_AVI_K");
+  });
+
+  it("throws on unknown banks, unusable labels and duplicates", () => {
+    expect(() => resolveAccountInstances("Nope:Dana")).toThrow('unknown bank "Nope"');
+    expect(() => resolveAccountInstances("Isracard:דנה")).toThrow("label must contain");
+    expect(() => resolveAccountInstances("Max:A,Max:A")).toThrow("duplicate instance");
+  });
+});
+
+describe("loadConfig account instances", () => {
+  const keys = ["ACCOUNT_INSTANCES", "MAX_USERNAME_DANA", "MAX_PASSWORD_DANA"];
+
+  afterEach(() => {
+    for (const key of keys) delete process.env[key];
+  });
+
+  it("builds an enabled account config for a named instance with credentials", () => {
+    process.env.ACCOUNT_INSTANCES = "Max:Dana";
+    process.env.MAX_USERNAME_DANA = "dana";
+    process.env.MAX_PASSWORD_DANA = "secret";
+
+    const account = loadConfig().accounts.find((a) => a.name === "Max - Dana");
+    expect(account).toBeDefined();
+    expect(account!.bankName).toBe("Max");
+    expect(account!.enabled).toBe(true);
+    expect(account!.credentials).toEqual({ username: "dana", password: "secret" });
+  });
+});
@@ -1,12 +1,30 @@
 import { CompanyTypes } from "israeli-bank-scrapers";
 import "dotenv/config";
-import { BANK_DEFINITIONS, type BankDefinition } from "./banks.js";
+import {
+  BANK_DEFINITIONS,
+  resolveAccountInstances,
+  type AccountInstance,
+  type AccountKind,
+} from "./banks.js";
+import { DEFAULT_YNAB_API_URL, type YnabConfig } from "./ynab-api.js";
+import type { ActualConfig } from "./actual-api.js";
+import { createScrapeState } from "./scrape-state.js";
+import { createVault, getActiveVault } from "./vault.js";
+import { getScraperProvider, type ScraperProvider } from "./scraper.js";
+import { parseAccountIdMap } from "./push-accounts.js";
 
 export interface AccountConfig {
+  /** Instance name, e.g. "Isracard" or "Isracard - Dana" */
   name: string;
+  /** Name of the BankDefinition this account logs into */
+  bankName: string;
   companyId: CompanyTypes;
   credentials: Record<string, string>;
   enabled: boolean;
+  /** Login needs an SMS one-time code (see BankDefinition.otp) */
+  otp?: boolean;
+  /** Per-account start date (set by --since-last); falls back to Config.startDate */
+  startDate?: Date;
 }
 
 export interface Config {
@@ -14,19 +32,29 @@ export interface Config {
   outputDir: string;
   startDate: Date;
   showBrowser: boolean;
+  scraperProvider: ScraperProvider;
   warnings: string[];
 }
 
 export interface LoadConfigOptions {
   showBrowser?: boolean;
   daysBack?: number;
+  /** Start each account from its last successful scrape instead of daysBack */
+  sinceLast?: boolean;
+  overlapDays?: number;
+  /** Scraper provider name; defaults to SCRAPER_PROVIDER, then the real bank scrapers */
+  provider?: string;
 }
 
 const DEFAULT_DAYS_BACK = 60;
+const DEFAULT_OVERLAP_DAYS = 7;
 const DEFAULT_OUTPUT_DIR = "./output";
 
+/**
+ * Read a setting, preferring the unlocked credential vault over the environment
+ */
 function getEnv(key: string): string {
-  return process.env[key] ?? "";
+  return getActiveVault()?.get(key) ?? process.env[key] ?? "";
 }
 
 function hasAllCredentials(creds: Record<string, string>): boolean {
@@ -36,25 +64,43 @@ function hasAllCredentials(creds: Record<string, string>): boolean {
 /**
  * Build credentials object from environment variables
  */
-function buildCredentials(bank: BankDefinition): Record<string, string> {
+function buildCredentials(instance: AccountInstance): Record<string, string> {
   const credentials: Record<string, string> = {};
-  for (const [field, envVar] of Object.entries(bank.credentialFields)) {
+  for (const [field, envVar] of Object.entries(instance.credentialFields)) {
     credentials[field] = getEnv(envVar);
   }
   return credentials;
 }
 
 /**
- * Convert bank definitions to account configs
+ * All account instances: one per bank plus the named ones listed in ACCOUNT_INSTANCES
+ */
+export function getAccountInstances(): AccountInstance[] {
+  return resolveAccountInstances(getEnv("ACCOUNT_INSTANCES"));
+}
+
+/**
+ * Account kind of every account instance, by instance name
+ */
+export function getAccountKinds(): Record<string, AccountKind> {
+  return Object.fromEntries(
+    getAccountInstances().map((instance) => [instance.name, instance.bank.kind ?? "bank"])
+  );
+}
+
+/**
+ * Convert account instances to account configs
  */
-function buildAccountConfigs(): AccountConfig[] {
-  return BANK_DEFINITIONS.map((bank) => {
-    const credentials = buildCredentials(bank);
+function buildAccountConfigs(provider: ScraperProvider): AccountConfig[] {
+  return getAccountInstances().map((instance) => {
+    const credentials = buildCredentials(instance);
     return {
-      name: bank.name,
-      companyId: bank.companyId,
+      name: instance.name,
+      bankName: instance.bank.name,
+      companyId: instance.bank.companyId,
       credentials,
-      enabled: hasAllCredentials(credentials),
+      enabled: hasAllCredentials(credentials) || !provider.needsCredentials,
+      otp: instance.bank.otp,
     };
   });
 }
@@ -87,15 +133,99 @@ export function calculateStartDate(daysBack: number): Date {
   return date;
 }
 
+/**
+ * Validate and parse overlapDays option
+ */
+export function validateOverlapDays(value: unknown): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_OVERLAP_DAYS;
+  }
+
+  const num = typeof value === "string" ? parseInt(value, 10) : Number(value);
+
+  if (isNaN(num) || num < 0) {
+    throw new Error(`Invalid overlapDays value: ${String(value)}. Must be zero or a positive number.`);
+  }
+
+  return num;
+}
+
+/**
+ * Start date for an account with a watermark: the last successful scrape minus
+ * the overlap window, or the fallback for accounts that were never scraped.
+ */
+export function resolveAccountStartDate(
+  lastSuccess: Date | undefined,
+  fallback: Date,
+  overlapDays: number
+): Date {
+  if (!lastSuccess) {
+    return fallback;
+  }
+
+  const date = new Date(lastSuccess);
+  date.setDate(date.getDate() - overlapDays);
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+/**
+ * Output directory from OUTPUT_DIR (default ./output)
+ */
+export function getOutputDir(): string {
+  return getEnv("OUTPUT_DIR") || DEFAULT_OUTPUT_DIR;
+}
+
+/**
+ * Scraper provider by name, else SCRAPER_PROVIDER (default: the real bank scrapers)
+ */
+export function getConfiguredScraperProvider(name?: string): ScraperProvider {
+  return getScraperProvider(name || getEnv("SCRAPER_PROVIDER"));
+}
+
+/**
+ * Throws when the provider returns fixture data, so demo transactions never reach a budget
+ */
+export function assertRealBankData(provider: ScraperProvider, target: string): void {
+  if (!provider.needsCredentials) {
+    throw new Error(
+      `The ${provider.name} scraper provider returns fixture data; pushing to ${target} is disabled`
+    );
+  }
+}
+
 /**
  * Load configuration from environment variables
  */
 export function loadConfig(options: LoadConfigOptions = {}): Config {
   const daysBack = validateDaysBack(options.daysBack);
   const startDate = calculateStartDate(daysBack);
-  const accounts = buildAccountConfigs();
+  const scraperProvider = getConfiguredScraperProvider(options.provider);
+  const accounts = buildAccountConfigs(scraperProvider);
   const warnings: string[] = [];
 
+  if (!scraperProvider.needsCredentials) {
+    warnings.push(
+      `Warning: Using the ${scraperProvider.name} scraper provider. Transactions are fixture data, not real bank data; scrape state, the scrape cache and saved tokens are not updated.`
+    );
+  }
+
+  if (options.sinceLast) {
+    const overlapDays = validateOverlapDays(options.overlapDays);
+    const state = createScrapeState();
+    for (const account of accounts) {
+      account.startDate = resolveAccountStartDate(
+        state.getLastSuccess(account.name),
+        startDate,
+        overlapDays
+      );
+    }
+  }
+
+  if (createVault().exists() && !getActiveVault()?.isUnlocked()) {
+    warnings.push("Warning: Credential vault is locked. Credentials stored in it are unavailable.");
+  }
+
   if (daysBack > 365) {
     warnings.push(`Warning: daysBack=${daysBack} is very large. Most banks only return 90 days of data.`);
   }
@@ -109,13 +239,66 @@ export function loadConfig(options: LoadConfigOptions = {}): Config {
 
   return {
     accounts,
-    outputDir: getEnv("OUTPUT_DIR") || DEFAULT_OUTPUT_DIR,
+    outputDir: getOutputDir(),
     startDate,
     showBrowser: options.showBrowser ?? false,
+    scraperProvider,
     warnings,
   };
 }
 
+/**
+ * Load YNAB API settings from environment variables.
+ * Throws if any required value is missing or YNAB_ACCOUNT_IDS is malformed.
+ */
+export function loadYnabConfig(): YnabConfig {
+  const required = {
+    accessToken: "YNAB_ACCESS_TOKEN",
+    budgetId: "YNAB_BUDGET_ID",
+    accountId: "YNAB_ACCOUNT_ID",
+  };
+
+  const missing = Object.values(required).filter((envVar) => getEnv(envVar).length === 0);
+  if (missing.length > 0) {
+    throw new Error(`YNAB is not configured. Missing: ${missing.join(", ")}`);
+  }
+
+  return {
+    accessToken: getEnv(required.accessToken),
+    budgetId: getEnv(required.budgetId),
+    accountId: getEnv(required.accountId),
+    accountIds: parseAccountIdMap(getEnv("YNAB_ACCOUNT_IDS"), "YNAB_ACCOUNT_IDS"),
+    apiUrl: getEnv("YNAB_API_URL") || DEFAULT_YNAB_API_URL,
+  };
+}
+
+/**
+ * Load Actual Budget server settings from environment variables.
+ * Throws if any required value is missing or ACTUAL_ACCOUNT_IDS is malformed.
+ */
+export function loadActualConfig(): ActualConfig {
+  const required = {
+    serverUrl: "ACTUAL_SERVER_URL",
+    apiKey: "ACTUAL_API_KEY",
+    budgetId: "ACTUAL_BUDGET_ID",
+    accountId: "ACTUAL_ACCOUNT_ID",
+  };
+
+  const missing = Object.values(required).filter((envVar) => getEnv(envVar).length === 0);
+  if (missing.length > 0) {
+    throw new Error(`Actual Budget is not configured. Missing: ${missing.join(", ")}`);
+  }
+
+  return {
+    serverUrl: getEnv(required.serverUrl),
+    apiKey: getEnv(required.apiKey),
+    budgetId: getEnv(required.budgetId),
+    accountId: getEnv(required.accountId),
+    accountIds: parseAccountIdMap(getEnv("ACTUAL_ACCOUNT_IDS"), "ACTUAL_ACCOUNT_IDS"),
+    encryptionPassword: getEnv("ACTUAL_ENCRYPTION_PASSWORD") || undefined,
+  };
+}
+
 /**
  * Get list of all supported bank names
  */
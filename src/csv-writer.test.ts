@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { toCSV } from "./csv-writer.js";
+import { toCSV, validateCsvDialect } from "./csv-writer.js";
 import type { YnabRow } from "./transformer.js";
 
 describe("toCSV", () => {
@@ -104,4 +104,107 @@ describe("toCSV", () => {
     const csv = toCSV(rows);
     expect(csv).toContain("סופר פארם");
   });
+
+  it("appends ImportId column when requested", () => {
+    const rows: YnabRow[] = [
+      {
+        date: "2024-03-15",
+        payee: "Test",
+        memo: "",
+        outflow: "100.00",
+        inflow: "",
+        importId: "ib:abc123",
+      },
+    ];
+    const lines = toCSV(rows, { includeImportId: true }).split("\n");
+    expect(lines[0]).toBe("Date,Payee,Memo,Outflow,Inflow,ImportId");
+    expect(lines[1]).toBe("2024-03-15,Test,,100.00,,ib:abc123");
+  });
+
+  it("appends Category before ImportId when both are requested", () => {
+    const rows: YnabRow[] = [
+      { date: "2024-03-15", payee: "Test", memo: "", outflow: "100.00", inflow: "", category: "Food", importId: "ib:x" },
+      { date: "2024-03-16", payee: "Other", memo: "", outflow: "5.00", inflow: "" },
+    ];
+    const lines = toCSV(rows, { includeCategory: true, includeImportId: true }).split("\n");
+    expect(lines[0]).toBe("Date,Payee,Memo,Outflow,Inflow,Category,ImportId");
+    expect(lines[1]).toBe("2024-03-15,Test,,100.00,,Food,ib:x");
+    expect(lines[2]).toBe("2024-03-16,Other,,5.00,,,");
+  });
+
+  it("omits ImportId column by default", () => {
+    const rows: YnabRow[] = [
+      { date: "2024-03-15", payee: "Test", memo: "", outflow: "100.00", inflow: "", importId: "ib:x" },
+    ];
+    expect(toCSV(rows)).not.toContain("ib:x");
+  });
+});
+
+describe("toCSV dialect", () => {
+  const row: YnabRow = {
+    date: "2024-03-05",
+    payee: "Shop; Ltd",
+    memo: "line1\rline2",
+    outflow: "12.50",
+    inflow: "",
+    account: "Max",
+    category: "Food",
+    importId: "ib:x",
+  };
+
+  it("prefixes a BOM and uses CRLF line endings", () => {
+    const csv = toCSV([row], { bom: true, lineEnding: "crlf" });
+    expect(csv.startsWith("\uFEFFDate,Payee")).toBe(true);
+    expect(csv.split("\r\n")).toHaveLength(2);
+  });
+
+  it("quotes values containing the chosen delimiter or a carriage return", () => {
+    const lines = toCSV([row], { delimiter: ";" }).split("\n");
+    expect(lines[0]).toBe("Date;Payee;Memo;Outflow;Inflow");
+    expect(lines[1]).toBe('2024-03-05;"Shop; Ltd";"line1\rline2";12.50;');
+
+    const tabbed = toCSV([{ ...row, payee: "A\tB", memo: "" }], { delimiter: "\t" });
+    expect(tabbed.split("\n")[1]).toBe('2024-03-05\t"A\tB"\t\t12.50\t');
+  });
+
+  it("formats dates", () => {
+    expect(toCSV([row], { dateFormat: "DD/MM/YYYY" }).split("\n")[1]).toMatch(/^05\/03\/2024,/);
+    expect(toCSV([row], { dateFormat: "MM/DD/YYYY" }).split("\n")[1]).toMatch(/^03\/05\/2024,/);
+  });
+
+  it("writes a single signed Amount column", () => {
+    const lines = toCSV([row, { ...row, outflow: "", inflow: "7.00" }], {
+      amountColumns: "single",
+    }).split("\n");
+    expect(lines[0]).toBe("Date,Payee,Memo,Amount");
+    expect(lines[1]).toMatch(/,-12\.50$/);
+    expect(lines[2]).toMatch(/,7\.00$/);
+  });
+
+  it("appends extra columns in a fixed order", () => {
+    const lines = toCSV([row], { extraColumns: ["ImportId", "Account"] }).split("\n");
+    expect(lines[0]).toBe("Date,Payee,Memo,Outflow,Inflow,Account,ImportId");
+    expect(lines[1]).toMatch(/,Max,ib:x$/);
+  });
+});
+
+describe("validateCsvDialect", () => {
+  it("normalizes CLI-style values", () => {
+    expect(
+      validateCsvDialect({ bom: "true", delimiter: "tab", extraColumns: "Account, ImportId" })
+    ).toEqual({ bom: true, delimiter: "\t", extraColumns: ["Account", "ImportId"] });
+    expect(validateCsvDialect(undefined)).toEqual({});
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => validateCsvDialect({ delimiter: ";;" })).toThrow("Invalid CSV delimiter");
+    expect(() => validateCsvDialect({ lineEnding: "cr" })).toThrow("Invalid CSV line ending");
+    expect(() => validateCsvDialect({ dateFormat: "YYYY/MM/DD" })).toThrow(
+      "Invalid CSV date format"
+    );
+    expect(() => validateCsvDialect({ amountColumns: "both" })).toThrow(
+      "Invalid CSV amount columns"
+    );
+    expect(() => validateCsvDialect({ extraColumns: ["Notes"] })).toThrow();
+  });
 });
@@ -1,44 +1,189 @@
 import type { YnabRow } from "./transformer.js";
+import type { Exporter } from "./exporters.js";
 
-const CSV_HEADERS = ["Date", "Payee", "Memo", "Outflow", "Inflow"];
+export const CSV_DATE_FORMATS = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY"] as const;
+export type CsvDateFormat = (typeof CSV_DATE_FORMATS)[number];
+
+/** Optional columns appended after the amount columns, in this order */
+export const CSV_EXTRA_COLUMNS = ["Account", "Category", "ImportId"] as const;
+export type CsvExtraColumn = (typeof CSV_EXTRA_COLUMNS)[number];
 
 /**
- * Escape a value for CSV (handle quotes and commas)
+ * How the CSV is written. The defaults produce the YNAB import format.
  */
-function escapeCSV(value: string): string {
-  if (value.includes('"') || value.includes(",") || value.includes("\n")) {
+export interface CsvDialect {
+  /** Prefix a UTF-8 byte order mark so Excel shows Hebrew correctly (default false) */
+  bom?: boolean;
+  /** Field delimiter (default ",") */
+  delimiter?: string;
+  lineEnding?: "lf" | "crlf";
+  dateFormat?: CsvDateFormat;
+  /** Outflow and Inflow columns, or a single signed Amount column (default split) */
+  amountColumns?: "split" | "single";
+  extraColumns?: CsvExtraColumn[];
+}
+
+export interface ToCSVOptions extends CsvDialect {
+  /** Append a Category column with rule-assigned YNAB categories */
+  includeCategory?: boolean;
+  /** Append an ImportId column with each row's stable import ID */
+  includeImportId?: boolean;
+}
+
+/**
+ * Escape a value for CSV (quote values containing quotes, the delimiter or line breaks)
+ */
+function escapeCSV(value: string, delimiter = ","): string {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value)) {
     return `"${value.replace(/"/g, '""')}"`;
   }
   return value;
 }
 
+/**
+ * Reformat a YYYY-MM-DD date
+ */
+function formatCSVDate(date: string, format: CsvDateFormat): string {
+  const [year, month, day] = date.split("-");
+  if (format === "DD/MM/YYYY") return `${day}/${month}/${year}`;
+  if (format === "MM/DD/YYYY") return `${month}/${day}/${year}`;
+  return date;
+}
+
+function signedAmount(row: YnabRow): string {
+  const amount = (parseFloat(row.inflow) || 0) - (parseFloat(row.outflow) || 0);
+  return amount.toFixed(2);
+}
+
+function extraColumnValue(row: YnabRow, column: CsvExtraColumn): string {
+  if (column === "Account") return row.account ?? "";
+  if (column === "Category") return row.category ?? "";
+  return row.importId ?? "";
+}
+
 /**
  * Convert YNAB rows to CSV string
  */
-export function toCSV(rows: YnabRow[]): string {
-  const lines: string[] = [CSV_HEADERS.join(",")];
+export function toCSV(rows: YnabRow[], options: ToCSVOptions = {}): string {
+  const delimiter = options.delimiter ?? ",";
+  const single = options.amountColumns === "single";
+  const requested = new Set<CsvExtraColumn>(options.extraColumns ?? []);
+  if (options.includeCategory) requested.add("Category");
+  if (options.includeImportId) requested.add("ImportId");
+  const extraColumns = CSV_EXTRA_COLUMNS.filter((column) => requested.has(column));
+
+  const headers = ["Date", "Payee", "Memo", ...(single ? ["Amount"] : ["Outflow", "Inflow"])];
+  headers.push(...extraColumns);
+  const lines: string[] = [headers.map((h) => escapeCSV(h, delimiter)).join(delimiter)];
 
   for (const row of rows) {
     const values = [
-      escapeCSV(row.date),
-      escapeCSV(row.payee),
-      escapeCSV(row.memo),
-      escapeCSV(row.outflow),
-      escapeCSV(row.inflow),
+      formatCSVDate(row.date, options.dateFormat ?? "YYYY-MM-DD"),
+      row.payee,
+      row.memo,
+      ...(single ? [signedAmount(row)] : [row.outflow, row.inflow]),
+      ...extraColumns.map((column) => extraColumnValue(row, column)),
     ];
-    lines.push(values.join(","));
+    lines.push(values.map((value) => escapeCSV(value, delimiter)).join(delimiter));
+  }
+
+  const csv = lines.join(options.lineEnding === "crlf" ? "\r\n" : "\n");
+  return options.bom ? `\uFEFF${csv}` : csv;
+}
+
+/**
+ * Validate a CSV dialect from CLI flags or a request body.
+ * Accepts "tab" and "\\t" for a tab delimiter and a comma-separated string for extraColumns.
+ */
+export function validateCsvDialect(value: unknown): CsvDialect {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("CSV dialect must be an object");
+  }
+  const input = value as Record<string, unknown>;
+  const dialect: CsvDialect = {};
+
+  if (input.bom !== undefined) {
+    dialect.bom = input.bom === true || input.bom === "true";
+  }
+
+  if (input.delimiter !== undefined) {
+    const delimiter =
+      input.delimiter === "tab" || input.delimiter === "\\t" ? "\t" : input.delimiter;
+    if (typeof delimiter !== "string" || delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+      throw new Error(
+        `Invalid CSV delimiter: ${String(input.delimiter)}. Use a single character or "tab"`
+      );
+    }
+    dialect.delimiter = delimiter;
   }
 
-  return lines.join("\n");
+  if (input.lineEnding !== undefined) {
+    if (input.lineEnding !== "lf" && input.lineEnding !== "crlf") {
+      throw new Error(`Invalid CSV line ending: ${String(input.lineEnding)}. Use lf or crlf`);
+    }
+    dialect.lineEnding = input.lineEnding;
+  }
+
+  if (input.dateFormat !== undefined) {
+    if (!CSV_DATE_FORMATS.includes(input.dateFormat as CsvDateFormat)) {
+      throw new Error(
+        `Invalid CSV date format: ${String(input.dateFormat)}. Use one of: ${CSV_DATE_FORMATS.join(", ")}`
+      );
+    }
+    dialect.dateFormat = input.dateFormat as CsvDateFormat;
+  }
+
+  if (input.amountColumns !== undefined) {
+    if (input.amountColumns !== "split" && input.amountColumns !== "single") {
+      throw new Error(
+        `Invalid CSV amount columns: ${String(input.amountColumns)}. Use split or single`
+      );
+    }
+    dialect.amountColumns = input.amountColumns;
+  }
+
+  if (input.extraColumns !== undefined) {
+    const columns =
+      typeof input.extraColumns === "string"
+        ? input.extraColumns
+            .split(",")
+            .map((column) => column.trim())
+            .filter(Boolean)
+        : input.extraColumns;
+    if (!Array.isArray(columns)) {
+      throw new Error("CSV extraColumns must be a list");
+    }
+    for (const column of columns) {
+      if (!CSV_EXTRA_COLUMNS.includes(column as CsvExtraColumn)) {
+        throw new Error(
+          `Invalid CSV column: ${String(column)}. Use one of: ${CSV_EXTRA_COLUMNS.join(", ")}`
+        );
+      }
+    }
+    dialect.extraColumns = columns as CsvExtraColumn[];
+  }
+
+  return dialect;
 }
 
+export const csvExporter: Exporter = {
+  name: "csv",
+  label: "YNAB CSV",
+  extension: "csv",
+  filePrefix: "ynab",
+  export: (rows, context) => toCSV(rows, context.csvOptions),
+};
+
 /**
  * Generate output filename with timestamp
  */
-export function generateFilename(prefix: string = "ynab-transactions"): string {
+export function generateFilename(prefix: string = "ynab-transactions", extension: string = "csv"): string {
   const now = new Date();
   const timestamp = now.toISOString()
     .replace(/:/g, "-")  // Windows-safe
     .replace(/\.\d{3}Z$/, "");  // Remove milliseconds
-  return `${prefix}-${timestamp}.csv`;
+  return `${prefix}-${timestamp}.${extension}`;
 }
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readFileSync } from "node:fs";
+import { basename, join } from "node:path";
+import { tmpdir } from "node:os";
+import { EXPORTERS, getExporter, type ExportContext } from "./exporters.js";
+import { writeExport } from "./output.js";
+import { transformTransactions, type EnrichedTransaction } from "./transformer.js";
+
+const transactions = [
+  makeTxn({ identifier: 1, description: "Store", chargedAmount: -100, accountName: "Max" }),
+  makeTxn({ identifier: 2, description: "Salary", chargedAmount: 5000, accountName: "Leumi" }),
+];
+const rows = transformTransactions(transactions);
+
+function makeContext(overrides: Partial<ExportContext> = {}): ExportContext {
+  return {
+    rules: { payeeRules: [], categoryRules: [] },
+    accountKinds: { Max: "card", Leumi: "bank" },
+    instances: [],
+    csvOptions: {},
+    transactions,
+    ...overrides,
+  };
+}
+
+describe("getExporter", () => {
+  it("defaults to csv", () => {
+    expect(getExporter().name).toBe("csv");
+    expect(getExporter(undefined).name).toBe("csv");
+  });
+
+  it("throws on unknown formats, listing the registered ones", () => {
+    expect(() => getExporter("xlsx")).toThrow(
+      `Invalid format: xlsx. Use one of: ${EXPORTERS.map((e) => e.name).join(", ")}`
+    );
+  });
+
+  it("registers every format under a unique name", () => {
+    const names = EXPORTERS.map((e) => e.name);
+    expect(new Set(names).size).toBe(names.length);
+    expect(names).toEqual(
+      expect.arrayContaining(["csv", "ofx", "qif", "ledger", "beancount", "actual"])
+    );
+  });
+});
+
+describe("writeExport", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "exporters-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("writes one file named after the exporter's prefix and extension", () => {
+    const [path] = writeExport(getExporter("qif"), rows, makeContext(), dir);
+
+    expect(basename(path)).toMatch(/^ynab-transactions-.*\.qif$/);
+    const qif = readFileSync(path, "utf-8");
+    expect(qif).toContain("!Type:CCard");
+    expect(qif).toContain("!Type:Bank");
+  });
+
+  it("writes one file per account when splitting", () => {
+    const paths = writeExport(getExporter("csv"), rows, makeContext(), dir, true);
+
+    expect(paths.map((p) => basename(p).replace(/-\d{4}-.*$/, "")).sort()).toEqual([
+      "ynab-leumi",
+      "ynab-max",
+    ]);
+    const max = readFileSync(paths.find((p) => basename(p).startsWith("ynab-max"))!, "utf-8");
+    expect(max).toContain("Store");
+    expect(max).not.toContain("Salary");
+  });
+
+  it("splits the scraped transactions along with the rows for journal formats", () => {
+    const paths = writeExport(getExporter("ledger"), rows, makeContext(), dir, true);
+
+    const max = readFileSync(paths.find((p) => basename(p).startsWith("journal-max"))!, "utf-8");
+    expect(max).toContain("* Store");
+    expect(max).not.toContain("Salary");
+  });
+
+  it("always writes one Actual OFX file per account, with fingerprint FITIDs", () => {
+    const paths = writeExport(getExporter("actual"), rows, makeContext(), dir);
+
+    expect(paths.map((p) => basename(p).replace(/-\d{4}-.*$/, "")).sort()).toEqual([
+      "actual-leumi",
+      "actual-max",
+    ]);
+    const max = readFileSync(paths.find((p) => basename(p).startsWith("actual-max"))!, "utf-8");
+    expect(max.match(/<STMTRS>/g)).toHaveLength(1);
+    expect(max).toContain(`<FITID>${rows[0].importId}</FITID>`);
+    expect(max).not.toContain("Salary");
+  });
+
+  it("rejects journal exports without the scraped transactions", () => {
+    expect(() =>
+      writeExport(getExporter("beancount"), rows, makeContext({ transactions: undefined }), dir)
+    ).toThrow("The beancount format needs the scraped transactions");
+  });
+});
+
+function makeTxn(overrides: Partial<EnrichedTransaction>): EnrichedTransaction {
+  return {
+    date: "2024-03-15T00:00:00+02:00",
+    processedDate: "2024-03-15T00:00:00+02:00",
+    originalAmount: overrides.chargedAmount ?? 0,
+    originalCurrency: "ILS",
+    chargedAmount: 0,
+    description: "Test Transaction",
+    status: "completed" as EnrichedTransaction["status"],
+    type: "normal" as EnrichedTransaction["type"],
+    ...overrides,
+  };
+}
@@ -0,0 +1,64 @@
+import type { AccountInstance, AccountKind } from "./banks.js";
+import type { Rules } from "./rules.js";
+import type { EnrichedTransaction, YnabRow } from "./transformer.js";
+import { csvExporter, type ToCSVOptions } from "./csv-writer.js";
+import { ofxExporter } from "./ofx-writer.js";
+import { qifExporter } from "./qif-writer.js";
+import { ledgerExporter, beancountExporter } from "./ledger-writer.js";
+import { actualExporter } from "./actual-api.js";
+import { jsonExporter, ndjsonExporter } from "./json-writer.js";
+
+/**
+ * Everything an exporter may need besides the rows
+ */
+export interface ExportContext {
+  rules: Rules;
+  /** Bank or card, by account instance name */
+  accountKinds: Record<string, AccountKind>;
+  instances: AccountInstance[];
+  csvOptions: ToCSVOptions;
+  /** The scraped transactions behind the rows, for exporters with needsTransactions */
+  transactions?: EnrichedTransaction[];
+}
+
+/**
+ * An output format. Adding a format is one module exporting an Exporter, plus an entry in EXPORTERS.
+ */
+export interface Exporter {
+  /** Format name used by --format and POST /api/export */
+  name: string;
+  /** Display name for the GUI */
+  label: string;
+  extension: string;
+  /** Files are named <prefix>-transactions-<timestamp>, or <prefix>-<account>-<timestamp> when split */
+  filePrefix: string;
+  /** Always written one file per account, even without split (actual) */
+  perAccount?: boolean;
+  /** Posts from context.transactions rather than the rows (ledger, beancount) */
+  needsTransactions?: boolean;
+  /** Serialize rows (for one account when splitting) to the file content */
+  export(rows: YnabRow[], context: ExportContext): string;
+}
+
+export const EXPORTERS: Exporter[] = [
+  csvExporter,
+  ofxExporter,
+  qifExporter,
+  ledgerExporter,
+  beancountExporter,
+  actualExporter,
+  jsonExporter,
+  ndjsonExporter,
+];
+
+/**
+ * Look up an exporter by format name (default csv). Throws on unknown formats.
+ */
+export function getExporter(name: unknown = "csv"): Exporter {
+  const exporter = EXPORTERS.find((e) => e.name === (name ?? "csv"));
+  if (!exporter) {
+    const names = EXPORTERS.map((e) => e.name).join(", ");
+    throw new Error(`Invalid format: ${String(name)}. Use one of: ${names}`);
+  }
+  return exporter;
+}
@@ -1,13 +1,32 @@
 #!/usr/bin/env node
-import { readFileSync, writeFileSync, mkdirSync, existsSync, readdirSync, unlinkSync, statSync } from "node:fs";
-import { join } from "node:path";
+import { readFileSync, writeFileSync } from "node:fs";
 import { program } from "commander";
-import { loadConfig } from "./config.js";
-import { scrapeAllAccounts } from "./scraper.js";
-import { transformTransactions, filterAndPartition, groupByAccount, calculateSummary, type EnrichedTransaction } from "./transformer.js";
-import { toCSV, generateFilename } from "./csv-writer.js";
-import { createAuditLogger } from "./audit-logger.js";
+import { loadConfig, getAccountInstances, loadYnabConfig } from "./config.js";
 import { reconcile, formatReconcileReport } from "./reconcile.js";
+import { loadRules, applyPayeeRules, assignCategory } from "./rules.js";
+import { runScrapeJob, runScheduledScrape, runTransformJob } from "./scrape-job.js";
+import { validateConcurrency, validateMaxAttempts, SCRAPER_PROVIDERS } from "./scraper.js";
+import { createScheduleStore, createScheduler, nextCronTime } from "./scheduler.js";
+import { createVault, setActiveVault } from "./vault.js";
+import { createScrapeState } from "./scrape-state.js";
+import { errorKindLabel, remediationHint } from "./scrape-errors.js";
+import { EXPORTERS, getExporter } from "./exporters.js";
+import {
+  validateCsvDialect,
+  CSV_DATE_FORMATS,
+  CSV_EXTRA_COLUMNS,
+  type CsvDialect,
+} from "./csv-writer.js";
+import { loadSnapshot } from "./scrape-cache.js";
+import {
+  projectInstallments,
+  toProjectionRows,
+  formatInstallmentPlans,
+  toInstallmentsCSV,
+} from "./installment-projection.js";
+import { pushScheduledTransactions } from "./ynab-api.js";
+import { prompt } from "./prompt.js";
+import { readEnvFile, clearEnvVars } from "./server/env-io.js";
 
 program
   .name("israeli-bank-ynab")
@@ -19,90 +38,223 @@ program
   .description("Scrape all configured accounts and generate YNAB CSV")
   .option("-d, --days-back <days>", "Number of days to scrape", "60")
   .option("-s, --show-browser", "Show browser window during scraping", false)
+  .option("--since-last", "Start each account from its last successful scrape", false)
+  .option("--overlap-days <days>", "Days to re-scrape before the last successful scrape", "7")
+  .option("-c, --concurrency <n>", "Number of accounts to scrape in parallel", "1")
+  .option("--max-attempts <n>", "Attempts per account before giving up on timeouts and generic errors", "3")
+  .option("--provider <name>", `Scraper provider: ${SCRAPER_PROVIDERS.join(" or ")} (default: SCRAPER_PROVIDER)`)
   .option("-o, --output <dir>", "Output directory", "./output")
-  .option("--split", "Generate separate CSV per account", false)
+  .option("-f, --format <format>", `Output format: ${EXPORTERS.map((e) => e.name).join(", ")}`, "csv")
+  .option("--split", "Generate a separate file per account", false)
   .option("--dry-run", "Preview what would be exported without writing files", false)
+  .option("--ynab-push", "Also push transactions directly to YNAB via the API", false)
+  .option("--actual-push", "Also push transactions to the Actual Budget server in .env", false)
+  .option("--import-id-column", "Add an ImportId column with stable per-transaction IDs", false)
+  .option("--csv-bom", "Start CSV files with a UTF-8 byte order mark (for Excel)", false)
+  .option("--csv-delimiter <char>", 'CSV field delimiter, e.g. ";" or "tab"', ",")
+  .option("--csv-line-ending <ending>", "CSV line ending: lf or crlf", "lf")
+  .option("--csv-date-format <format>", `CSV date format: ${CSV_DATE_FORMATS.join(", ")}`, "YYYY-MM-DD")
+  .option("--csv-amount <columns>", "CSV amounts: split (Outflow/Inflow) or single (signed Amount)", "split")
+  .option("--csv-columns <columns>", `Extra CSV columns, comma-separated: ${CSV_EXTRA_COLUMNS.join(", ")}`)
+  .option("--only-new", "Skip transactions already exported in a previous run", false)
   .action(async (options) => {
-    const config = loadConfig({
-      showBrowser: options.showBrowser,
-      daysBack: parseInt(options.daysBack, 10),
-    });
-
-    for (const warning of config.warnings) {
-      console.warn(warning);
+    try {
+      await unlockVaultIfPresent();
+      const job = await runScrapeJob({
+        showBrowser: options.showBrowser,
+        daysBack: parseInt(options.daysBack, 10),
+        sinceLast: options.sinceLast,
+        overlapDays: parseInt(options.overlapDays, 10),
+        concurrency: validateConcurrency(options.concurrency),
+        maxAttempts: validateMaxAttempts(options.maxAttempts),
+        provider: options.provider,
+        outputDir: options.output,
+        format: getExporter(options.format).name,
+        split: options.split,
+        dryRun: options.dryRun,
+        ynabPush: options.ynabPush,
+        actualPush: options.actualPush,
+        importIdColumn: options.importIdColumn,
+        csvDialect: csvDialectFromOptions(options),
+        onlyNew: options.onlyNew,
+        requestOtpCode: createOtpPrompter(),
+      });
+      if (job.ynabPushError || job.actualPushError) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
+      return;
     }
 
-    if (options.output) {
-      config.outputDir = options.output;
+    console.log("\nDone!");
+  });
+
+program
+  .command("transform")
+  .description("Re-run the transformation on a cached scrape without logging in to the banks")
+  .requiredOption("--from-cache <snapshot>", 'Snapshot name in the scrape cache, or "latest"')
+  .option("-o, --output <dir>", "Output directory", "./output")
+  .option("-f, --format <format>", `Output format: ${EXPORTERS.map((e) => e.name).join(", ")}`, "csv")
+  .option("--split", "Generate a separate file per account", false)
+  .option("--dry-run", "Preview what would be exported without writing files", false)
+  .option("--ynab-push", "Also push transactions directly to YNAB via the API", false)
+  .option("--actual-push", "Also push transactions to the Actual Budget server in .env", false)
+  .option("--import-id-column", "Add an ImportId column with stable per-transaction IDs", false)
+  .option("--csv-bom", "Start CSV files with a UTF-8 byte order mark (for Excel)", false)
+  .option("--csv-delimiter <char>", 'CSV field delimiter, e.g. ";" or "tab"', ",")
+  .option("--csv-line-ending <ending>", "CSV line ending: lf or crlf", "lf")
+  .option("--csv-date-format <format>", `CSV date format: ${CSV_DATE_FORMATS.join(", ")}`, "YYYY-MM-DD")
+  .option("--csv-amount <columns>", "CSV amounts: split (Outflow/Inflow) or single (signed Amount)", "split")
+  .option("--csv-columns <columns>", `Extra CSV columns, comma-separated: ${CSV_EXTRA_COLUMNS.join(", ")}`)
+  .option("--only-new", "Skip transactions already exported in a previous run", false)
+  .action(async (options) => {
+    try {
+      const job = await runTransformJob({
+        snapshot: options.fromCache,
+        outputDir: options.output,
+        format: getExporter(options.format).name,
+        split: options.split,
+        dryRun: options.dryRun,
+        ynabPush: options.ynabPush,
+        actualPush: options.actualPush,
+        importIdColumn: options.importIdColumn,
+        csvDialect: csvDialectFromOptions(options),
+        onlyNew: options.onlyNew,
+      });
+      if (job.ynabPushError || job.actualPushError) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
+      return;
     }
 
-    const auditLogger = createAuditLogger();
-    const results = await scrapeAllAccounts(
-      config.accounts,
-      config.startDate,
-      config.showBrowser,
-      console.log
-    );
+    console.log("\nDone!");
+  });
 
-    auditLogger.recordScrapeResults(results);
+const scheduleCommand = program.command("schedule").description("Manage scheduled scrapes run by the daemon");
 
-    const allRawTransactions: EnrichedTransaction[] = [];
-    for (const result of results) {
-      if (result.success) {
-        allRawTransactions.push(...result.transactions);
-      }
+scheduleCommand
+  .command("add")
+  .description("Add a schedule")
+  .argument("<cron>", 'Cron expression, e.g. "0 7 * * *" for 07:00 daily')
+  .option("-a, --account <name...>", "Account instances to scrape (default: all enabled)")
+  .option("-d, --days-back <days>", "Number of days to scrape")
+  .option("--since-last", "Start each account from its last successful scrape", false)
+  .option("--split", "Generate separate CSV per account", false)
+  .option("--only-new", "Skip transactions already exported in a previous run", false)
+  .option("--ynab-push", "Also push transactions directly to YNAB via the API", false)
+  .option("-o, --output <dir>", "Output directory")
+  .action((cron, options) => {
+    try {
+      const store = createScheduleStore();
+      const schedule = store.add({
+        cron,
+        accounts: options.account ?? [],
+        options: {
+          daysBack: options.daysBack ? parseInt(options.daysBack, 10) : undefined,
+          sinceLast: options.sinceLast,
+          split: options.split,
+          onlyNew: options.onlyNew,
+          ynabPush: options.ynabPush,
+          outputDir: options.output,
+        },
+      });
+      store.save();
+      console.log(`Added schedule ${schedule.id} (next run: ${nextCronTime(cron, new Date()).toISOString()})`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
     }
+  });
 
-    const { kept: allTransactions, skipped } = filterAndPartition(allRawTransactions);
-    for (const { txn, reason } of skipped) {
-      auditLogger.recordSkipped(txn, reason);
+scheduleCommand
+  .command("list")
+  .description("List schedules")
+  .action(() => {
+    const schedules = createScheduleStore().list();
+    if (schedules.length === 0) {
+      console.log("No schedules configured.");
+      return;
+    }
+    for (const schedule of schedules) {
+      const accounts = schedule.accounts.length > 0 ? schedule.accounts.join(", ") : "all accounts";
+      const last = schedule.lastRunAt ? `last: ${schedule.lastRunAt} ${schedule.lastStatus}` : "never run";
+      const state = schedule.enabled ? "" : " [disabled]";
+      console.log(`${schedule.id}  ${schedule.cron}  ${accounts}  (${last})${state}`);
     }
+  });
 
-    if (allTransactions.length === 0) {
-      console.log("\nNo transactions to export.");
-      saveAuditLog(auditLogger);
+scheduleCommand
+  .command("remove")
+  .description("Remove a schedule")
+  .argument("<id>", "Schedule ID")
+  .action((id) => {
+    const store = createScheduleStore();
+    if (!store.remove(id)) {
+      console.error(`Error: Schedule "${id}" not found`);
+      process.exitCode = 1;
       return;
     }
+    store.save();
+    console.log(`Removed schedule ${id}`);
+  });
 
-    console.log(`\nTransforming ${allTransactions.length} transactions to YNAB format...`);
-
-    if (options.dryRun) {
-      printDryRunSummary(allTransactions);
-      console.log("\n[Dry run - no files written]");
-      saveAuditLog(auditLogger);
+program
+  .command("daemon")
+  .description("Run scheduled scrapes from ./data/schedules.json until stopped")
+  .option("--interval <seconds>", "How often to check for due schedules", "60")
+  .action(async (options) => {
+    try {
+      await unlockVaultIfPresent();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
       return;
     }
 
-    if (options.split) {
-      const byAccount = groupByAccount(allTransactions);
-      const rowsByAccount = new Map<string, ReturnType<typeof transformTransactions>>();
-
-      for (const [account, txns] of byAccount) {
-        rowsByAccount.set(account, transformTransactions(txns));
-      }
-
-      const paths = writeCSVPerAccount(rowsByAccount, config.outputDir);
-      console.log(`\nWrote ${paths.length} CSV file(s):`);
-      for (const path of paths) {
-        console.log(`  ${path}`);
-      }
+    const intervalSeconds = parseInt(options.interval, 10);
+    if (isNaN(intervalSeconds) || intervalSeconds < 1) {
+      console.error(`Error: Invalid interval: ${options.interval}`);
+      process.exitCode = 1;
+      return;
+    }
 
-      const allRows = Array.from(rowsByAccount.values()).flat();
-      auditLogger.recordOutput(allRows, paths.join(", "), "");
-    } else {
-      const rows = transformTransactions(allTransactions);
-      const csvContent = toCSV(rows);
-      const outputPath = writeCSV(rows, config.outputDir);
+    const store = createScheduleStore();
+    const schedules = store.list();
+    if (schedules.length === 0) {
+      console.warn('No schedules configured. Add one with "schedule add" or POST /api/schedules.');
+    }
+    for (const schedule of schedules) {
+      const next = schedule.enabled ? nextCronTime(schedule.cron, new Date()).toISOString() : "disabled";
+      const accounts = schedule.accounts.length > 0 ? schedule.accounts.join(", ") : "all accounts";
+      console.log(`  ${schedule.cron}  ${accounts}  (next: ${next})`);
+    }
 
-      console.log(`\nWrote ${rows.length} transactions to:`);
-      console.log(`  ${outputPath}`);
+    const log = (message: string) => console.log(`[${new Date().toISOString()}] ${message}`);
+    const scheduler = createScheduler({
+      store,
+      run: (schedule) => runScheduledScrape(schedule),
+      intervalMs: intervalSeconds * 1000,
+      onLog: log,
+    });
 
-      auditLogger.recordOutput(rows, outputPath, csvContent);
-    }
+    const shutdown = () => {
+      scheduler.stop();
+      log(scheduler.isRunning() ? "Stopping after the current run..." : "Scheduler stopped.");
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
 
-    const logPath = saveAuditLog(auditLogger);
-    console.log(`\nAudit log saved to: ${logPath}`);
-    console.log("\nDone!");
+    log(`Scheduler started, checking every ${intervalSeconds}s`);
+    scheduler.start();
   });
 
 program
@@ -132,111 +284,257 @@ program
 program
   .command("list-accounts")
   .description("List configured accounts and their status")
-  .action(() => {
+  .action(async () => {
+    try {
+      await unlockVaultIfPresent();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
+      return;
+    }
+
     const config = loadConfig();
 
     for (const warning of config.warnings) {
       console.warn(warning);
     }
 
+    const scrapeState = createScrapeState();
+
     console.log("\nConfigured accounts:\n");
     for (const account of config.accounts) {
       const status = account.enabled ? "enabled" : "disabled (missing credentials)";
-      console.log(`  ${account.name}: ${status}`);
+      const bank = account.name !== account.bankName ? ` [${account.bankName}]` : "";
+      console.log(`  ${account.name}${bank}: ${status}`);
+
+      const failure = scrapeState.getLastFailure(account.name);
+      if (failure) {
+        console.log(`    Last run ${failure.at.split("T")[0]}: ${errorKindLabel(failure.errorKind)} (${failure.error})`);
+        console.log(`    ${remediationHint(failure.errorKind)}`);
+      }
     }
     console.log("\nTo enable accounts, add credentials to .env file.");
+    console.log("To add another login for a bank, list it in ACCOUNT_INSTANCES (e.g. Isracard:Dana).");
   });
 
-program.action(() => {
-  program.help();
-});
-
-program.parse();
-
-function writeCSV(
-  rows: ReturnType<typeof transformTransactions>,
-  outputDir: string,
-  filename?: string
-): string {
-  if (!existsSync(outputDir)) {
-    mkdirSync(outputDir, { recursive: true });
-  }
+const vaultCommand = program.command("vault").description("Manage the encrypted credential vault");
 
-  const outputFilename = filename ?? generateFilename();
-  const outputPath = join(outputDir, outputFilename);
-  const csv = toCSV(rows);
-  writeFileSync(outputPath, csv, "utf-8");
-  return outputPath;
-}
+vaultCommand
+  .command("init")
+  .description("Create an empty encrypted vault protected by a passphrase")
+  .action(async () => {
+    try {
+      const vault = createVault();
+      if (vault.exists()) {
+        throw new Error(`Vault already exists: ${vault.path}`);
+      }
 
-function writeCSVPerAccount(
-  rowsByAccount: Map<string, ReturnType<typeof transformTransactions>>,
-  outputDir: string
-): string[] {
-  const paths: string[] = [];
+      const passphrase = process.env.VAULT_PASSPHRASE || (await prompt("New vault passphrase: ", { hidden: true }));
+      if (!process.env.VAULT_PASSPHRASE) {
+        const confirmation = await prompt("Repeat passphrase: ", { hidden: true });
+        if (confirmation !== passphrase) {
+          throw new Error("Passphrases do not match");
+        }
+      }
 
-  for (const [accountName, rows] of rowsByAccount) {
-    if (rows.length === 0) continue;
+      await vault.init(passphrase);
+      console.log(`Created encrypted vault at ${vault.path}`);
+      console.log('Run "vault migrate-from-env" to move credentials out of .env.');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
+    }
+  });
 
-    const safeName = accountName.replace(/[^a-zA-Z0-9]/g, "-").toLowerCase();
-    const filename = generateFilename(`ynab-${safeName}`);
-    const path = writeCSV(rows, outputDir, filename);
-    paths.push(path);
-  }
+vaultCommand
+  .command("unlock")
+  .description("Check the vault passphrase and list which credentials are stored")
+  .action(async () => {
+    try {
+      const vault = await openVault();
+      const keys = vault.keys();
+      console.log(`Vault unlocked: ${keys.length} credential value(s) stored`);
+      for (const key of keys.sort()) {
+        console.log(`  ${key}`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
+    }
+  });
 
-  return paths;
-}
+vaultCommand
+  .command("migrate-from-env")
+  .description("Move bank credentials from .env into the vault and blank them in .env")
+  .option("--env-file <path>", "Path to the .env file", ".env")
+  .action(async (options) => {
+    try {
+      const vault = await openVault();
+      const envVars = readEnvFile(options.envFile);
+
+      const updates: Record<string, string> = {};
+      for (const instance of getAccountInstances()) {
+        for (const envVar of Object.values(instance.credentialFields)) {
+          const value = envVars[envVar];
+          if (value) {
+            updates[envVar] = value;
+          }
+        }
+      }
 
-const LOG_DIR = "./logs";
-const LOG_RETENTION_DAYS = 14;
+      const keys = Object.keys(updates);
+      if (keys.length === 0) {
+        console.log("No credentials found in .env; nothing to migrate.");
+        return;
+      }
 
-function saveAuditLog(auditLogger: ReturnType<typeof createAuditLogger>): string {
-  if (!existsSync(LOG_DIR)) {
-    mkdirSync(LOG_DIR, { recursive: true });
-  }
+      vault.set(updates);
+      vault.save();
+      clearEnvVars(options.envFile, keys);
+      console.log(`Moved ${keys.length} credential value(s) into ${vault.path} and cleared them from ${options.envFile}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
+    }
+  });
 
-  cleanOldLogs(LOG_DIR, LOG_RETENTION_DAYS);
+const rulesCommand = program.command("rules").description("Inspect transformation rules");
 
-  const filepath = join(LOG_DIR, auditLogger.getFilename());
-  writeFileSync(filepath, auditLogger.format(), "utf-8");
-  return filepath;
-}
+rulesCommand
+  .command("test")
+  .description("Show which payee and category rules fire for a bank description")
+  .argument("<description>", "Bank transaction description")
+  .option("-a, --account <name>", "Account name, for account-scoped rules")
+  .option("--amount <amount>", "Outflow amount, for amount-range category rules")
+  .option("-r, --rules <path>", "Rules file (defaults to RULES_FILE or ./rules.json)")
+  .action((description, options) => {
+    try {
+      const rules = loadRules(options.rules);
+      const result = applyPayeeRules(description, options.account, rules.payeeRules);
+
+      console.log(`\nDescription: ${description}`);
+      if (result.rule) {
+        const { match, pattern } = result.rule;
+        console.log(`Payee rule #${result.ruleIndex + 1} fired: ${match} "${pattern}"`);
+      } else {
+        console.log(`No payee rule matched (${rules.payeeRules.length} rule(s) checked)`);
+      }
+      console.log(`Payee: ${result.payee}`);
+
+      const categoryMatch = assignCategory(
+        {
+          payee: result.payee,
+          description,
+          amount: -Math.abs(parseFloat(options.amount ?? "0") || 0),
+          accountName: options.account,
+        },
+        rules.categoryRules
+      );
+      if (categoryMatch) {
+        console.log(`Category rule #${categoryMatch.ruleIndex + 1} fired`);
+        console.log(`Category: ${categoryMatch.category}`);
+      } else {
+        console.log(`No category rule matched (${rules.categoryRules.length} rule(s) checked)`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
+    }
+  });
 
-function cleanOldLogs(logDir: string, retentionDays: number) {
-  if (!existsSync(logDir)) return;
+const installmentsCommand = program
+  .command("installments")
+  .description("Track purchases paid in installments");
 
-  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+installmentsCommand
+  .command("list")
+  .description("List open installment plans and the remaining balance per card")
+  .option("--from-cache <snapshot>", 'Snapshot name in the scrape cache, or "latest"', "latest")
+  .option("--csv <file>", "Also write the remaining charges as a CSV report")
+  .option("--ynab-schedule", "Create the remaining charges as YNAB scheduled transactions", false)
+  .action(async (options) => {
+    try {
+      const snapshot = loadSnapshot(options.fromCache);
+      const transactions = snapshot.results.flatMap((result) => result.transactions);
+      const plans = projectInstallments(transactions, loadRules());
 
-  try {
-    const files = readdirSync(logDir);
-    for (const file of files) {
-      if (!file.startsWith("run-") || !file.endsWith(".log")) continue;
+      console.log(`Installment plans in ${snapshot.path} (scraped ${snapshot.createdAt})\n`);
+      console.log(formatInstallmentPlans(plans));
 
-      const filepath = join(logDir, file);
-      const stats = statSync(filepath);
+      if (options.csv) {
+        const charges = plans.reduce((sum, plan) => sum + plan.remaining.length, 0);
+        writeFileSync(options.csv, toInstallmentsCSV(plans), "utf-8");
+        console.log(`\nWrote ${charges} projected charge(s) to ${options.csv}`);
+      }
 
-      if (stats.mtimeMs < cutoff) {
-        unlinkSync(filepath);
+      if (options.ynabSchedule) {
+        const result = await pushScheduledTransactions(toProjectionRows(plans), loadYnabConfig());
+        console.log(
+          `\nYNAB scheduled transactions: ${result.createdCount} created, ` +
+            `${result.existingCount} already scheduled, ${result.pastCount} not in the future`
+        );
       }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error: ${message}`);
+      process.exitCode = 1;
     }
-  } catch {
-    // Ignore cleanup errors
-  }
-}
+  });
 
-function printDryRunSummary(transactions: EnrichedTransaction[]) {
-  const summary = calculateSummary(transactions);
+program.action(() => {
+  program.help();
+});
+
+program.parse();
+
+/**
+ * Build the CSV dialect from the --csv-* options (throws on invalid values)
+ */
+function csvDialectFromOptions(options: Record<string, unknown>): CsvDialect {
+  return validateCsvDialect({
+    bom: options.csvBom,
+    delimiter: options.csvDelimiter,
+    lineEnding: options.csvLineEnding,
+    dateFormat: options.csvDateFormat,
+    amountColumns: options.csvAmount,
+    extraColumns: options.csvColumns,
+  });
+}
 
-  console.log("\n--- Dry Run Summary ---");
+/**
+ * Unlock the vault with VAULT_PASSPHRASE or an interactive prompt.
+ */
+async function openVault() {
+  const vault = createVault();
+  const passphrase = process.env.VAULT_PASSPHRASE || (await prompt("Vault passphrase: ", { hidden: true }));
+  await vault.unlock(passphrase);
+  return vault;
+}
 
-  for (const [account, data] of summary.byAccount) {
-    console.log(`\n${account}: ${data.count} transactions`);
-    console.log(`  Outflow: ₪${data.outflow.toFixed(2)}`);
-    console.log(`  Inflow: ₪${data.inflow.toFixed(2)}`);
+/**
+ * When a vault exists, unlock it so config reads credentials from it.
+ */
+async function unlockVaultIfPresent(): Promise<void> {
+  if (!createVault().exists()) {
+    return;
   }
+  setActiveVault(await openVault());
+}
 
-  console.log("\n--- Totals ---");
-  console.log(`Transactions: ${transactions.length}`);
-  console.log(`Outflow: ₪${summary.totalOutflow.toFixed(2)}`);
-  console.log(`Inflow: ₪${summary.totalInflow.toFixed(2)}`);
+/**
+ * Ask for SMS one-time codes on the terminal, one account at a time
+ * (accounts scraped in parallel may ask together).
+ */
+function createOtpPrompter(): (accountName: string) => Promise<string> {
+  let queue: Promise<unknown> = Promise.resolve();
+  return (accountName) => {
+    const answer = queue.then(() => prompt(`One-time code sent to ${accountName}'s phone: `));
+    queue = answer.catch(() => {});
+    return answer;
+  };
 }
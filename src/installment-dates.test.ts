@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  addMonthsClamped,
+  applyInstallmentOffset,
+  getInstallmentDateStrategy,
+  selectInstallmentDateStrategy,
+  type InstallmentDateInput,
+} from "./installment-dates.js";
+
+function dateWith(strategy: string, input: Partial<InstallmentDateInput>): string {
+  return getInstallmentDateStrategy(strategy).date({
+    chargeDate: "2024-03-10",
+    purchaseDate: "2024-03-10",
+    installment: { number: 1, total: 3 },
+    ...input,
+  });
+}
+
+describe("applyInstallmentOffset", () => {
+  it("rolls month-end dates over past the shorter month", () => {
+    expect(applyInstallmentOffset("2024-01-31")).toBe("2024-01-01");
+    expect(applyInstallmentOffset("2024-02-29")).toBe("2024-01-30");
+    expect(applyInstallmentOffset("2024-03-31")).toBe("2024-03-03");
+    expect(applyInstallmentOffset("2023-03-31")).toBe("2023-03-04");
+  });
+});
+
+describe("addMonthsClamped", () => {
+  it("clamps to the end of shorter months", () => {
+    expect(addMonthsClamped("2024-01-31", 1)).toBe("2024-02-29");
+    expect(addMonthsClamped("2023-01-31", 1)).toBe("2023-02-28");
+    expect(addMonthsClamped("2024-02-29", 12)).toBe("2025-02-28");
+    expect(addMonthsClamped("2024-11-30", 3)).toBe("2025-02-28");
+  });
+});
+
+describe("installment date strategies", () => {
+  it("offset shifts the charge date back a month and forward a day", () => {
+    expect(dateWith("offset", { chargeDate: "2024-01-31" })).toBe("2024-01-01");
+    expect(dateWith("offset", { chargeDate: "2024-02-29" })).toBe("2024-01-30");
+  });
+
+  it("charge-date keeps the charge date", () => {
+    expect(dateWith("charge-date", { chargeDate: "2024-01-31" })).toBe("2024-01-31");
+    expect(dateWith("charge-date", { chargeDate: "2024-02-29" })).toBe("2024-02-29");
+  });
+
+  it("purchase-plus-months adds a month per installment after the first", () => {
+    const purchaseDate = "2024-01-31";
+    expect(dateWith("purchase-plus-months", { purchaseDate })).toBe("2024-01-31");
+    expect(
+      dateWith("purchase-plus-months", { purchaseDate, installment: { number: 2, total: 3 } })
+    ).toBe("2024-02-29");
+    expect(
+      dateWith("purchase-plus-months", {
+        purchaseDate: "2024-02-29",
+        installment: { number: 13, total: 24 },
+      })
+    ).toBe("2025-02-28");
+  });
+
+  it("spread moves later installments earlier, never past the charge date or out of its month", () => {
+    expect(dateWith("spread", { chargeDate: "2024-01-31" })).toBe("2024-01-31");
+    expect(
+      dateWith("spread", { chargeDate: "2024-01-31", installment: { number: 2, total: 3 } })
+    ).toBe("2024-01-30");
+    expect(
+      dateWith("spread", { chargeDate: "2024-02-29", installment: { number: 3, total: 3 } })
+    ).toBe("2024-02-27");
+    expect(
+      dateWith("spread", { chargeDate: "2024-03-02", installment: { number: 3, total: 12 } })
+    ).toBe("2024-03-02");
+    expect(
+      dateWith("spread", { chargeDate: "2024-03-02", installment: { number: 4, total: 12 } })
+    ).toBe("2024-03-01");
+  });
+
+  it("rejects unknown strategies", () => {
+    expect(() => getInstallmentDateStrategy("monthly")).toThrow(
+      "Invalid installment date strategy: monthly"
+    );
+  });
+});
+
+describe("selectInstallmentDateStrategy", () => {
+  it("prefers the account instance, then the bank, then the default", () => {
+    const options = {
+      installmentDateStrategy: "charge-date",
+      installmentDateStrategies: { Isracard: "spread", "Isracard - Dana": "purchase-plus-months" },
+    };
+    expect(selectInstallmentDateStrategy("Isracard - Dana", options).name).toBe(
+      "purchase-plus-months"
+    );
+    expect(selectInstallmentDateStrategy("Isracard - Avi", options).name).toBe("spread");
+    expect(selectInstallmentDateStrategy("Max", options).name).toBe("charge-date");
+    expect(selectInstallmentDateStrategy("Max", {}).name).toBe("offset");
+  });
+});
@@ -0,0 +1,137 @@
+import type { InstallmentInfo } from "./transformer.js";
+
+export interface InstallmentDateInput {
+  /** Date the bank charged this installment (YYYY-MM-DD) */
+  chargeDate: string;
+  /** Original purchase date (YYYY-MM-DD); the charge date when the bank doesn't report it */
+  purchaseDate: string;
+  installment: InstallmentInfo;
+}
+
+/**
+ * Picks the YNAB date of an installment. Adding a strategy is one entry in
+ * INSTALLMENT_DATE_STRATEGIES.
+ */
+export interface InstallmentDateStrategy {
+  /** Name used in rules.json, memos and audit logs */
+  name: string;
+  description: string;
+  /** YNAB date for the installment (YYYY-MM-DD) */
+  date(input: InstallmentDateInput): string;
+}
+
+export const DEFAULT_INSTALLMENT_DATE_STRATEGY = "offset";
+
+function toUTCDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toDay(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+/**
+ * Subtract 1 month and add 1 day, letting dates past the end of the shorter month roll over
+ * (March 31 -> "February 31" = March 2 -> March 3 in a leap year).
+ */
+export function applyInstallmentOffset(date: string): string {
+  const [year, month, day] = date.split("-");
+  if (!year || !month || !day) {
+    return date;
+  }
+
+  const baseDate = toUTCDate(date);
+  if (isNaN(baseDate.getTime())) {
+    return date;
+  }
+
+  baseDate.setUTCMonth(baseDate.getUTCMonth() - 1);
+  baseDate.setUTCDate(baseDate.getUTCDate() + 1);
+  return toDay(baseDate);
+}
+
+/**
+ * Add months, keeping the day of month but clamping it to the end of shorter months
+ * (January 31 + 1 month = February 29 in a leap year).
+ */
+export function addMonthsClamped(date: string, months: number): string {
+  const base = toUTCDate(date);
+  const monthIndex = base.getUTCMonth() + months;
+  const year = base.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const targetMonth = ((monthIndex % 12) + 12) % 12;
+  const day = Math.min(base.getUTCDate(), daysInMonth(year, targetMonth));
+  return toDay(new Date(Date.UTC(year, targetMonth, day)));
+}
+
+export const INSTALLMENT_DATE_STRATEGIES: InstallmentDateStrategy[] = [
+  {
+    name: "offset",
+    description: "Charge date minus 1 month plus 1 day",
+    date: ({ chargeDate }) => applyInstallmentOffset(chargeDate),
+  },
+  {
+    name: "charge-date",
+    description: "Charge date as is",
+    date: ({ chargeDate }) => chargeDate,
+  },
+  {
+    name: "purchase-plus-months",
+    description: "Purchase date plus one month per installment after the first",
+    date: ({ purchaseDate, installment }) => addMonthsClamped(purchaseDate, installment.number - 1),
+  },
+  {
+    // Installments of different purchases charged on the same day get different dates.
+    // Moving earlier, never later: YNAB rejects future dates, and the charge stays in its month.
+    name: "spread",
+    description:
+      "Charge date moved one day earlier per installment after the first, cycling between the 1st of the charge month and the charge date",
+    date: ({ chargeDate, installment }) => {
+      const date = toUTCDate(chargeDate);
+      const chargeDay = date.getUTCDate();
+      date.setUTCDate(chargeDay - ((installment.number - 1) % chargeDay));
+      return toDay(date);
+    },
+  },
+];
+
+/**
+ * Look up a strategy by name (default offset). Throws on unknown names.
+ */
+export function getInstallmentDateStrategy(
+  name: unknown = DEFAULT_INSTALLMENT_DATE_STRATEGY
+): InstallmentDateStrategy {
+  const strategy = INSTALLMENT_DATE_STRATEGIES.find((s) => s.name === name);
+  if (!strategy) {
+    const names = INSTALLMENT_DATE_STRATEGIES.map((s) => s.name).join(", ");
+    throw new Error(`Invalid installment date strategy: ${String(name)}. Use one of: ${names}`);
+  }
+  return strategy;
+}
+
+/**
+ * Strategy for an account: its entry in installmentDateStrategies (by account instance
+ * name, then bank name), else installmentDateStrategy, else offset.
+ */
+export function selectInstallmentDateStrategy(
+  accountName: string | undefined,
+  options: {
+    installmentDateStrategy?: string;
+    installmentDateStrategies?: Record<string, string>;
+  }
+): InstallmentDateStrategy {
+  const bankName = accountName?.split(" - ")[0];
+  return getInstallmentDateStrategy(
+    (accountName ? options.installmentDateStrategies?.[accountName] : undefined) ??
+      (bankName ? options.installmentDateStrategies?.[bankName] : undefined) ??
+      options.installmentDateStrategy ??
+      DEFAULT_INSTALLMENT_DATE_STRATEGY
+  );
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  projectInstallments,
+  toProjectionRows,
+  formatInstallmentPlans,
+  toInstallmentsCSV,
+} from "./installment-projection.js";
+import type { EnrichedTransaction } from "./transformer.js";
+
+describe("projectInstallments", () => {
+  it("projects the remaining charges from the latest installment seen", () => {
+    const plans = projectInstallments([
+      makeInstallment(1, "2024-02-10"),
+      makeInstallment(3, "2024-04-10"),
+      makeInstallment(2, "2024-03-10"),
+    ]);
+
+    expect(plans).toHaveLength(1);
+    const [plan] = plans;
+    expect(plan).toMatchObject({
+      account: "Max",
+      accountNumber: "1234",
+      payee: "Computer",
+      purchaseDate: "2024-01-31",
+      total: 6,
+      lastNumber: 3,
+      lastChargeDate: "2024-04-10",
+      remainingBalance: -750,
+    });
+    expect(plan.remaining.map((c) => [c.number, c.chargeDate, c.date])).toEqual([
+      [4, "2024-05-10", "2024-04-11"],
+      [5, "2024-06-10", "2024-05-11"],
+      [6, "2024-07-10", "2024-06-11"],
+    ]);
+    expect(plan.remaining[0].projectionId).toMatch(/^ip:[0-9a-f]{16}$/);
+  });
+
+  it("dates projected charges with the account's strategy", () => {
+    const [plan] = projectInstallments([makeInstallment(2, "2024-03-10")], {
+      installmentDateStrategy: "purchase-plus-months",
+    });
+    expect(plan.remaining[0]).toMatchObject({
+      number: 3,
+      chargeDate: "2024-04-10",
+      date: "2024-03-31",
+    });
+    expect(plan.remaining[1]).toMatchObject({ number: 4, date: "2024-04-30" });
+  });
+
+  it("leaves out finished plans and regular purchases", () => {
+    const plans = projectInstallments([
+      makeInstallment(6, "2024-07-10"),
+      { ...makeInstallment(1, "2024-03-10"), description: "Groceries" },
+    ]);
+    expect(plans).toEqual([]);
+  });
+
+  it("keeps separate plans per purchase, account and card", () => {
+    const plans = projectInstallments([
+      makeInstallment(2, "2024-03-10"),
+      { ...makeInstallment(1, "2024-03-10"), date: "2024-02-20T12:00:00.000Z" },
+      { ...makeInstallment(1, "2024-03-10"), accountNumber: "5678" },
+      { ...makeInstallment(2, "2024-03-10"), accountName: "Isracard" },
+    ]);
+    expect(plans.map((p) => [p.account, p.accountNumber, p.purchaseDate, p.lastNumber])).toEqual([
+      ["Isracard", "1234", "2024-01-31", 2],
+      ["Max", "1234", "2024-01-31", 2],
+      ["Max", "1234", "2024-02-20", 1],
+      ["Max", "5678", "2024-01-31", 1],
+    ]);
+  });
+});
+
+describe("toProjectionRows", () => {
+  it("writes one row per remaining charge with the projection ID", () => {
+    const rows = toProjectionRows(projectInstallments([makeInstallment(5, "2024-06-10")]));
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      payee: "Computer",
+      outflow: "250.00",
+      inflow: "",
+      account: "Max",
+    });
+    expect(rows[0].memo).toBe(`Installment 6/6 (projected) · ${rows[0].importId}`);
+  });
+});
+
+describe("formatInstallmentPlans", () => {
+  it("lists plans with the remaining balance per card", () => {
+    const report = formatInstallmentPlans(
+      projectInstallments([
+        makeInstallment(3, "2024-04-10"),
+        { ...makeInstallment(1, "2024-04-10"), accountNumber: "5678" },
+      ])
+    );
+    expect(report).toContain(
+      "Max · 1234\n  2024-01-31  Computer  3/6 paid, 3 left at ₪250.00 (next 2024-05-10): ₪750.00\n  Remaining: ₪750.00"
+    );
+    expect(report).toContain("Max · 5678\n");
+    expect(report).toContain("  Remaining: ₪1,250.00");
+    expect(report).toContain("Total remaining: ₪2,000.00 in 2 plan(s)");
+  });
+
+  it("says when there are no open plans", () => {
+    expect(formatInstallmentPlans([])).toBe("No open installment plans.");
+  });
+});
+
+describe("toInstallmentsCSV", () => {
+  it("writes the projection as CSV with an Account column", () => {
+    const csv = toInstallmentsCSV(projectInstallments([makeInstallment(5, "2024-06-10")]));
+    const lines = csv.split("\n");
+    expect(lines[0]).toBe("Date,Payee,Memo,Outflow,Inflow,Account");
+    expect(lines[1]).toMatch(
+      /^2024-06-11,Computer,Installment 6\/6 \(projected\) · ip:[0-9a-f]+,250\.00,,Max$/
+    );
+  });
+});
+
+function makeInstallment(number: number, chargeDate: string): EnrichedTransaction {
+  return {
+    date: "2024-01-31T12:00:00.000Z",
+    processedDate: `${chargeDate}T12:00:00.000Z`,
+    originalAmount: -1500,
+    originalCurrency: "ILS",
+    chargedAmount: -250,
+    description: `Computer תשלום ${number} מ-6`,
+    status: "completed" as EnrichedTransaction["status"],
+    type: "installments" as EnrichedTransaction["type"],
+    accountName: "Max",
+    accountNumber: "1234",
+  };
+}
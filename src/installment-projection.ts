@@ -0,0 +1,231 @@
+import { createHash } from "node:crypto";
+import {
+  transformTransaction,
+  resolveInstallments,
+  stripInstallmentText,
+  parseDate,
+  formatDate,
+  type EnrichedTransaction,
+  type TransformOptions,
+  type YnabRow,
+} from "./transformer.js";
+import { addMonthsClamped, selectInstallmentDateStrategy } from "./installment-dates.js";
+import { toCSV, type ToCSVOptions } from "./csv-writer.js";
+
+/**
+ * One future charge of an installment plan
+ */
+export interface ProjectedCharge {
+  /** Stable ID of the projected charge, also written to its memo */
+  projectionId: string;
+  account: string;
+  accountNumber: string;
+  payee: string;
+  number: number;
+  total: number;
+  /** Expected charge date (YYYY-MM-DD): the latest charge plus one month per installment */
+  chargeDate: string;
+  /** YNAB date, from the account's installment date strategy */
+  date: string;
+  /** Signed amount, the same as the latest installment (negative = outflow) */
+  amount: number;
+  category?: string;
+  categoryId?: string;
+}
+
+/**
+ * A purchase paid in installments, with the charges still to come
+ */
+export interface InstallmentPlan {
+  /** Account instance (login) the card was scraped with */
+  account: string;
+  /** Card the installments are charged to; one login can have several */
+  accountNumber: string;
+  /** Payee after payee rules, without the installment notation */
+  payee: string;
+  purchaseDate: string;
+  total: number;
+  /** Number of the latest installment seen */
+  lastNumber: number;
+  lastChargeDate: string;
+  /** Signed amount of the latest installment */
+  installmentAmount: number;
+  remaining: ProjectedCharge[];
+  /** Signed sum of the remaining charges */
+  remainingBalance: number;
+}
+
+function toDay(value: string | undefined): string | null {
+  const parsed = value ? parseDate(value) : null;
+  return parsed ? formatDate(parsed) : null;
+}
+
+/** Installments of one purchase share this key */
+function planKey(plan: InstallmentPlan): string {
+  return [plan.account, plan.accountNumber, plan.payee, plan.purchaseDate, plan.total].join("|");
+}
+
+function buildProjectionId(plan: InstallmentPlan, number: number): string {
+  const key = `${planKey(plan)}|${number}`;
+  return `ip:${createHash("sha256").update(key).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * Find open installment plans and project their remaining charges.
+ *
+ * Installments of one purchase share the account, card, payee, purchase date and installment
+ * count; the latest installment seen is projected forward one month per remaining charge.
+ * Plans whose last installment was already charged are left out.
+ */
+export function projectInstallments(
+  transactions: EnrichedTransaction[],
+  options: TransformOptions = {}
+): InstallmentPlan[] {
+  const latest = new Map<string, InstallmentPlan & { category?: string; categoryId?: string }>();
+
+  for (const txn of transactions) {
+    const installment = resolveInstallments(txn);
+    const row = installment ? transformTransaction(txn, options) : null;
+    const chargeDate = toDay(txn.processedDate || txn.date);
+    if (!installment || !row || !chargeDate) continue;
+
+    const plan = {
+      account: txn.accountName ?? "unknown",
+      accountNumber: txn.accountNumber ?? "",
+      payee: stripInstallmentText(row.payee),
+      purchaseDate: toDay(txn.date) ?? chargeDate,
+      total: installment.total,
+      lastNumber: installment.number,
+      lastChargeDate: chargeDate,
+      installmentAmount: txn.chargedAmount,
+      remaining: [],
+      remainingBalance: 0,
+      category: row.category,
+      categoryId: row.categoryId,
+    };
+    const key = planKey(plan);
+    const seen = latest.get(key);
+    if (!seen || plan.lastNumber > seen.lastNumber) {
+      latest.set(key, plan);
+    }
+  }
+
+  const plans: InstallmentPlan[] = [];
+  for (const { category, categoryId, ...plan } of latest.values()) {
+    if (plan.lastNumber >= plan.total) continue;
+
+    const strategy = selectInstallmentDateStrategy(plan.account, options);
+    for (let number = plan.lastNumber + 1; number <= plan.total; number++) {
+      const chargeDate = addMonthsClamped(plan.lastChargeDate, number - plan.lastNumber);
+      plan.remaining.push({
+        projectionId: buildProjectionId(plan, number),
+        account: plan.account,
+        accountNumber: plan.accountNumber,
+        payee: plan.payee,
+        number,
+        total: plan.total,
+        chargeDate,
+        date: strategy.date({
+          chargeDate,
+          purchaseDate: plan.purchaseDate,
+          installment: { number, total: plan.total },
+        }),
+        amount: plan.installmentAmount,
+        category,
+        categoryId,
+      });
+    }
+    plan.remainingBalance = Math.round(plan.installmentAmount * plan.remaining.length * 100) / 100;
+    plans.push(plan);
+  }
+
+  return plans.sort(
+    (a, b) =>
+      a.account.localeCompare(b.account) ||
+      a.accountNumber.localeCompare(b.accountNumber) ||
+      a.remaining[0].chargeDate.localeCompare(b.remaining[0].chargeDate)
+  );
+}
+
+/**
+ * Memo of a projected charge. The projection ID lets re-runs recognize charges
+ * already created as YNAB scheduled transactions.
+ */
+function projectedMemo(charge: ProjectedCharge): string {
+  return `Installment ${charge.number}/${charge.total} (projected) · ${charge.projectionId}`;
+}
+
+/**
+ * Rows for the remaining charges, soonest first. importId is the projection ID.
+ */
+export function toProjectionRows(plans: InstallmentPlan[]): YnabRow[] {
+  const rows = plans.flatMap((plan) =>
+    plan.remaining.map((charge) => ({
+      date: charge.date,
+      payee: charge.payee,
+      memo: projectedMemo(charge),
+      outflow: charge.amount < 0 ? Math.abs(charge.amount).toFixed(2) : "",
+      inflow: charge.amount > 0 ? charge.amount.toFixed(2) : "",
+      importId: charge.projectionId,
+      category: charge.category,
+      categoryId: charge.categoryId,
+      account: charge.account,
+    }))
+  );
+  return rows.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function formatCurrency(amount: number): string {
+  return `₪${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/** "Max · 1234", or just the account when the card number is unknown */
+function cardLabel(plan: InstallmentPlan): string {
+  return plan.accountNumber ? `${plan.account} · ${plan.accountNumber}` : plan.account;
+}
+
+/**
+ * Open plans and the remaining balance per card, for the terminal
+ */
+export function formatInstallmentPlans(plans: InstallmentPlan[]): string {
+  if (plans.length === 0) {
+    return "No open installment plans.";
+  }
+
+  const lines: string[] = [];
+  let total = 0;
+  const cards = Array.from(new Set(plans.map(cardLabel)));
+
+  for (const card of cards) {
+    const cardPlans = plans.filter((plan) => cardLabel(plan) === card);
+    const balance = cardPlans.reduce((sum, plan) => sum + Math.abs(plan.remainingBalance), 0);
+    total += balance;
+
+    lines.push(card);
+    for (const plan of cardPlans) {
+      const each = formatCurrency(Math.abs(plan.installmentAmount));
+      const next = plan.remaining[0].chargeDate;
+      lines.push(
+        `  ${plan.purchaseDate}  ${plan.payee}  ${plan.lastNumber}/${plan.total} paid, ` +
+          `${plan.remaining.length} left at ${each} (next ${next}): ${formatCurrency(Math.abs(plan.remainingBalance))}`
+      );
+    }
+    lines.push(`  Remaining: ${formatCurrency(balance)}`);
+    lines.push("");
+  }
+
+  lines.push(`Total remaining: ${formatCurrency(total)} in ${plans.length} plan(s)`);
+  return lines.join("\n");
+}
+
+/**
+ * The remaining charges as a CSV report, with an Account column. This is a report of
+ * expected charges, not an import file, so it is kept out of the export formats.
+ */
+export function toInstallmentsCSV(plans: InstallmentPlan[], csvOptions: ToCSVOptions = {}): string {
+  const extraColumns = csvOptions.extraColumns ?? [];
+  return toCSV(toProjectionRows(plans), {
+    ...csvOptions,
+    extraColumns: extraColumns.includes("Account") ? extraColumns : [...extraColumns, "Account"],
+  });
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import {
+  toTransactionRecords,
+  toTransactionsJSON,
+  toTransactionsNDJSON,
+  TRANSACTIONS_SCHEMA_VERSION,
+} from "./json-writer.js";
+import type { EnrichedTransaction } from "./transformer.js";
+
+const schema = JSON.parse(
+  readFileSync(new URL("../schema/transactions.v1.schema.json", import.meta.url), "utf-8")
+);
+
+describe("toTransactionRecords", () => {
+  it("combines the raw transaction with the derived row fields", () => {
+    const txn = makeTxn({
+      description: "תשלום 2 מ-6",
+      date: "2024-01-10T12:00:00.000Z",
+      processedDate: "2024-03-10T12:00:00.000Z",
+      chargedAmount: -250,
+      originalAmount: -1500,
+      accountName: "Max",
+      accountNumber: "1234",
+    });
+
+    const [record] = toTransactionRecords([txn], {
+      categoryRules: [
+        {
+          category: "Electronics",
+          categoryId: "cat-1",
+          payee: { match: "contains", pattern: "תשלום" },
+        },
+      ],
+    });
+
+    expect(record).toMatchObject({
+      fingerprint: expect.stringMatching(/^ib:[0-9a-f]{32}$/),
+      account: "Max",
+      accountNumber: "1234",
+      transactionDate: "2024-01-10",
+      chargeDate: "2024-03-10",
+      payee: "תשלום 2 מ-6",
+      amount: -250,
+      currency: "ILS",
+      originalAmount: -1500,
+      installment: { number: 2, total: 6 },
+      category: "Electronics",
+      categoryId: "cat-1",
+      status: "completed",
+      raw: txn,
+    });
+    expect(record.date).not.toBe("2024-01-10");
+    expect(JSON.parse(record.memo).installment).toBe("2/6");
+  });
+
+  it("skips transactions the CSV skips and sorts newest first", () => {
+    const records = toTransactionRecords([
+      makeTxn({ description: "Old", chargedAmount: -1, date: "2024-03-01T12:00:00.000Z" }),
+      makeTxn({
+        description: "Pending",
+        chargedAmount: -1,
+        status: "pending" as EnrichedTransaction["status"],
+      }),
+      makeTxn({ description: "New", chargedAmount: -1, date: "2024-03-20T12:00:00.000Z" }),
+    ]);
+
+    expect(records.map((r) => r.description)).toEqual(["New", "Old"]);
+  });
+
+  it("writes every field the schema requires, and only those", () => {
+    const [record] = toTransactionRecords([makeTxn({ chargedAmount: -10 })]);
+    expect(Object.keys(record).sort()).toEqual([...schema.$defs.transaction.required].sort());
+  });
+
+  it("writes null for an original amount and currency the bank doesn't report", () => {
+    const txn = makeTxn({ chargedAmount: -10 });
+    delete (txn as Partial<EnrichedTransaction>).originalAmount;
+    delete (txn as Partial<EnrichedTransaction>).originalCurrency;
+
+    const [line] = toTransactionsNDJSON([txn]).trimEnd().split("\n");
+    expect(Object.keys(JSON.parse(line)).sort()).toEqual(
+      [...schema.$defs.transaction.required].sort()
+    );
+    expect(JSON.parse(line)).toMatchObject({ originalAmount: null, originalCurrency: null });
+  });
+});
+
+describe("toTransactionsJSON", () => {
+  it("references the versioned schema", () => {
+    const document = JSON.parse(toTransactionsJSON([makeTxn({ chargedAmount: -10 })]));
+
+    expect(document.$schema).toBe(schema.$id);
+    expect(document.schemaVersion).toBe(TRANSACTIONS_SCHEMA_VERSION);
+    expect(schema.properties.schemaVersion.const).toBe(TRANSACTIONS_SCHEMA_VERSION);
+    expect(document.transactions).toHaveLength(1);
+  });
+});
+
+describe("toTransactionsNDJSON", () => {
+  it("writes one record per line", () => {
+    const ndjson = toTransactionsNDJSON([
+      makeTxn({ identifier: 1, chargedAmount: -10 }),
+      makeTxn({ identifier: 2, chargedAmount: 20 }),
+    ]);
+
+    const lines = ndjson.trimEnd().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(lines.map((line) => JSON.parse(line).amount).sort()).toEqual([-10, 20]);
+  });
+
+  it("writes nothing for no transactions", () => {
+    expect(toTransactionsNDJSON([])).toBe("");
+  });
+});
+
+function makeTxn(overrides: Partial<EnrichedTransaction>): EnrichedTransaction {
+  return {
+    date: "2024-03-15T12:00:00.000Z",
+    processedDate: "2024-03-15T12:00:00.000Z",
+    originalAmount: overrides.chargedAmount ?? 0,
+    originalCurrency: "ILS",
+    chargedAmount: 0,
+    description: "Test Transaction",
+    status: "completed" as EnrichedTransaction["status"],
+    type: "normal" as EnrichedTransaction["type"],
+    ...overrides,
+  };
+}
@@ -0,0 +1,151 @@
+import {
+  transformTransaction,
+  resolveInstallments,
+  parseDate,
+  formatDate,
+  type EnrichedTransaction,
+  type InstallmentInfo,
+  type TransformOptions,
+} from "./transformer.js";
+import type { Exporter, ExportContext } from "./exporters.js";
+
+/** Bump together with schema/transactions.v<N>.schema.json on breaking changes */
+export const TRANSACTIONS_SCHEMA_VERSION = 1;
+export const TRANSACTIONS_SCHEMA_ID = `transactions.v${TRANSACTIONS_SCHEMA_VERSION}.schema.json`;
+
+/**
+ * One exported transaction: the derived YNAB fields plus the raw scraped transaction.
+ * Documented in schema/transactions.v1.schema.json.
+ */
+export interface TransactionRecord {
+  /** Stable transaction fingerprint (the YNAB import ID) */
+  fingerprint: string;
+  account: string | null;
+  accountNumber: string | null;
+  /** Date the row is booked on in YNAB (YYYY-MM-DD; installments use the adjusted charge date) */
+  date: string;
+  /** Purchase date (YYYY-MM-DD) */
+  transactionDate: string | null;
+  /** Date the bank charged or processed the transaction (YYYY-MM-DD) */
+  chargeDate: string | null;
+  /** Payee after payee rules */
+  payee: string;
+  /** Description as scraped */
+  description: string;
+  /** Charged amount, negative for outflows */
+  amount: number;
+  currency: string;
+  /** null when the bank doesn't report it */
+  originalAmount: number | null;
+  originalCurrency: string | null;
+  installment: InstallmentInfo | null;
+  /** Category assigned by category rules */
+  category: string | null;
+  categoryId: string | null;
+  status: string;
+  type: string;
+  /** The memo written to the YNAB CSV */
+  memo: string;
+  raw: EnrichedTransaction;
+}
+
+export interface TransactionsDocument {
+  $schema: string;
+  schemaVersion: number;
+  transactions: TransactionRecord[];
+}
+
+function toDay(value: string | undefined): string | null {
+  const parsed = value ? parseDate(value) : null;
+  return parsed ? formatDate(parsed) : null;
+}
+
+/**
+ * Build one record per exportable transaction, newest first (the order of the CSV rows).
+ * Transactions the CSV skips (pending, zero amount) are skipped here too.
+ */
+export function toTransactionRecords(
+  transactions: EnrichedTransaction[],
+  options: TransformOptions = {}
+): TransactionRecord[] {
+  const records: TransactionRecord[] = [];
+
+  for (const txn of transactions) {
+    const row = transformTransaction(txn, options);
+    if (!row) continue;
+
+    records.push({
+      fingerprint: row.importId ?? "",
+      account: txn.accountName ?? null,
+      accountNumber: txn.accountNumber ?? null,
+      date: row.date,
+      transactionDate: toDay(txn.date),
+      chargeDate: toDay(txn.processedDate),
+      payee: row.payee,
+      description: txn.description,
+      amount: txn.chargedAmount,
+      currency: txn.chargedCurrency || "ILS",
+      originalAmount: txn.originalAmount ?? null,
+      originalCurrency: txn.originalCurrency ?? null,
+      installment: resolveInstallments(txn),
+      category: row.category ?? null,
+      categoryId: row.categoryId ?? null,
+      status: txn.status,
+      type: txn.type,
+      memo: row.memo,
+      raw: txn,
+    });
+  }
+
+  return records.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Convert transactions to a JSON document with a schema reference and version
+ */
+export function toTransactionsJSON(
+  transactions: EnrichedTransaction[],
+  options: TransformOptions = {}
+): string {
+  const document: TransactionsDocument = {
+    $schema: TRANSACTIONS_SCHEMA_ID,
+    schemaVersion: TRANSACTIONS_SCHEMA_VERSION,
+    transactions: toTransactionRecords(transactions, options),
+  };
+  return JSON.stringify(document, null, 2) + "\n";
+}
+
+/**
+ * Convert transactions to NDJSON: one TransactionRecord per line
+ */
+export function toTransactionsNDJSON(
+  transactions: EnrichedTransaction[],
+  options: TransformOptions = {}
+): string {
+  return toTransactionRecords(transactions, options)
+    .map((record) => JSON.stringify(record) + "\n")
+    .join("");
+}
+
+function transactionsExporter(
+  name: string,
+  label: string,
+  write: (transactions: EnrichedTransaction[], options: TransformOptions) => string
+): Exporter {
+  return {
+    name,
+    label,
+    extension: name,
+    filePrefix: "enriched",
+    needsTransactions: true,
+    export: (_rows, context: ExportContext) => {
+      if (!context.transactions) {
+        throw new Error(`The ${name} format needs the scraped transactions`);
+      }
+      return write(context.transactions, context.rules);
+    },
+  };
+}
+
+export const jsonExporter = transactionsExporter("json", "JSON", toTransactionsJSON);
+export const ndjsonExporter = transactionsExporter("ndjson", "NDJSON", toTransactionsNDJSON);
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { toLedger, toBeancount } from "./ledger-writer.js";
+import { resolveAccountInstances } from "./banks.js";
+import type { EnrichedTransaction } from "./transformer.js";
+import type { CategoryRule } from "./rules.js";
+
+const categoryRules: CategoryRule[] = [
+  { category: "Groceries", payee: { match: "exact", pattern: "Supermarket" } },
+  {
+    category: "Income:Salary",
+    direction: "inflow",
+    description: { match: "contains", pattern: "Salary" },
+  },
+];
+
+describe("toLedger", () => {
+  it("posts against the bank account and the category counter-account", () => {
+    const journal = toLedger(
+      [
+        makeTxn({ description: "Supermarket", chargedAmount: -150, accountName: "Max" }),
+        makeTxn({
+          description: "Salary March",
+          chargedAmount: 5000,
+          accountName: "Leumi",
+          date: "2024-03-01T12:00:00.000Z",
+        }),
+      ],
+      { categoryRules }
+    );
+
+    const [salary, groceries] = journal.trim().split("\n\n");
+    expect(salary).toMatch(/^2024-03-01 \* Salary March\n/);
+    expect(salary).toMatch(/ {4}Income:Salary +-5000\.00 ILS\n/);
+    expect(salary).toMatch(/ {4}Assets:Bank:Leumi +5000\.00 ILS$/);
+    expect(groceries).toMatch(/ {4}Expenses:Groceries +150\.00 ILS\n/);
+    expect(groceries).toMatch(/ {4}Liabilities:CreditCard:Max +-150\.00 ILS$/);
+  });
+
+  it("falls back to Expenses:Uncategorized", () => {
+    const journal = toLedger([
+      makeTxn({ description: "Unknown shop", chargedAmount: -20, accountName: "Max" }),
+    ]);
+    expect(journal).toMatch(/ {4}Expenses:Uncategorized +20\.00 ILS/);
+  });
+
+  it("prices foreign-currency charges at the charged total", () => {
+    const journal = toLedger([
+      makeTxn({
+        description: "AMAZON.COM",
+        chargedAmount: -97.4,
+        originalAmount: -25.99,
+        originalCurrency: "USD",
+        accountName: "Max",
+      }),
+    ]);
+
+    expect(journal).toMatch(/ {4}Expenses:Uncategorized +25\.99 USD @@ 97\.40 ILS\n/);
+    expect(journal).not.toContain("originalAmount");
+  });
+
+  it("writes memo fields and the import ID as metadata", () => {
+    const journal = toLedger([
+      makeTxn({
+        description: "תשלום 2 מ-6",
+        chargedAmount: -250,
+        originalAmount: -1500,
+        accountName: "Max",
+        accountNumber: "1234",
+        processedDate: "2024-04-10T12:00:00.000Z",
+      }),
+    ]);
+
+    expect(journal).toMatch(/ {4}; importId: ib:[0-9a-f]{32}\n/);
+    expect(journal).toContain("    ; chargeDate: 2024-04-10\n");
+    expect(journal).toContain("    ; installment: 2/6\n");
+    expect(journal).toContain("    ; source: Max - 1234\n");
+  });
+
+  it("maps accounts by instance name before bank name", () => {
+    const instances = resolveAccountInstances("Isracard:Dana");
+    const txns = [
+      makeTxn({ description: "A", chargedAmount: -1, accountName: "Isracard" }),
+      makeTxn({ description: "B", chargedAmount: -2, accountName: "Isracard - Dana" }),
+      makeTxn({ description: "C", chargedAmount: -3, accountName: "Max" }),
+    ];
+
+    const journal = toLedger(txns, {
+      instances,
+      ledgerAccounts: { Isracard: "Liabilities:Isracard", "Isracard - Dana": "Liabilities:Dana" },
+    });
+    expect(journal).toMatch(/ {4}Liabilities:Isracard +-1\.00 ILS/);
+    expect(journal).toMatch(/ {4}Liabilities:Dana +-2\.00 ILS/);
+    expect(journal).toMatch(/ {4}Liabilities:CreditCard:Max +-3\.00 ILS/);
+
+    expect(toLedger([txns[1]], { instances })).toMatch(
+      / {4}Liabilities:CreditCard:Isracard:Dana +-2\.00 ILS/
+    );
+  });
+
+  it("skips pending and zero-amount transactions", () => {
+    const journal = toLedger([
+      makeTxn({
+        description: "Pending",
+        chargedAmount: -10,
+        status: "pending" as EnrichedTransaction["status"],
+      }),
+      makeTxn({ description: "Zero", chargedAmount: 0 }),
+    ]);
+    expect(journal.trim()).toBe("");
+  });
+});
+
+describe("toBeancount", () => {
+  it("opens every account and quotes payees and metadata", () => {
+    const journal = toBeancount(
+      [
+        makeTxn({
+          description: 'Store "A"',
+          chargedAmount: -10,
+          accountName: "Visa Cal",
+          date: "2024-03-02T12:00:00.000Z",
+        }),
+        makeTxn({ description: "Supermarket", chargedAmount: -5, accountName: "Visa Cal" }),
+      ],
+      { categoryRules }
+    );
+
+    expect(journal).toContain('option "operating_currency" "ILS"');
+    expect(journal).toContain("2024-03-02 open Liabilities:CreditCard:VisaCal\n");
+    expect(journal).toContain("2024-03-02 open Expenses:Uncategorized\n");
+    expect(journal).toContain("2024-03-15 open Expenses:Groceries");
+    expect(journal).toContain('2024-03-02 * "Store \\"A\\"" ""\n');
+    expect(journal).toMatch(/ {2}importId: "ib:[0-9a-f]{32}"\n/);
+    expect(journal).toContain('  source: "Visa Cal"\n');
+  });
+});
+
+function makeTxn(overrides: Partial<EnrichedTransaction>): EnrichedTransaction {
+  return {
+    date: "2024-03-15T12:00:00.000Z",
+    processedDate: "2024-03-15T12:00:00.000Z",
+    originalAmount: overrides.chargedAmount ?? 0,
+    originalCurrency: "ILS",
+    chargedAmount: 0,
+    description: "Test Transaction",
+    status: "completed" as EnrichedTransaction["status"],
+    type: "normal" as EnrichedTransaction["type"],
+    ...overrides,
+  };
+}
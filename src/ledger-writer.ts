@@ -0,0 +1,270 @@
+import { resolveAccountInstances, type AccountInstance } from "./banks.js";
+import {
+  transformTransaction,
+  buildMemoFields,
+  resolveInstallments,
+  type EnrichedTransaction,
+  type TransformOptions,
+} from "./transformer.js";
+import type { Exporter, ExportContext } from "./exporters.js";
+
+export interface JournalOptions extends TransformOptions {
+  /** Journal account by account instance or bank name; instance names win */
+  ledgerAccounts?: Record<string, string>;
+  /** Maps instance names to their banks (default: the default instance of every bank) */
+  instances?: AccountInstance[];
+}
+
+export const UNCATEGORIZED_ACCOUNT = "Expenses:Uncategorized";
+const HOME_CURRENCY = "ILS";
+const ROOT_ACCOUNTS = ["Assets", "Liabilities", "Equity", "Income", "Expenses"];
+
+/** Currency symbols some scrapers report instead of ISO codes */
+const CURRENCY_ALIASES: Record<string, string> = {
+  "₪": "ILS",
+  NIS: "ILS",
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+};
+
+/** Memo fields written as metadata, in order. Amounts are already in the postings. */
+const METADATA_FIELDS = [
+  "transactionDate",
+  "chargeDate",
+  "installment",
+  "source",
+  "type",
+  "category",
+  "bankMemo",
+  "originalPayee",
+];
+
+interface JournalEntry {
+  date: string;
+  payee: string;
+  account: string;
+  counterAccount: string;
+  /** Charged amount in ILS, signed from the scraped account's side (negative = outflow) */
+  amount: number;
+  /** Original amount and currency of foreign-currency charges */
+  foreign?: { amount: number; currency: string };
+  metadata: Array<[key: string, value: string]>;
+}
+
+function normalizeCurrency(currency: string | undefined): string {
+  const trimmed = (currency ?? "").trim();
+  return CURRENCY_ALIASES[trimmed] ?? (trimmed.toUpperCase() || HOME_CURRENCY);
+}
+
+/**
+ * Make one account name component valid for both ledger and beancount
+ * ("visa cal" -> "VisaCal")
+ */
+function accountComponent(name: string): string {
+  const cleaned = name
+    .split(/\s+/)
+    .map((word) => word.replace(/[^\p{L}\p{N}-]/gu, ""))
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  return cleaned || "Unknown";
+}
+
+function accountPath(...parts: string[]): string {
+  return parts.map(accountComponent).join(":");
+}
+
+/**
+ * Journal account for a scraped account: the configured mapping, else
+ * Liabilities:CreditCard:<Bank> for cards and Assets:Bank:<Bank> for banks.
+ * Named instances ("Isracard - Dana") get a sub-account (Liabilities:CreditCard:Isracard:Dana).
+ */
+function resolveSourceAccount(
+  accountName: string,
+  options: JournalOptions,
+  instances: AccountInstance[]
+): string {
+  const instance = instances.find((i) => i.name === accountName);
+  const mapped =
+    options.ledgerAccounts?.[accountName] ??
+    (instance ? options.ledgerAccounts?.[instance.bank.name] : undefined);
+  if (mapped) {
+    return mapped;
+  }
+
+  const names = accountName.split(" - ");
+  return instance?.bank.kind === "card"
+    ? accountPath("Liabilities", "CreditCard", ...names)
+    : accountPath("Assets", "Bank", ...names);
+}
+
+/**
+ * Counter-account from the rule-assigned category: used as is when it is already an
+ * account path ("Expenses:Food"), else under Expenses (outflows) or Income (inflows).
+ */
+function resolveCounterAccount(category: string | undefined, amount: number): string {
+  if (!category) {
+    return UNCATEGORIZED_ACCOUNT;
+  }
+  const parts = category.split(":").map((part) => part.trim());
+  if (parts.length > 1 && ROOT_ACCOUNTS.includes(parts[0])) {
+    return accountPath(...parts);
+  }
+  return accountPath(amount < 0 ? "Expenses" : "Income", ...parts);
+}
+
+function buildEntries(
+  transactions: EnrichedTransaction[],
+  options: JournalOptions
+): JournalEntry[] {
+  const instances = options.instances ?? resolveAccountInstances();
+  const entries: JournalEntry[] = [];
+
+  for (const txn of transactions) {
+    const row = transformTransaction(txn, options);
+    if (!row) continue;
+
+    const amount = txn.chargedAmount;
+    const installments = resolveInstallments(txn);
+    const memo: Record<string, unknown> = buildMemoFields(txn, installments);
+    const metadata: Array<[string, string]> = [];
+    if (row.importId) {
+      metadata.push(["importId", row.importId]);
+    }
+    for (const field of METADATA_FIELDS) {
+      if (memo[field] !== undefined && memo[field] !== "") {
+        metadata.push([field === "category" ? "bankCategory" : field, String(memo[field])]);
+      }
+    }
+
+    const currency = normalizeCurrency(txn.originalCurrency);
+    const foreign =
+      currency !== HOME_CURRENCY && txn.originalAmount
+        ? { amount: Math.sign(amount) * Math.abs(txn.originalAmount), currency }
+        : undefined;
+
+    entries.push({
+      date: row.date,
+      payee: row.payee,
+      account: resolveSourceAccount(txn.accountName ?? "unknown", options, instances),
+      counterAccount: resolveCounterAccount(row.category, amount),
+      amount,
+      foreign,
+      metadata,
+    });
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return `${amount.toFixed(2)} ${currency}`;
+}
+
+/**
+ * The counter posting's amount: the foreign amount at the charged total, or ILS
+ */
+function counterAmount(entry: JournalEntry): string {
+  if (entry.foreign) {
+    const total = formatAmount(Math.abs(entry.amount), HOME_CURRENCY);
+    return `${formatAmount(-entry.foreign.amount, entry.foreign.currency)} @@ ${total}`;
+  }
+  return formatAmount(-entry.amount, HOME_CURRENCY);
+}
+
+function posting(account: string, amount: string): string {
+  return `    ${account.padEnd(40)}  ${amount}`;
+}
+
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+/**
+ * Convert transactions to a ledger journal (also read by hledger).
+ * Memo fields become `; key: value` metadata.
+ */
+export function toLedger(
+  transactions: EnrichedTransaction[],
+  options: JournalOptions = {}
+): string {
+  return buildEntries(transactions, options)
+    .map((entry) =>
+      [
+        `${entry.date} * ${singleLine(entry.payee)}`,
+        ...entry.metadata.map(([key, value]) => `    ; ${key}: ${singleLine(value)}`),
+        posting(entry.counterAccount, counterAmount(entry)),
+        posting(entry.account, formatAmount(entry.amount, HOME_CURRENCY)),
+      ].join("\n")
+    )
+    .join("\n\n")
+    .concat("\n");
+}
+
+function beancountString(value: string): string {
+  return `"${singleLine(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Convert transactions to a beancount file, with an open directive for every account
+ * used (dated at its first transaction). Memo fields become transaction metadata.
+ */
+export function toBeancount(
+  transactions: EnrichedTransaction[],
+  options: JournalOptions = {}
+): string {
+  const entries = buildEntries(transactions, options);
+
+  const opened = new Map<string, string>();
+  for (const entry of entries) {
+    for (const account of [entry.account, entry.counterAccount]) {
+      if (!opened.has(account)) {
+        opened.set(account, entry.date);
+      }
+    }
+  }
+
+  const header = [
+    `option "operating_currency" "${HOME_CURRENCY}"`,
+    "",
+    ...Array.from(opened, ([account, date]) => `${date} open ${account}`),
+  ];
+
+  const body = entries.map((entry) =>
+    [
+      `${entry.date} * ${beancountString(entry.payee)} ""`,
+      ...entry.metadata.map(([key, value]) => `  ${key}: ${beancountString(value)}`),
+      posting(entry.counterAccount, counterAmount(entry)),
+      posting(entry.account, formatAmount(entry.amount, HOME_CURRENCY)),
+    ].join("\n")
+  );
+
+  return [header.join("\n"), ...body].join("\n\n") + "\n";
+}
+
+/**
+ * Journals post from the scraped transactions, which carry more than the rows
+ */
+function journalExporter(
+  name: string,
+  label: string,
+  write: (transactions: EnrichedTransaction[], options: JournalOptions) => string
+): Exporter {
+  return {
+    name,
+    label,
+    extension: name,
+    filePrefix: "journal",
+    needsTransactions: true,
+    export: (_rows, context: ExportContext) => {
+      if (!context.transactions) {
+        throw new Error(`The ${name} format needs the scraped transactions`);
+      }
+      return write(context.transactions, { ...context.rules, instances: context.instances });
+    },
+  };
+}
+
+export const ledgerExporter = journalExporter("ledger", "ledger / hledger", toLedger);
+export const beancountExporter = journalExporter("beancount", "beancount", toBeancount);
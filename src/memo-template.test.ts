@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  fitMemo,
+  formatMemo,
+  renderMemoTemplate,
+  selectMemoTemplate,
+  validateMemoTemplate,
+  MEMO_MAX_LENGTH,
+} from "./memo-template.js";
+
+describe("renderMemoTemplate", () => {
+  const fields = {
+    installment: "2/6",
+    originalAmount: -25.99,
+    originalCurrency: "USD",
+    source: "Max - 1234",
+  };
+
+  it("fills placeholders", () => {
+    expect(
+      renderMemoTemplate("{installment} {originalCurrency}{originalAmount} · {source}", fields)
+    ).toBe("2/6 USD25.99 · Max - 1234");
+  });
+
+  it("drops empty fields with the separator before them", () => {
+    const template = "{installment} · {originalCurrency}{originalAmount} · {source}";
+    expect(renderMemoTemplate(template, { source: "Max" })).toBe("Max");
+    expect(renderMemoTemplate(template, { installment: "1/3", source: "Max" })).toBe("1/3 · Max");
+    expect(renderMemoTemplate("Charged {chargeDate}", {})).toBe("");
+  });
+});
+
+describe("formatMemo", () => {
+  const fields = {
+    chargeDate: "2024-03-15",
+    installment: "2/6",
+    source: "Max",
+    bankMemo: "x".repeat(250),
+  };
+
+  it("keeps JSON as the default preset", () => {
+    expect(JSON.parse(formatMemo({ chargeDate: "2024-03-15" }))).toEqual({
+      chargeDate: "2024-03-15",
+    });
+    expect(formatMemo({})).toBe("");
+  });
+
+  it("drops the least important fields to fit the limit", () => {
+    const memo = formatMemo(fields);
+    expect(memo.length).toBeLessThanOrEqual(MEMO_MAX_LENGTH);
+    expect(JSON.parse(memo)).toEqual({
+      chargeDate: "2024-03-15",
+      installment: "2/6",
+      source: "Max",
+    });
+
+    expect(formatMemo(fields, "{installment} · {bankMemo} · {source}")).toBe("2/6 · Max");
+  });
+
+  it("drops the original currency with the original amount", () => {
+    const memo = formatMemo(
+      { installment: "2/6", originalAmount: 99.5, originalCurrency: "EUR", source: "Max" },
+      "compact",
+      12
+    );
+    expect(memo).toBe("2/6 EUR99.50");
+    expect(
+      formatMemo(
+        { installment: "2/6", originalAmount: 99.5, originalCurrency: "EUR" },
+        "compact",
+        8
+      )
+    ).toBe("2/6");
+  });
+});
+
+describe("fitMemo", () => {
+  it("keeps JSON memos valid by dropping their least important fields", () => {
+    const memo = JSON.stringify({ installment: "2/6", source: "Max", bankMemo: "x".repeat(250) });
+
+    expect(JSON.parse(fitMemo(memo))).toEqual({ installment: "2/6", source: "Max" });
+    expect(fitMemo(memo, 25)).toBe('{"installment":"2/6"}');
+  });
+
+  it("falls back to the compact preset when the JSON can't be shortened", () => {
+    const memo = JSON.stringify({ installment: "2/6", source: "Max", note: "x".repeat(250) });
+    expect(fitMemo(memo)).toBe("2/6 · Max");
+  });
+
+  it("cuts other memos and leaves short ones alone", () => {
+    expect(fitMemo("x".repeat(250))).toHaveLength(MEMO_MAX_LENGTH);
+    expect(fitMemo("just a note")).toBe("just a note");
+  });
+});
+
+describe("selectMemoTemplate", () => {
+  it("prefers the account instance, then the bank, then the default", () => {
+    const options = { memoTemplate: "readable", memoTemplates: { Isracard: "compact" } };
+    expect(selectMemoTemplate("Isracard - Dana", options)).toBe("compact");
+    expect(selectMemoTemplate("Max", options)).toBe("readable");
+    expect(selectMemoTemplate("Max", {})).toBe("json");
+  });
+});
+
+describe("validateMemoTemplate", () => {
+  it("accepts presets and templates with known fields", () => {
+    expect(() => validateMemoTemplate("json", "memoTemplate")).not.toThrow();
+    expect(() => validateMemoTemplate("{source} {bankMemo}", "memoTemplate")).not.toThrow();
+  });
+
+  it("rejects unknown presets and fields", () => {
+    expect(() => validateMemoTemplate("", "memoTemplate")).toThrow("non-empty string");
+    expect(() => validateMemoTemplate("short", "memoTemplate")).toThrow(
+      'unknown memo preset "short"'
+    );
+    expect(() => validateMemoTemplate("{amount}", "memoTemplate")).toThrow(
+      "unknown memo field {amount}"
+    );
+  });
+});
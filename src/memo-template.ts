@@ -0,0 +1,190 @@
+/** YNAB rejects memos longer than this */
+export const MEMO_MAX_LENGTH = 200;
+
+/** Memo fields built for every transaction (see buildMemoFields), usable as {placeholders} */
+export const MEMO_FIELDS = [
+  "transactionDate",
+  "chargeDate",
+  "installment",
+  "dateStrategy",
+  "originalAmount",
+  "originalCurrency",
+  "source",
+  "type",
+  "category",
+  "bankMemo",
+  "originalPayee",
+] as const;
+export type MemoField = (typeof MEMO_FIELDS)[number];
+export type MemoFields = Partial<Record<MemoField, string | number>>;
+
+/** The JSON memo preset, and the default for every account */
+export const JSON_MEMO_PRESET = "json";
+
+/** Built-in templates by name, selectable instead of a template string */
+export const MEMO_TEMPLATE_PRESETS: Record<string, string> = {
+  compact: "{installment} {originalCurrency}{originalAmount} · {source}",
+  readable:
+    "{installment} · {originalCurrency} {originalAmount} · Charged {chargeDate} · {source} · {bankMemo} · {originalPayee}",
+};
+
+export const MEMO_PRESET_NAMES = [JSON_MEMO_PRESET, ...Object.keys(MEMO_TEMPLATE_PRESETS)];
+
+/**
+ * Fields kept longest when a memo is over the limit, most important first.
+ * originalCurrency is dropped together with originalAmount.
+ */
+const FIELD_PRIORITY: MemoField[] = [
+  "installment",
+  "originalAmount",
+  "chargeDate",
+  "source",
+  "originalPayee",
+  "transactionDate",
+  "bankMemo",
+  "category",
+  "type",
+  "dateStrategy",
+];
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/** Separator text left at the start of a memo when the fields before it are empty */
+const LEADING_SEPARATOR = /^[\s·|,;:/-]+/;
+
+function formatField(fields: MemoFields, name: string): string {
+  const value = fields[name as MemoField];
+  if (value === undefined || value === "") {
+    return "";
+  }
+  if (name === "originalAmount") {
+    return Math.abs(Number(value)).toFixed(2);
+  }
+  return String(value);
+}
+
+/**
+ * Fill a template's {field} placeholders. An empty field is dropped along with the
+ * literal text before it, so "{installment} · {source}" renders as "Max" without an installment.
+ */
+export function renderMemoTemplate(template: string, fields: MemoFields): string {
+  let output = "";
+  let last = 0;
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const prefix = template.slice(last, match.index);
+    last = match.index + match[0].length;
+
+    const value = formatField(fields, match[1]);
+    if (!value) continue;
+    output += (output ? prefix : prefix.replace(LEADING_SEPARATOR, "")) + value;
+  }
+
+  if (output) {
+    output += template.slice(last);
+  }
+  return output.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Resolve a preset name to its template; anything else is used as a template
+ */
+export function resolveMemoTemplate(template: string): string {
+  return MEMO_TEMPLATE_PRESETS[template] ?? template;
+}
+
+/**
+ * Format memo fields with a template or preset name (default JSON). Memos over
+ * maxLength lose their least important fields (see FIELD_PRIORITY) until they fit.
+ */
+export function formatMemo(
+  fields: MemoFields,
+  template: string = JSON_MEMO_PRESET,
+  maxLength: number = MEMO_MAX_LENGTH
+): string {
+  const remaining: MemoFields = { ...fields };
+  const render = () => {
+    if (template === JSON_MEMO_PRESET) {
+      return Object.keys(remaining).length > 0 ? JSON.stringify(remaining) : "";
+    }
+    return renderMemoTemplate(resolveMemoTemplate(template), remaining);
+  };
+
+  let memo = render();
+  for (const field of [...FIELD_PRIORITY].reverse()) {
+    if (memo.length <= maxLength) break;
+    if (remaining[field] === undefined) continue;
+
+    delete remaining[field];
+    if (field === "originalAmount") {
+      delete remaining.originalCurrency;
+    }
+    memo = render();
+  }
+
+  return memo;
+}
+
+/**
+ * Shorten an already formatted memo to maxLength. JSON memos are formatted again without
+ * their least important fields (then with the compact preset), so they stay valid JSON or
+ * readable text; other memos are cut.
+ */
+export function fitMemo(memo: string, maxLength: number = MEMO_MAX_LENGTH): string {
+  if (memo.length <= maxLength) {
+    return memo;
+  }
+
+  let fields: unknown;
+  try {
+    fields = JSON.parse(memo);
+  } catch {
+    return memo.slice(0, maxLength);
+  }
+  if (!fields || typeof fields !== "object" || Array.isArray(fields)) {
+    return memo.slice(0, maxLength);
+  }
+
+  const json = formatMemo(fields as MemoFields, JSON_MEMO_PRESET, maxLength);
+  return json.length <= maxLength ? json : formatMemo(fields as MemoFields, "compact", maxLength);
+}
+
+/**
+ * Template for an account: its entry in memoTemplates (by account instance name, then
+ * bank name), else memoTemplate, else JSON.
+ */
+export function selectMemoTemplate(
+  accountName: string | undefined,
+  options: { memoTemplate?: string; memoTemplates?: Record<string, string> }
+): string {
+  const bankName = accountName?.split(" - ")[0];
+  return (
+    (accountName ? options.memoTemplates?.[accountName] : undefined) ??
+    (bankName ? options.memoTemplates?.[bankName] : undefined) ??
+    options.memoTemplate ??
+    JSON_MEMO_PRESET
+  );
+}
+
+/**
+ * Validate a preset name or template (label is only used for error messages)
+ */
+export function validateMemoTemplate(template: unknown, label: string): void {
+  if (typeof template !== "string" || template.trim() === "") {
+    throw new Error(`${label}: memo template must be a non-empty string`);
+  }
+  if (MEMO_PRESET_NAMES.includes(template)) {
+    return;
+  }
+
+  const placeholders = Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]);
+  if (placeholders.length === 0) {
+    throw new Error(
+      `${label}: unknown memo preset "${template}". Use one of ${MEMO_PRESET_NAMES.join(", ")} or a template with {field} placeholders`
+    );
+  }
+  const unknown = placeholders.find((name) => !MEMO_FIELDS.includes(name as MemoField));
+  if (unknown) {
+    throw new Error(`${label}: unknown memo field {${unknown}}. Use ${MEMO_FIELDS.join(", ")}`);
+  }
+}
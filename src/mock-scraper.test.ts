@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { createMockProvider } from "./mock-scraper.js";
+import { scrapeAllAccounts, getScraperProvider } from "./scraper.js";
+import type { AccountConfig } from "./config.js";
+
+const makeAccount = (name: string): AccountConfig => ({
+  name,
+  bankName: name,
+  companyId: "max" as AccountConfig["companyId"],
+  credentials: {},
+  enabled: true,
+});
+
+describe("mock scraper provider", () => {
+  it("returns fixture transactions with defaults filled in", async () => {
+    const provider = createMockProvider({
+      latencyMs: 0,
+      accounts: {
+        Max: {
+          bankAccounts: [
+            {
+              accountNumber: "1234",
+              txns: [
+                { date: "2024-03-15T00:00:00.000Z", chargedAmount: -100, description: "Store" },
+                {
+                  date: "2024-03-10T00:00:00.000Z",
+                  chargedAmount: -90,
+                  originalAmount: -25,
+                  originalCurrency: "USD",
+                  description: "Foreign",
+                },
+              ],
+            },
+          ],
+        },
+      },
+    });
+
+    const [result] = await scrapeAllAccounts([makeAccount("Max")], new Date(), false, undefined, undefined, {
+      provider,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({
+      accountNumber: "1234",
+      accountName: "Max",
+      processedDate: "2024-03-15T00:00:00.000Z",
+      originalAmount: -100,
+      originalCurrency: "ILS",
+      status: "completed",
+      type: "normal",
+    });
+    expect(result.transactions[1].originalCurrency).toBe("USD");
+  });
+
+  it("fails the first attempts as configured, so retries succeed", async () => {
+    const provider = createMockProvider({
+      latencyMs: 0,
+      accounts: {
+        Max: {
+          failures: [{ errorType: "TIMEOUT", errorMessage: "slow site" }],
+          bankAccounts: [],
+        },
+        Leumi: {
+          failures: [{ errorType: "INVALID_PASSWORD", errorMessage: "bad password" }],
+        },
+      },
+    });
+
+    const [max, leumi] = await scrapeAllAccounts(
+      [makeAccount("Max"), makeAccount("Leumi")],
+      new Date(),
+      false,
+      undefined,
+      undefined,
+      { provider, retry: { maxAttempts: 2, baseDelayMs: 1 } }
+    );
+
+    expect(max.success).toBe(true);
+    expect(max.attempts).toHaveLength(2);
+    expect(leumi.success).toBe(false);
+    expect(leumi.errorKind).toBe("credentials");
+    expect(leumi.attempts).toHaveLength(1);
+  });
+
+  it("reports progress events", async () => {
+    const provider = createMockProvider({
+      latencyMs: 0,
+      accounts: { Max: { progress: ["LOGGING_IN", "LOGIN_SUCCESS"], bankAccounts: [] } },
+    });
+    const messages: string[] = [];
+
+    await scrapeAllAccounts([makeAccount("Max")], new Date(), false, (message) => messages.push(message), undefined, {
+      provider,
+    });
+
+    expect(messages).toContain("  [Max] LOGGING_IN");
+    expect(messages).toContain("  [Max] LOGIN_SUCCESS");
+  });
+
+  it("uses demo data for accounts without a fixture", async () => {
+    const provider = createMockProvider({ latencyMs: 0 });
+
+    const [result] = await scrapeAllAccounts([makeAccount("Isracard")], new Date(), false, undefined, undefined, {
+      provider,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.transactions.some((t) => t.installments?.total === 6)).toBe(true);
+    expect(result.transactions.some((t) => t.originalCurrency === "USD")).toBe(true);
+  });
+});
+
+describe("getScraperProvider", () => {
+  it("defaults to the real bank scrapers", () => {
+    expect(getScraperProvider().name).toBe("israeli-bank-scrapers");
+    expect(getScraperProvider().needsCredentials).toBe(true);
+  });
+
+  it("selects the mock provider by name", () => {
+    const provider = getScraperProvider("mock");
+    expect(provider.name).toBe("mock");
+    expect(provider.needsCredentials).toBe(false);
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => getScraperProvider("nope")).toThrow("Unknown scraper provider: nope");
+  });
+});
@@ -0,0 +1,180 @@
+import { readFileSync } from "node:fs";
+import type { ScraperOptions } from "israeli-bank-scrapers";
+import type { AccountConfig } from "./config.js";
+import type { BankScraper, ScraperProvider } from "./scraper.js";
+import type { EnrichedTransaction } from "./transformer.js";
+
+/**
+ * Fixture transaction. Omitted fields get defaults: a completed normal ILS transaction
+ * whose original amount is the charged amount.
+ */
+export type MockTransaction = Partial<EnrichedTransaction> &
+  Pick<EnrichedTransaction, "date" | "chargedAmount" | "description">;
+
+export interface MockAccountFixture {
+  /** Delay before each progress event, overriding the fixture-wide latency */
+  latencyMs?: number;
+  /** Progress event types reported during each scrape */
+  progress?: string[];
+  /** Failures returned by the first attempts, in order; later attempts succeed */
+  failures?: Array<{ errorType: string; errorMessage: string }>;
+  /** Sub-accounts and their transactions */
+  bankAccounts?: Array<{ accountNumber: string; txns: MockTransaction[] }>;
+}
+
+export interface MockFixture {
+  latencyMs?: number;
+  /** Fixtures by account instance name; other accounts get the built-in demo data */
+  accounts?: Record<string, MockAccountFixture>;
+}
+
+const DEFAULT_LATENCY_MS = 300;
+const DEFAULT_PROGRESS = ["INITIALIZING", "START_SCRAPING", "LOGGING_IN", "LOGIN_SUCCESS", "END_SCRAPING"];
+
+/**
+ * Read a fixture file, or the built-in demo fixture without a path.
+ */
+export function loadMockFixture(path?: string): MockFixture {
+  if (!path) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as MockFixture;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load mock scraper fixture ${path}: ${message}`);
+  }
+}
+
+/**
+ * Scraper provider that returns fixture data instead of logging in to banks.
+ * Attempts are counted per account for the provider's lifetime, so fixture failures
+ * are consumed by retries.
+ */
+export function createMockProvider(fixture: MockFixture = {}): ScraperProvider {
+  const attemptsByAccount = new Map<string, number>();
+
+  return {
+    name: "mock",
+    needsCredentials: false,
+    createScraper(account: AccountConfig, options: ScraperOptions): BankScraper {
+      const accountFixture = fixture.accounts?.[account.name] ?? demoAccountFixture(account.name, new Date());
+      const latencyMs = accountFixture.latencyMs ?? fixture.latencyMs ?? DEFAULT_LATENCY_MS;
+      let listener: ((companyId: string, payload: { type: string }) => void) | undefined;
+      let terminated = false;
+
+      return {
+        onProgress(func) {
+          listener = func;
+        },
+
+        async scrape() {
+          const attempt = (attemptsByAccount.get(account.name) ?? 0) + 1;
+          attemptsByAccount.set(account.name, attempt);
+
+          for (const type of accountFixture.progress ?? DEFAULT_PROGRESS) {
+            await delay(latencyMs);
+            if (terminated) {
+              return { success: false, errorType: "GENERIC", errorMessage: "Terminated" };
+            }
+            listener?.(options.companyId, { type });
+          }
+
+          const failure = accountFixture.failures?.[attempt - 1];
+          if (failure) {
+            return { success: false, ...failure };
+          }
+
+          return {
+            success: true,
+            accounts: (accountFixture.bankAccounts ?? []).map((bankAccount) => ({
+              accountNumber: bankAccount.accountNumber,
+              txns: bankAccount.txns.map(toTransaction),
+            })),
+          };
+        },
+
+        async triggerTwoFactorAuth() {
+          return { success: true };
+        },
+
+        async getLongTermTwoFactorToken(otpCode: string) {
+          return { success: true, longTermTwoFactorAuthToken: `mock-token-${otpCode}` };
+        },
+
+        async terminate() {
+          terminated = true;
+        },
+      };
+    },
+  };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toTransaction(txn: MockTransaction): EnrichedTransaction {
+  return {
+    type: "normal" as EnrichedTransaction["type"],
+    status: "completed" as EnrichedTransaction["status"],
+    processedDate: txn.date,
+    originalAmount: txn.chargedAmount,
+    originalCurrency: "ILS",
+    ...txn,
+  };
+}
+
+/**
+ * A few weeks of plausible card activity, dated relative to now: local purchases,
+ * an installment plan, a foreign-currency charge, a refund and a pending charge.
+ */
+function demoAccountFixture(accountName: string, now: Date): MockAccountFixture {
+  const daysAgo = (days: number) => {
+    const date = new Date(now);
+    date.setDate(date.getDate() - days);
+    date.setHours(0, 0, 0, 0);
+    return date.toISOString();
+  };
+  const accountNumber = `demo-${accountName.replace(/[^a-zA-Z0-9]+/g, "-").toLowerCase()}`;
+
+  return {
+    bankAccounts: [
+      {
+        accountNumber,
+        txns: [
+          { identifier: 1001, date: daysAgo(2), chargedAmount: -245.9, description: "שופרסל דיל" },
+          { identifier: 1002, date: daysAgo(3), chargedAmount: -18, description: "ארומה תל אביב" },
+          {
+            identifier: 1003,
+            type: "installments" as EnrichedTransaction["type"],
+            date: daysAgo(40),
+            processedDate: daysAgo(5),
+            originalAmount: -1500,
+            chargedAmount: -250,
+            description: "KSP מחשבים",
+            installments: { number: 2, total: 6 },
+          },
+          {
+            identifier: 1004,
+            date: daysAgo(6),
+            processedDate: daysAgo(4),
+            originalAmount: -25.99,
+            originalCurrency: "USD",
+            chargedAmount: -97.4,
+            description: "AMAZON.COM",
+          },
+          { identifier: 1005, date: daysAgo(8), chargedAmount: 120, description: "זיכוי - החזר כספי" },
+          {
+            identifier: 1006,
+            status: "pending" as EnrichedTransaction["status"],
+            date: daysAgo(1),
+            chargedAmount: -55,
+            description: "פז תחנת דלק",
+          },
+        ],
+      },
+    ],
+  };
+}
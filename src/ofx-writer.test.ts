@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { toOFX } from "./ofx-writer.js";
+import type { YnabRow } from "./transformer.js";
+
+const NOW = new Date("2024-03-20T08:30:00.000Z");
+
+describe("toOFX", () => {
+  it("writes an OFX 2.x header and one STMTRS per account", () => {
+    const ofx = toOFX(
+      new Map<string, YnabRow[]>([
+        ["Max", [row({ date: "2024-03-15", payee: "Store", outflow: "100.00", importId: "ib:max1" })]],
+        ["Leumi", [row({ date: "2024-03-16", payee: "Salary", inflow: "5000.00", importId: "ib:leumi1" })]],
+      ]),
+      { now: NOW }
+    );
+
+    expect(ofx.startsWith('<?xml version="1.0"')).toBe(true);
+    expect(ofx).toContain('<?OFX OFXHEADER="200" VERSION="220"');
+    expect(ofx).toContain("<DTSERVER>20240320083000</DTSERVER>");
+    expect(ofx.match(/<STMTRS>/g)).toHaveLength(2);
+    expect(ofx).toContain("<ACCTID>Max</ACCTID>");
+    expect(ofx).toContain("<ACCTID>Leumi</ACCTID>");
+    expect(ofx).toContain("<CURDEF>ILS</CURDEF>");
+  });
+
+  it("converts rows to statement transactions with the import ID as FITID", () => {
+    const ofx = toOFX(
+      new Map([
+        [
+          "Max",
+          [
+            row({ date: "2024-03-15", payee: "Store", memo: "note", outflow: "100.00", importId: "ib:abc" }),
+            row({ date: "2024-03-10", payee: "Refund", inflow: "20.50", importId: "ib:def" }),
+          ],
+        ],
+      ]),
+      { now: NOW }
+    );
+
+    expect(ofx).toContain(
+      [
+        "<STMTTRN>",
+        "<TRNTYPE>DEBIT</TRNTYPE>",
+        "<DTPOSTED>20240315</DTPOSTED>",
+        "<TRNAMT>-100.00</TRNAMT>",
+        "<FITID>ib:abc</FITID>",
+        "<NAME>Store</NAME>",
+        "<MEMO>note</MEMO>",
+        "</STMTTRN>",
+      ].join("\n")
+    );
+    expect(ofx).toContain("<TRNTYPE>CREDIT</TRNTYPE>\n<DTPOSTED>20240310</DTPOSTED>\n<TRNAMT>20.50</TRNAMT>");
+    expect(ofx).toContain("<DTSTART>20240310</DTSTART>");
+    expect(ofx).toContain("<DTEND>20240315</DTEND>");
+  });
+
+  it("escapes XML and truncates long payees", () => {
+    const ofx = toOFX(
+      new Map([
+        ["Max", [row({ payee: "A & B <Store> with a very long name indeed", memo: '{"a":"<b>"}', outflow: "1.00" })]],
+      ])
+    );
+
+    expect(ofx).toContain("<NAME>A &amp; B &lt;Store&gt; with a very long n</NAME>");
+    expect(ofx).toContain('<MEMO>{"a":"&lt;b&gt;"}</MEMO>');
+  });
+
+  it("derives a stable FITID for rows without an import ID", () => {
+    const rows = new Map([["Max", [row({ payee: "Store", outflow: "5.00" })]]]);
+    const first = toOFX(rows).match(/<FITID>(.*)<\/FITID>/)?.[1];
+    const second = toOFX(rows).match(/<FITID>(.*)<\/FITID>/)?.[1];
+
+    expect(first).toMatch(/^row:[0-9a-f]{32}$/);
+    expect(second).toBe(first);
+  });
+});
+
+function row(overrides: Partial<YnabRow>): YnabRow {
+  return { date: "2024-03-15", payee: "", memo: "", outflow: "", inflow: "", ...overrides };
+}
@@ -0,0 +1,132 @@
+import { getRowFingerprint, groupRowsByAccount, type YnabRow } from "./transformer.js";
+import type { Exporter } from "./exporters.js";
+
+export interface ToOFXOptions {
+  /** Statement currency (default ILS) */
+  currency?: string;
+  /** Server timestamp written to the file (default: now) */
+  now?: Date;
+}
+
+/** OFX 2.x caps NAME at 32 characters and MEMO at 255 */
+const MAX_NAME_LENGTH = 32;
+const MAX_MEMO_LENGTH = 255;
+
+/**
+ * Escape a value for OFX 2.x (XML) element content
+ */
+function escapeXML(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * YYYY-MM-DD -> OFX date (YYYYMMDD)
+ */
+function toOFXDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+/**
+ * OFX datetime (YYYYMMDDHHMMSS, UTC)
+ */
+function toOFXDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+function signedAmount(row: YnabRow): number {
+  return (parseFloat(row.inflow) || 0) - (parseFloat(row.outflow) || 0);
+}
+
+function statementTransaction(row: YnabRow): string[] {
+  const amount = signedAmount(row);
+  const lines = [
+    "<STMTTRN>",
+    `<TRNTYPE>${amount < 0 ? "DEBIT" : "CREDIT"}</TRNTYPE>`,
+    `<DTPOSTED>${toOFXDate(row.date)}</DTPOSTED>`,
+    `<TRNAMT>${amount.toFixed(2)}</TRNAMT>`,
+    `<FITID>${escapeXML(getRowFingerprint(row))}</FITID>`,
+    `<NAME>${escapeXML(row.payee.slice(0, MAX_NAME_LENGTH))}</NAME>`,
+  ];
+  if (row.memo) {
+    lines.push(`<MEMO>${escapeXML(row.memo.slice(0, MAX_MEMO_LENGTH))}</MEMO>`);
+  }
+  lines.push("</STMTTRN>");
+  return lines;
+}
+
+/**
+ * One statement response per account. The scrapers don't report balances,
+ * so LEDGERBAL (required by the spec) is zero.
+ */
+function statementResponse(
+  accountName: string,
+  rows: YnabRow[],
+  index: number,
+  currency: string,
+  now: string
+): string[] {
+  const dates = rows.map((r) => r.date).sort();
+  const start = dates[0] ? toOFXDate(dates[0]) : now.slice(0, 8);
+  const end = dates.length > 0 ? toOFXDate(dates[dates.length - 1]) : now.slice(0, 8);
+
+  return [
+    "<STMTTRNRS>",
+    `<TRNUID>${index + 1}</TRNUID>`,
+    "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+    "<STMTRS>",
+    `<CURDEF>${currency}</CURDEF>`,
+    "<BANKACCTFROM>",
+    "<BANKID>0</BANKID>",
+    `<ACCTID>${escapeXML(accountName)}</ACCTID>`,
+    "<ACCTTYPE>CHECKING</ACCTTYPE>",
+    "</BANKACCTFROM>",
+    "<BANKTRANLIST>",
+    `<DTSTART>${start}</DTSTART>`,
+    `<DTEND>${end}</DTEND>`,
+    ...rows.flatMap(statementTransaction),
+    "</BANKTRANLIST>",
+    "<LEDGERBAL>",
+    "<BALAMT>0.00</BALAMT>",
+    `<DTASOF>${now}</DTASOF>`,
+    "</LEDGERBAL>",
+    "</STMTRS>",
+    "</STMTTRNRS>",
+  ];
+}
+
+/**
+ * Convert YNAB rows, grouped by account, to an OFX 2.x document with one STMTRS per account.
+ */
+export function toOFX(rowsByAccount: Map<string, YnabRow[]>, options: ToOFXOptions = {}): string {
+  const currency = options.currency ?? "ILS";
+  const now = toOFXDateTime(options.now ?? new Date());
+
+  const statements = Array.from(rowsByAccount.entries()).flatMap(([accountName, rows], index) =>
+    statementResponse(accountName, rows, index, currency, now)
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    "<OFX>",
+    "<SIGNONMSGSRSV1>",
+    "<SONRS>",
+    "<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>",
+    `<DTSERVER>${now}</DTSERVER>`,
+    "<LANGUAGE>ENG</LANGUAGE>",
+    "</SONRS>",
+    "</SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1>",
+    ...statements,
+    "</BANKMSGSRSV1>",
+    "</OFX>",
+  ].join("\n");
+}
+
+export const ofxExporter: Exporter = {
+  name: "ofx",
+  label: "OFX 2.x",
+  extension: "ofx",
+  filePrefix: "ynab",
+  export: (rows) => toOFX(groupRowsByAccount(rows)),
+};
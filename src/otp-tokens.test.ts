@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, existsSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createOtpTokenStore } from "./otp-tokens.js";
+
+describe("OTP token store", () => {
+  let dir: string;
+  let tokensPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "otp-tokens-"));
+    tokensPath = join(dir, "data", "otp-tokens.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("starts empty when no file exists", () => {
+    const store = createOtpTokenStore(tokensPath);
+    expect(store.get("One Zero")).toBeUndefined();
+    expect(existsSync(tokensPath)).toBe(false);
+  });
+
+  it("persists tokens per account after save", () => {
+    const first = createOtpTokenStore(tokensPath);
+    first.set("One Zero", "token-a");
+    first.set("One Zero - Dana", "token-b");
+    first.save();
+
+    const second = createOtpTokenStore(tokensPath);
+    expect(second.get("One Zero")).toBe("token-a");
+    expect(second.get("One Zero - Dana")).toBe("token-b");
+  });
+
+  it("removes a token", () => {
+    const store = createOtpTokenStore(tokensPath);
+    store.set("One Zero", "token-a");
+
+    expect(store.remove("One Zero")).toBe(true);
+    expect(store.remove("One Zero")).toBe(false);
+    expect(store.get("One Zero")).toBeUndefined();
+  });
+
+  it("writes the file readable by its owner only", () => {
+    const store = createOtpTokenStore(tokensPath);
+    store.set("One Zero", "token-a");
+    store.save();
+
+    expect(statSync(tokensPath).mode & 0o777).toBe(0o600);
+  });
+});
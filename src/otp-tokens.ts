@@ -0,0 +1,59 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "node:fs";
+import { dirname } from "node:path";
+
+export const DEFAULT_OTP_TOKENS_PATH = "./data/otp-tokens.json";
+
+/**
+ * On-disk format: account instance name -> long-term two-factor token
+ */
+interface OtpTokensFile {
+  version: 1;
+  tokens: Record<string, { token: string; savedAt: string }>;
+}
+
+/**
+ * Long-term two-factor tokens returned after an SMS code was accepted, reused so later
+ * scrapes of the same account don't need a new code.
+ * Changes are kept in memory until save() is called. The file is readable by its owner only.
+ */
+export function createOtpTokenStore(path: string = process.env.OTP_TOKENS_FILE || DEFAULT_OTP_TOKENS_PATH) {
+  const tokens = readTokensFile(path);
+
+  return {
+    get(accountName: string): string | undefined {
+      return tokens[accountName]?.token;
+    },
+
+    set(accountName: string, token: string, savedAt: Date = new Date()) {
+      tokens[accountName] = { token, savedAt: savedAt.toISOString() };
+    },
+
+    remove(accountName: string): boolean {
+      if (!(accountName in tokens)) {
+        return false;
+      }
+      delete tokens[accountName];
+      return true;
+    },
+
+    save() {
+      const dir = dirname(path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      const file: OtpTokensFile = { version: 1, tokens };
+      writeFileSync(path, JSON.stringify(file, null, 2), { encoding: "utf-8", mode: 0o600 });
+    },
+  };
+}
+
+export type OtpTokenStore = ReturnType<typeof createOtpTokenStore>;
+
+function readTokensFile(path: string): OtpTokensFile["tokens"] {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<OtpTokensFile>;
+  return parsed.tokens ?? {};
+}
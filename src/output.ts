@@ -0,0 +1,98 @@
+import { writeFileSync, mkdirSync, existsSync, readdirSync, unlinkSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { generateFilename } from "./csv-writer.js";
+import type { createAuditLogger } from "./audit-logger.js";
+import type { Exporter, ExportContext } from "./exporters.js";
+import { groupByAccount, groupRowsByAccount, type YnabRow } from "./transformer.js";
+
+export const LOG_DIR = "./logs";
+const LOG_RETENTION_DAYS = 14;
+
+function writeFile(outputDir: string, filename: string, content: string): string {
+  if (!existsSync(outputDir)) {
+    mkdirSync(outputDir, { recursive: true });
+  }
+
+  const outputPath = join(outputDir, filename);
+  writeFileSync(outputPath, content, "utf-8");
+  return outputPath;
+}
+
+/**
+ * Export rows to outputDir with the given exporter, as one file or one file per account
+ * (split, or an exporter with perAccount), and return the paths.
+ */
+export function writeExport(
+  exporter: Exporter,
+  rows: YnabRow[],
+  context: ExportContext,
+  outputDir: string,
+  split = false
+): string[] {
+  if (!split && !exporter.perAccount) {
+    const filename = generateFilename(`${exporter.filePrefix}-transactions`, exporter.extension);
+    return [writeFile(outputDir, filename, exporter.export(rows, context))];
+  }
+
+  const transactionsByAccount = context.transactions ? groupByAccount(context.transactions) : null;
+  const paths: string[] = [];
+
+  for (const [accountName, accountRows] of groupRowsByAccount(rows)) {
+    const accountContext = transactionsByAccount
+      ? { ...context, transactions: transactionsByAccount.get(accountName) ?? [] }
+      : context;
+    const safeName = accountName.replace(/[^a-zA-Z0-9]+/g, "-").toLowerCase();
+    const filename = generateFilename(`${exporter.filePrefix}-${safeName}`, exporter.extension);
+    paths.push(writeFile(outputDir, filename, exporter.export(accountRows, accountContext)));
+  }
+
+  return paths;
+}
+
+/**
+ * Write the audit log to LOG_DIR, pruning old logs first.
+ */
+export function saveAuditLog(auditLogger: ReturnType<typeof createAuditLogger>): string {
+  if (!existsSync(LOG_DIR)) {
+    mkdirSync(LOG_DIR, { recursive: true });
+  }
+
+  cleanOldFiles(
+    LOG_DIR,
+    LOG_RETENTION_DAYS,
+    (file) => file.startsWith("run-") && file.endsWith(".log")
+  );
+
+  const filepath = join(LOG_DIR, auditLogger.getFilename());
+  writeFileSync(filepath, auditLogger.format(), "utf-8");
+  return filepath;
+}
+
+/**
+ * Delete files in dir matching the filter that were last modified more than retentionDays ago.
+ */
+export function cleanOldFiles(
+  dir: string,
+  retentionDays: number,
+  matches: (filename: string) => boolean
+) {
+  if (!existsSync(dir)) return;
+
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+
+  try {
+    const files = readdirSync(dir);
+    for (const file of files) {
+      if (!matches(file)) continue;
+
+      const filepath = join(dir, file);
+      const stats = statSync(filepath);
+
+      if (stats.mtimeMs < cutoff) {
+        unlinkSync(filepath);
+      }
+    }
+  } catch {
+    // Ignore cleanup errors
+  }
+}
@@ -0,0 +1,34 @@
+import { createInterface } from "node:readline/promises";
+import { Writable } from "node:stream";
+
+/**
+ * Ask a question on the terminal and return the trimmed answer.
+ * With hidden set, typed characters are not echoed (for passphrases and codes).
+ */
+export async function prompt(question: string, options: { hidden?: boolean } = {}): Promise<string> {
+  const muted = new Writable({
+    write(_chunk, _encoding, callback) {
+      callback();
+    },
+  });
+
+  if (options.hidden) {
+    process.stdout.write(question);
+  }
+
+  const rl = createInterface({
+    input: process.stdin,
+    output: options.hidden ? muted : process.stdout,
+    terminal: process.stdin.isTTY ?? false,
+  });
+
+  try {
+    const answer = await rl.question(options.hidden ? "" : question);
+    return answer.trim();
+  } finally {
+    rl.close();
+    if (options.hidden) {
+      process.stdout.write("\n");
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { parseAccountIdMap, assignPushAccounts } from "./push-accounts.js";
+import type { YnabRow } from "./transformer.js";
+
+const makeRow = (account: string): YnabRow => ({
+  date: "2024-03-15",
+  payee: "Store",
+  memo: "",
+  outflow: "10.00",
+  inflow: "",
+  account,
+});
+
+const settings = { defaultEnvVar: "ACCOUNT_ID", mapEnvVar: "ACCOUNT_IDS" };
+
+describe("parseAccountIdMap", () => {
+  it("maps account instances to IDs", () => {
+    expect(parseAccountIdMap("Max=abc, Isracard - Dana = def,", "ACCOUNT_IDS")).toEqual({
+      Max: "abc",
+      "Isracard - Dana": "def",
+    });
+    expect(parseAccountIdMap("", "ACCOUNT_IDS")).toEqual({});
+  });
+
+  it("rejects entries without a name or an ID", () => {
+    expect(() => parseAccountIdMap("Max", "ACCOUNT_IDS")).toThrow(
+      'Invalid ACCOUNT_IDS entry: "Max"'
+    );
+    expect(() => parseAccountIdMap("Max=", "ACCOUNT_IDS")).toThrow("Invalid ACCOUNT_IDS entry");
+  });
+});
+
+describe("assignPushAccounts", () => {
+  it("sends a single account to the default account", () => {
+    const byTarget = assignPushAccounts(
+      [makeRow("Max"), makeRow("Max")],
+      { defaultAccountId: "default" },
+      settings
+    );
+    expect(Array.from(byTarget.keys())).toEqual(["default"]);
+    expect(byTarget.get("default")).toHaveLength(2);
+  });
+
+  it("sends mapped accounts to their own accounts", () => {
+    const byTarget = assignPushAccounts(
+      [makeRow("Max"), makeRow("Leumi")],
+      { defaultAccountId: "default", accountIds: { Max: "max-id", Leumi: "leumi-id" } },
+      settings
+    );
+    expect(Array.from(byTarget.keys())).toEqual(["max-id", "leumi-id"]);
+  });
+
+  it("refuses several accounts when one is not mapped", () => {
+    expect(() =>
+      assignPushAccounts(
+        [makeRow("Max"), makeRow("Leumi")],
+        { defaultAccountId: "default", accountIds: { Max: "max-id" } },
+        settings
+      )
+    ).toThrow("Rows from several accounts can't all go to ACCOUNT_ID. Map Leumi in ACCOUNT_IDS");
+  });
+});
@@ -0,0 +1,53 @@
+import { groupRowsByAccount, type YnabRow } from "./transformer.js";
+
+/**
+ * Parse an account ID map setting: "Max=abc,Isracard - Dana=def" maps account instances
+ * to accounts in the budget. Throws on entries without a name or an ID.
+ */
+export function parseAccountIdMap(value: string, envVar: string): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const entry of value.split(",")) {
+    if (entry.trim() === "") continue;
+
+    const separator = entry.lastIndexOf("=");
+    const name = entry.slice(0, separator).trim();
+    const id = entry.slice(separator + 1).trim();
+    if (separator < 0 || !name || !id) {
+      throw new Error(
+        `Invalid ${envVar} entry: "${entry.trim()}". Use <account>=<id>, separated by commas`
+      );
+    }
+    map[name] = id;
+  }
+  return map;
+}
+
+/**
+ * Group rows by the budget account they are pushed to. Account instances listed in accountIds
+ * go to their own account; when the rows come from a single unlisted instance, they go to the
+ * default account. Throws when rows of several instances would all land in the default account.
+ */
+export function assignPushAccounts(
+  rows: YnabRow[],
+  target: { defaultAccountId: string; accountIds?: Record<string, string> },
+  settings: { defaultEnvVar: string; mapEnvVar: string }
+): Map<string, YnabRow[]> {
+  const byInstance = groupRowsByAccount(rows);
+  const accountIds = target.accountIds ?? {};
+  const unmapped = Array.from(byInstance.keys()).filter((name) => !accountIds[name]);
+
+  if (unmapped.length > 0 && byInstance.size > 1) {
+    throw new Error(
+      `Rows from several accounts can't all go to ${settings.defaultEnvVar}. ` +
+        `Map ${unmapped.join(", ")} in ${settings.mapEnvVar} (<account>=<id>, separated by commas), ` +
+        `or push one account at a time`
+    );
+  }
+
+  const byTarget = new Map<string, YnabRow[]>();
+  for (const [name, instanceRows] of byInstance) {
+    const accountId = accountIds[name] ?? target.defaultAccountId;
+    byTarget.set(accountId, [...(byTarget.get(accountId) ?? []), ...instanceRows]);
+  }
+  return byTarget;
+}
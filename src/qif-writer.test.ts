@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { toQIF, flattenMemo } from "./qif-writer.js";
+import type { YnabRow } from "./transformer.js";
+
+describe("toQIF", () => {
+  it("lists the accounts for AutoSwitch, then writes a Bank or CCard section per account", () => {
+    const qif = toQIF(
+      new Map<string, YnabRow[]>([
+        ["Leumi", [row({ date: "2024-03-16", payee: "Salary", inflow: "5000.00" })]],
+        ["Max", [row({ date: "2024-03-15", payee: "Store", outflow: "100.00", category: "Groceries" })]],
+      ]),
+      { Leumi: "bank", Max: "card" }
+    );
+
+    expect(qif).toBe(
+      [
+        "!Option:AutoSwitch",
+        "!Account",
+        "NLeumi",
+        "TBank",
+        "^",
+        "NMax",
+        "TCCard",
+        "^",
+        "!Clear:AutoSwitch",
+        "!Account",
+        "NLeumi",
+        "TBank",
+        "^",
+        "!Type:Bank",
+        "D03/16/2024",
+        "T5000.00",
+        "PSalary",
+        "^",
+        "!Account",
+        "NMax",
+        "TCCard",
+        "^",
+        "!Type:CCard",
+        "D03/15/2024",
+        "T-100.00",
+        "PStore",
+        "LGroceries",
+        "^",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("treats unknown accounts as bank accounts", () => {
+    const qif = toQIF(new Map([["Old Export", [row({ payee: "Store", outflow: "1.00" })]]]));
+    expect(qif).toContain("!Type:Bank");
+  });
+
+  it("writes flattened memo metadata on one line", () => {
+    const memo = JSON.stringify({ chargeDate: "2024-03-15", bankMemo: "line one\nline two" });
+    const qif = toQIF(new Map([["Max", [row({ payee: "Store", memo, outflow: "1.00" })]]]), { Max: "card" });
+
+    expect(qif).toContain("MCharged 2024-03-15; Note line one line two\n");
+  });
+});
+
+describe("flattenMemo", () => {
+  it("turns memo metadata into readable text", () => {
+    const memo = JSON.stringify({
+      transactionDate: "2024-01-10",
+      chargeDate: "2024-03-10",
+      installment: "3/12",
+      originalAmount: -25.99,
+      originalCurrency: "USD",
+      source: "Max - 1234",
+    });
+
+    expect(flattenMemo(memo)).toBe(
+      "Purchased 2024-01-10; Charged 2024-03-10; Installment 3/12; Original amount USD -25.99; Source Max - 1234"
+    );
+  });
+
+  it("returns plain-text memos unchanged", () => {
+    expect(flattenMemo("")).toBe("");
+    expect(flattenMemo("just a note")).toBe("just a note");
+  });
+});
+
+function row(overrides: Partial<YnabRow>): YnabRow {
+  return { date: "2024-03-15", payee: "", memo: "", outflow: "", inflow: "", ...overrides };
+}
@@ -0,0 +1,119 @@
+import type { AccountKind } from "./banks.js";
+import { groupRowsByAccount, type YnabRow } from "./transformer.js";
+import type { Exporter } from "./exporters.js";
+
+/** Readable labels for memo metadata keys, in output order */
+const MEMO_LABELS: Array<[key: string, label: string]> = [
+  ["transactionDate", "Purchased"],
+  ["chargeDate", "Charged"],
+  ["installment", "Installment"],
+  ["dateStrategy", "Dated by"],
+  ["originalAmount", "Original amount"],
+  ["source", "Source"],
+  ["type", "Type"],
+  ["category", "Bank category"],
+  ["bankMemo", "Note"],
+  ["originalPayee", "Original payee"],
+];
+
+/**
+ * Flatten memo metadata (the JSON built by buildMemo) to readable text, e.g.
+ * "Charged 2024-03-15; Installment 2/6; Source Max - 1234". Other memos are returned as is.
+ */
+export function flattenMemo(memo: string): string {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(memo);
+  } catch {
+    return memo;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return memo;
+  }
+
+  const parts: string[] = [];
+  for (const [key, label] of MEMO_LABELS) {
+    const value = parsed[key];
+    if (value === undefined || value === null || value === "") continue;
+
+    if (key === "originalAmount" && parsed.originalCurrency) {
+      parts.push(`${label} ${String(parsed.originalCurrency)} ${String(value)}`);
+    } else {
+      parts.push(`${label} ${String(value)}`);
+    }
+  }
+  return parts.join("; ");
+}
+
+/**
+ * YYYY-MM-DD -> MM/DD/YYYY, the date format QIF importers expect
+ */
+function toQIFDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * QIF fields are line-based; keep values on one line
+ */
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, " ").trim();
+}
+
+function transactionLines(row: YnabRow): string[] {
+  const amount = (parseFloat(row.inflow) || 0) - (parseFloat(row.outflow) || 0);
+  const lines = [`D${toQIFDate(row.date)}`, `T${amount.toFixed(2)}`, `P${singleLine(row.payee)}`];
+
+  const memo = singleLine(flattenMemo(row.memo));
+  if (memo) {
+    lines.push(`M${memo}`);
+  }
+  if (row.category) {
+    lines.push(`L${singleLine(row.category)}`);
+  }
+  lines.push("^");
+  return lines;
+}
+
+/**
+ * Convert YNAB rows, grouped by account, to QIF with one !Type:Bank or !Type:CCard
+ * section per account. Accounts missing from accountKinds are treated as bank accounts.
+ *
+ * The account list comes first, between !Option:AutoSwitch and !Clear:AutoSwitch, so
+ * importers read each later !Account header as a switch to that account.
+ */
+export function toQIF(
+  rowsByAccount: Map<string, YnabRow[]>,
+  accountKinds: Record<string, AccountKind> = {}
+): string {
+  const accounts = Array.from(rowsByAccount, ([accountName, rows]) => {
+    const type = accountKinds[accountName] === "card" ? "CCard" : "Bank";
+    return { header: [`N${singleLine(accountName)}`, `T${type}`, "^"], type, rows };
+  });
+
+  const lines: string[] = [];
+  if (accounts.length > 0) {
+    lines.push(
+      "!Option:AutoSwitch",
+      "!Account",
+      ...accounts.flatMap((account) => account.header),
+      "!Clear:AutoSwitch"
+    );
+  }
+  for (const { header, type, rows } of accounts) {
+    lines.push("!Account", ...header, `!Type:${type}`);
+    for (const row of rows) {
+      lines.push(...transactionLines(row));
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+export const qifExporter: Exporter = {
+  name: "qif",
+  label: "QIF",
+  extension: "qif",
+  filePrefix: "ynab",
+  export: (rows, context) => toQIF(groupRowsByAccount(rows), context.accountKinds),
+};
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { applyPayeeRules, assignCategory, loadRules, type CategoryRule, type PayeeRule } from "./rules.js";
+
+describe("applyPayeeRules", () => {
+  const rules: PayeeRule[] = [
+    { match: "exact", pattern: "סופר פארם", rewrite: "Super-Pharm" },
+    { match: "contains", pattern: "netflix", rewrite: "Netflix" },
+    { match: "regex", pattern: "^PAYPAL \\*(\\w+)", rewrite: "PayPal: $1" },
+    { match: "contains", pattern: "העברה", rewrite: "Transfer", accounts: ["Leumi"] },
+  ];
+
+  it("rewrites exact matches case-insensitively", () => {
+    expect(applyPayeeRules("סופר פארם", "Max", rules).payee).toBe("Super-Pharm");
+  });
+
+  it("rewrites contains matches", () => {
+    const result = applyPayeeRules("NETFLIX.COM 1234", "Max", rules);
+    expect(result.payee).toBe("Netflix");
+    expect(result.ruleIndex).toBe(1);
+  });
+
+  it("substitutes regex capture groups", () => {
+    expect(applyPayeeRules("PAYPAL *SPOTIFY 5678", "Max", rules).payee).toBe("PayPal: SPOTIFY");
+  });
+
+  it("uses the first matching rule", () => {
+    const result = applyPayeeRules("PAYPAL *NETFLIX 1234", "Max", rules);
+    expect(result.payee).toBe("Netflix");
+    expect(result.rule).toBe(rules[1]);
+  });
+
+  it("respects account scoping", () => {
+    expect(applyPayeeRules("העברה מחשבון", "Leumi", rules).payee).toBe("Transfer");
+    expect(applyPayeeRules("העברה מחשבון", "Max", rules).payee).toBe("העברה מחשבון");
+    expect(applyPayeeRules("העברה מחשבון", undefined, rules).rule).toBeNull();
+  });
+
+  it("returns the trimmed description when nothing matches", () => {
+    const result = applyPayeeRules("  רמי לוי  ", "Max", rules);
+    expect(result.payee).toBe("רמי לוי");
+    expect(result.rule).toBeNull();
+    expect(result.ruleIndex).toBe(-1);
+  });
+});
+
+describe("assignCategory", () => {
+  const rules: CategoryRule[] = [
+    { category: "Salary", direction: "inflow", description: { match: "contains", pattern: "משכורת" } },
+    { category: "Groceries", categoryId: "cat-groceries", payee: { match: "exact", pattern: "Shufersal" } },
+    { category: "Big purchases", direction: "outflow", minAmount: 1000 },
+    { category: "Fuel", bankCategory: { match: "contains", pattern: "דלק" }, accounts: ["Max"] },
+  ];
+
+  it("matches on the rewritten payee and returns the category ID", () => {
+    const result = assignCategory({ payee: "Shufersal", description: "שופרסל דיל", amount: -80 }, rules);
+    expect(result?.category).toBe("Groceries");
+    expect(result?.categoryId).toBe("cat-groceries");
+    expect(result?.ruleIndex).toBe(1);
+  });
+
+  it("respects direction and amount bounds", () => {
+    expect(assignCategory({ payee: "X", description: "משכורת", amount: 9000 }, rules)?.category).toBe("Salary");
+    expect(assignCategory({ payee: "X", description: "משכורת", amount: -9000 }, rules)?.category).toBe(
+      "Big purchases"
+    );
+    expect(assignCategory({ payee: "X", description: "Y", amount: -999 }, rules)).toBeNull();
+  });
+
+  it("matches bank category only for scoped accounts", () => {
+    const input = { payee: "Paz", description: "פז", amount: -200, bankCategory: "דלק ותחבורה" };
+    expect(assignCategory({ ...input, accountName: "Max" }, rules)?.category).toBe("Fuel");
+    expect(assignCategory({ ...input, accountName: "Isracard" }, rules)).toBeNull();
+  });
+});
+
+describe("loadRules", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "rules-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("returns empty rules when the file is missing", () => {
+    expect(loadRules(join(dir, "missing.json"))).toEqual({ payeeRules: [], categoryRules: [] });
+  });
+
+  it("loads payee rules from JSON", () => {
+    const path = join(dir, "rules.json");
+    writeFileSync(path, JSON.stringify({ payeeRules: [{ match: "contains", pattern: "x", rewrite: "y" }] }));
+    expect(loadRules(path).payeeRules).toHaveLength(1);
+  });
+
+  it("throws on invalid JSON", () => {
+    const path = join(dir, "rules.json");
+    writeFileSync(path, "{ not json");
+    expect(() => loadRules(path)).toThrow("Invalid rules file");
+  });
+
+  it("throws when the file is not a JSON object", () => {
+    const path = join(dir, "rules.json");
+    for (const content of ["null", "[]", "42"]) {
+      writeFileSync(path, content);
+      expect(() => loadRules(path)).toThrow("must be a JSON object");
+    }
+  });
+
+  it("throws on unknown match types and bad regexes", () => {
+    const path = join(dir, "rules.json");
+    writeFileSync(path, JSON.stringify({ payeeRules: [{ match: "fuzzy", pattern: "x", rewrite: "y" }] }));
+    expect(() => loadRules(path)).toThrow("payeeRules[0]: match must be one of");
+
+    writeFileSync(path, JSON.stringify({ payeeRules: [{ match: "regex", pattern: "(", rewrite: "y" }] }));
+    expect(() => loadRules(path)).toThrow("payeeRules[0]: invalid regex");
+  });
+
+  it("validates category rules", () => {
+    const path = join(dir, "rules.json");
+    writeFileSync(path, JSON.stringify({ categoryRules: [{ payee: { match: "exact", pattern: "x" } }] }));
+    expect(() => loadRules(path)).toThrow("categoryRules[0]: category is required");
+
+    writeFileSync(
+      path,
+      JSON.stringify({ categoryRules: [{ category: "A", description: { match: "regex", pattern: "(" } }] })
+    );
+    expect(() => loadRules(path)).toThrow("categoryRules[0].description: invalid regex");
+  });
+
+  it("rejects rules and matchers that aren't objects", () => {
+    const path = join(dir, "rules.json");
+    writeFileSync(path, JSON.stringify({ payeeRules: [null] }));
+    expect(() => loadRules(path)).toThrow("payeeRules[0]: must be an object");
+
+    writeFileSync(path, JSON.stringify({ categoryRules: ["Food"] }));
+    expect(() => loadRules(path)).toThrow("categoryRules[0]: must be an object");
+
+    writeFileSync(path, JSON.stringify({ categoryRules: [{ category: "A", payee: null }] }));
+    expect(() => loadRules(path)).toThrow("categoryRules[0].payee: must be an object");
+  });
+
+  it("loads and validates ledger account mappings", () => {
+    const path = join(dir, "rules.json");
+    writeFileSync(path, JSON.stringify({ ledgerAccounts: { Max: "Liabilities:Max" } }));
+    expect(loadRules(path).ledgerAccounts).toEqual({ Max: "Liabilities:Max" });
+
+    writeFileSync(path, JSON.stringify({ ledgerAccounts: { Max: "" } }));
+    expect(() => loadRules(path)).toThrow("ledgerAccounts must map account names to account paths");
+  });
+
+  it("loads and validates memo templates", () => {
+    const path = join(dir, "rules.json");
+    writeFileSync(
+      path,
+      JSON.stringify({ memoTemplate: "compact", memoTemplates: { Leumi: "{chargeDate} {bankMemo}" } })
+    );
+    const rules = loadRules(path);
+    expect(rules.memoTemplate).toBe("compact");
+    expect(rules.memoTemplates).toEqual({ Leumi: "{chargeDate} {bankMemo}" });
+
+    writeFileSync(path, JSON.stringify({ memoTemplates: { Max: "{installments}" } }));
+    expect(() => loadRules(path)).toThrow('memoTemplates["Max"]: unknown memo field {installments}');
+
+    writeFileSync(path, JSON.stringify({ memoTemplate: "short" }));
+    expect(() => loadRules(path)).toThrow('unknown memo preset "short"');
+  });
+
+  it("loads and validates installment date strategies", () => {
+    const path = join(dir, "rules.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        installmentDateStrategy: "charge-date",
+        installmentDateStrategies: { Max: "spread" },
+      })
+    );
+    const rules = loadRules(path);
+    expect(rules.installmentDateStrategy).toBe("charge-date");
+    expect(rules.installmentDateStrategies).toEqual({ Max: "spread" });
+
+    writeFileSync(path, JSON.stringify({ installmentDateStrategies: { Max: "monthly" } }));
+    expect(() => loadRules(path)).toThrow("Invalid installment date strategy: monthly");
+  });
+});
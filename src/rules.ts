@@ -0,0 +1,341 @@
+import { readFileSync, existsSync } from "node:fs";
+import { validateMemoTemplate } from "./memo-template.js";
+import { getInstallmentDateStrategy } from "./installment-dates.js";
+
+export const DEFAULT_RULES_PATH = "./rules.json";
+
+export type MatchType = "exact" | "contains" | "regex";
+
+const MATCH_TYPES: MatchType[] = ["exact", "contains", "regex"];
+
+/**
+ * Rewrites a payee when the bank description matches.
+ * Rules are evaluated in order; the first match wins.
+ */
+export interface PayeeRule {
+  match: MatchType;
+  pattern: string;
+  /** New payee. For regex rules, $1..$n are replaced with capture groups. */
+  rewrite: string;
+  /** Only apply to these accounts (by account name). Applies to all when omitted. */
+  accounts?: string[];
+}
+
+export interface TextMatcher {
+  match: MatchType;
+  pattern: string;
+}
+
+/**
+ * Assigns a YNAB category when every condition that is set matches.
+ * Rules are evaluated in order; the first match wins.
+ */
+export interface CategoryRule {
+  /** YNAB category name (CSV output) */
+  category: string;
+  /** YNAB category ID (API exporters) */
+  categoryId?: string;
+  /** Matched against the payee after rewrite rules */
+  payee?: TextMatcher;
+  /** Matched against the raw bank description */
+  description?: TextMatcher;
+  /** Matched against the bank-assigned category */
+  bankCategory?: TextMatcher;
+  /** Matched against the bank memo (merchant codes etc. when the bank provides them) */
+  bankMemo?: TextMatcher;
+  /** Transaction type from the scraper, e.g. "installments" */
+  type?: string;
+  direction?: "outflow" | "inflow";
+  /** Inclusive bounds on the absolute charged amount */
+  minAmount?: number;
+  maxAmount?: number;
+  accounts?: string[];
+}
+
+export interface Rules {
+  payeeRules: PayeeRule[];
+  categoryRules: CategoryRule[];
+  /** Ledger/beancount account by account instance or bank name, e.g. { "Max": "Liabilities:Max" } */
+  ledgerAccounts?: Record<string, string>;
+  /** Memo template or preset name for all accounts, e.g. "compact" (default "json") */
+  memoTemplate?: string;
+  /** Memo template or preset name by account instance or bank name; instance names win */
+  memoTemplates?: Record<string, string>;
+  /** Installment date strategy for all accounts, e.g. "charge-date" (default "offset") */
+  installmentDateStrategy?: string;
+  /** Installment date strategy by account instance or bank name; instance names win */
+  installmentDateStrategies?: Record<string, string>;
+}
+
+/**
+ * Fields a category rule can match on
+ */
+export interface CategoryInput {
+  payee: string;
+  description: string;
+  /** Signed charged amount (negative = outflow) */
+  amount: number;
+  accountName?: string;
+  bankCategory?: string;
+  bankMemo?: string;
+  type?: string;
+}
+
+export interface CategoryRuleMatch {
+  category: string;
+  categoryId?: string;
+  rule: CategoryRule;
+  ruleIndex: number;
+}
+
+export interface PayeeRuleMatch {
+  payee: string;
+  rule: PayeeRule | null;
+  /** Index of the rule in the rules file, -1 when nothing matched */
+  ruleIndex: number;
+}
+
+/**
+ * Load rules from a JSON file. Returns empty rules when the file doesn't exist.
+ * Throws if the file is malformed, naming the offending rule.
+ */
+export function loadRules(path: string = process.env.RULES_FILE || DEFAULT_RULES_PATH): Rules {
+  if (!existsSync(path)) {
+    return { payeeRules: [], categoryRules: [] };
+  }
+
+  let parsed: Partial<Rules>;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid rules file ${path}: ${message}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Invalid rules file ${path}: must be a JSON object`);
+  }
+
+  const payeeRules = parsed.payeeRules ?? [];
+  if (!Array.isArray(payeeRules)) {
+    throw new Error(`Invalid rules file ${path}: payeeRules must be an array`);
+  }
+  payeeRules.forEach((rule, i) => validatePayeeRule(rule, i));
+
+  const categoryRules = parsed.categoryRules ?? [];
+  if (!Array.isArray(categoryRules)) {
+    throw new Error(`Invalid rules file ${path}: categoryRules must be an array`);
+  }
+  categoryRules.forEach((rule, i) => validateCategoryRule(rule, i));
+
+  const rules: Rules = { payeeRules, categoryRules };
+  if (parsed.ledgerAccounts !== undefined) {
+    const ledgerAccounts = parsed.ledgerAccounts;
+    if (
+      !ledgerAccounts ||
+      typeof ledgerAccounts !== "object" ||
+      Array.isArray(ledgerAccounts) ||
+      Object.values(ledgerAccounts).some((account) => typeof account !== "string" || !account)
+    ) {
+      throw new Error(`Invalid rules file ${path}: ledgerAccounts must map account names to account paths`);
+    }
+    rules.ledgerAccounts = ledgerAccounts;
+  }
+
+  try {
+    if (parsed.memoTemplate !== undefined) {
+      validateMemoTemplate(parsed.memoTemplate, "memoTemplate");
+      rules.memoTemplate = parsed.memoTemplate;
+    }
+    if (parsed.memoTemplates !== undefined) {
+      const memoTemplates = parsed.memoTemplates;
+      if (!memoTemplates || typeof memoTemplates !== "object" || Array.isArray(memoTemplates)) {
+        throw new Error("memoTemplates must map account names to memo templates");
+      }
+      for (const [account, template] of Object.entries(memoTemplates)) {
+        validateMemoTemplate(template, `memoTemplates["${account}"]`);
+      }
+      rules.memoTemplates = memoTemplates;
+    }
+    if (parsed.installmentDateStrategy !== undefined) {
+      getInstallmentDateStrategy(parsed.installmentDateStrategy);
+      rules.installmentDateStrategy = parsed.installmentDateStrategy;
+    }
+    if (parsed.installmentDateStrategies !== undefined) {
+      const strategies = parsed.installmentDateStrategies;
+      if (!strategies || typeof strategies !== "object" || Array.isArray(strategies)) {
+        throw new Error("installmentDateStrategies must map account names to strategy names");
+      }
+      Object.values(strategies).forEach((name) => getInstallmentDateStrategy(name));
+      rules.installmentDateStrategies = strategies;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid rules file ${path}: ${message}`);
+  }
+
+  return rules;
+}
+
+/**
+ * Validate a single payee rule (index is only used for error messages).
+ */
+export function validatePayeeRule(rule: PayeeRule, index: number): void {
+  const label = `payeeRules[${index}]`;
+
+  validateMatcher(rule, label);
+  if (typeof rule.rewrite !== "string") {
+    throw new Error(`${label}: rewrite is required`);
+  }
+}
+
+function assertObject(value: unknown, label: string): void {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${label}: must be an object`);
+  }
+}
+
+function validateMatcher(matcher: TextMatcher, label: string): void {
+  assertObject(matcher, label);
+  if (!MATCH_TYPES.includes(matcher.match)) {
+    throw new Error(`${label}: match must be one of ${MATCH_TYPES.join(", ")}`);
+  }
+  if (typeof matcher.pattern !== "string" || matcher.pattern.length === 0) {
+    throw new Error(`${label}: pattern is required`);
+  }
+  if (matcher.match === "regex") {
+    try {
+      new RegExp(matcher.pattern);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`${label}: invalid regex: ${message}`);
+    }
+  }
+}
+
+/**
+ * Validate a single category rule (index is only used for error messages).
+ */
+export function validateCategoryRule(rule: CategoryRule, index: number): void {
+  const label = `categoryRules[${index}]`;
+
+  assertObject(rule, label);
+  if (typeof rule.category !== "string" || rule.category.length === 0) {
+    throw new Error(`${label}: category is required`);
+  }
+
+  for (const key of ["payee", "description", "bankCategory", "bankMemo"] as const) {
+    const matcher = rule[key];
+    if (matcher !== undefined) {
+      validateMatcher(matcher, `${label}.${key}`);
+    }
+  }
+
+  if (rule.direction !== undefined && rule.direction !== "outflow" && rule.direction !== "inflow") {
+    throw new Error(`${label}: direction must be "outflow" or "inflow"`);
+  }
+  if (
+    rule.minAmount !== undefined &&
+    rule.maxAmount !== undefined &&
+    rule.minAmount > rule.maxAmount
+  ) {
+    throw new Error(`${label}: minAmount must not exceed maxAmount`);
+  }
+}
+
+/**
+ * Check whether a rule is scoped to the given account.
+ */
+export function appliesToAccount(accounts: string[] | undefined, accountName?: string): boolean {
+  if (!accounts || accounts.length === 0) {
+    return true;
+  }
+  return accountName !== undefined && accounts.includes(accountName);
+}
+
+/**
+ * Match text against a pattern. Exact and contains are case-insensitive.
+ * Returns the regex match (or a single-element array) on success, null otherwise.
+ */
+export function matchText(match: MatchType, pattern: string, text: string): string[] | null {
+  switch (match) {
+    case "exact":
+      return text.toLowerCase() === pattern.toLowerCase() ? [text] : null;
+    case "contains":
+      return text.toLowerCase().includes(pattern.toLowerCase()) ? [text] : null;
+    case "regex":
+      return new RegExp(pattern, "i").exec(text);
+  }
+}
+
+/**
+ * Apply the first matching payee rule to a bank description.
+ *
+ * @example
+ * applyPayeeRules("PAYPAL *NETFLIX 1234", "Max", [
+ *   { match: "regex", pattern: "^PAYPAL \\*(\\w+)", rewrite: "$1" },
+ * ]) // { payee: "NETFLIX", ruleIndex: 0, ... }
+ */
+export function applyPayeeRules(
+  description: string,
+  accountName: string | undefined,
+  rules: PayeeRule[]
+): PayeeRuleMatch {
+  const text = description.trim();
+
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    if (!appliesToAccount(rule.accounts, accountName)) continue;
+
+    const match = matchText(rule.match, rule.pattern, text);
+    if (!match) continue;
+
+    const payee = rule.rewrite.replace(/\$(\d+)/g, (_, group: string) => match[Number(group)] ?? "");
+    return { payee: payee.trim(), rule, ruleIndex: i };
+  }
+
+  return { payee: text, rule: null, ruleIndex: -1 };
+}
+
+function matchesOptional(matcher: TextMatcher | undefined, text: string | undefined): boolean {
+  if (!matcher) {
+    return true;
+  }
+  return text !== undefined && matchText(matcher.match, matcher.pattern, text.trim()) !== null;
+}
+
+/**
+ * Check whether every condition set on a category rule matches the input.
+ */
+export function matchesCategoryRule(rule: CategoryRule, input: CategoryInput): boolean {
+  const absAmount = Math.abs(input.amount);
+
+  if (!appliesToAccount(rule.accounts, input.accountName)) return false;
+  if (rule.direction === "outflow" && input.amount >= 0) return false;
+  if (rule.direction === "inflow" && input.amount <= 0) return false;
+  if (rule.minAmount !== undefined && absAmount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && absAmount > rule.maxAmount) return false;
+  if (rule.type !== undefined && rule.type !== input.type) return false;
+
+  return (
+    matchesOptional(rule.payee, input.payee) &&
+    matchesOptional(rule.description, input.description) &&
+    matchesOptional(rule.bankCategory, input.bankCategory) &&
+    matchesOptional(rule.bankMemo, input.bankMemo)
+  );
+}
+
+/**
+ * Find the first category rule that matches, or null when uncategorized.
+ */
+export function assignCategory(
+  input: CategoryInput,
+  rules: CategoryRule[]
+): CategoryRuleMatch | null {
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i];
+    if (matchesCategoryRule(rule, input)) {
+      return { category: rule.category, categoryId: rule.categoryId, rule, ruleIndex: i };
+    }
+  }
+  return null;
+}
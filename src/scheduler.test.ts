@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, existsSync, readdirSync, utimesSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import {
+  parseCron,
+  nextCronTime,
+  isScheduleDue,
+  createScheduleStore,
+  createScheduler,
+  acquireRunLock,
+  withRunLock,
+  type Schedule,
+} from "./scheduler.js";
+
+const makeSchedule = (overrides: Partial<Schedule> = {}): Schedule => ({
+  id: "s1",
+  cron: "0 7 * * *",
+  accounts: [],
+  enabled: true,
+  options: {},
+  createdAt: new Date(2024, 2, 1, 12, 0).toISOString(),
+  ...overrides,
+});
+
+describe("parseCron", () => {
+  it("expands lists, ranges and steps", () => {
+    const cron = parseCron("*/15 8-10 1,15 * 1-5");
+    expect([...cron.minute.values]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hour.values]).toEqual([8, 9, 10]);
+    expect([...cron.dayOfMonth.values]).toEqual([1, 15]);
+    expect(cron.month.values.size).toBe(12);
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect(parseCron("0 0 * * 7").dayOfWeek.values.has(0)).toBe(true);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("0 7 * *")).toThrow("expected 5 fields");
+    expect(() => parseCron("60 * * * *")).toThrow("Invalid cron minute");
+    expect(() => parseCron("*/0 * * * *")).toThrow("Invalid cron minute");
+  });
+});
+
+describe("nextCronTime", () => {
+  it("finds the next matching minute", () => {
+    const next = nextCronTime("0 7 * * *", new Date(2024, 2, 15, 6, 30));
+    expect(next).toEqual(new Date(2024, 2, 15, 7, 0));
+  });
+
+  it("is strictly after the given time", () => {
+    const next = nextCronTime("0 7 * * *", new Date(2024, 2, 15, 7, 0));
+    expect(next).toEqual(new Date(2024, 2, 16, 7, 0));
+  });
+
+  it("skips to matching weekdays", () => {
+    // 2024-03-16 is a Saturday; next weekday is Monday the 18th
+    const next = nextCronTime("30 6 * * 1-5", new Date(2024, 2, 16, 10, 0));
+    expect(next).toEqual(new Date(2024, 2, 18, 6, 30));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 1st of the month OR Friday: from Wed 2024-03-13 the next is Fri the 15th
+    const next = nextCronTime("0 0 1 * 5", new Date(2024, 2, 13, 12, 0));
+    expect(next).toEqual(new Date(2024, 2, 15, 0, 0));
+  });
+});
+
+describe("isScheduleDue", () => {
+  it("is not due before the first run time", () => {
+    expect(isScheduleDue(makeSchedule(), new Date(2024, 2, 2, 6, 59))).toBe(false);
+  });
+
+  it("is due once a run time has passed since creation", () => {
+    expect(isScheduleDue(makeSchedule(), new Date(2024, 2, 2, 7, 0))).toBe(true);
+  });
+
+  it("catches up once after several missed runs", () => {
+    const schedule = makeSchedule({ lastRunAt: new Date(2024, 2, 2, 7, 0).toISOString() });
+    // Laptop slept for three days
+    const wake = new Date(2024, 2, 5, 9, 0);
+    expect(isScheduleDue(schedule, wake)).toBe(true);
+
+    schedule.lastRunAt = wake.toISOString();
+    expect(isScheduleDue(schedule, new Date(2024, 2, 5, 9, 1))).toBe(false);
+  });
+
+  it("ignores disabled schedules", () => {
+    expect(isScheduleDue(makeSchedule({ enabled: false }), new Date(2024, 2, 10))).toBe(false);
+  });
+});
+
+describe("createScheduleStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "schedules-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("adds, updates, removes and persists schedules", () => {
+    const path = join(dir, "schedules.json");
+    const store = createScheduleStore(path);
+    const schedule = store.add({ cron: "0 7 * * *", accounts: ["Max"] });
+    store.update(schedule.id, { enabled: false });
+    store.save();
+
+    const reloaded = createScheduleStore(path);
+    expect(reloaded.get(schedule.id)?.accounts).toEqual(["Max"]);
+    expect(reloaded.get(schedule.id)?.enabled).toBe(false);
+
+    expect(reloaded.remove(schedule.id)).toBe(true);
+    expect(reloaded.list()).toHaveLength(0);
+  });
+
+  it("validates cron expressions", () => {
+    const store = createScheduleStore(join(dir, "schedules.json"));
+    expect(() => store.add({ cron: "every day" })).toThrow("Invalid cron expression");
+  });
+});
+
+describe("createScheduler", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "scheduler-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("runs due schedules once and records the result", async () => {
+    const path = join(dir, "schedules.json");
+    const store = createScheduleStore(path);
+    store.add({ cron: "0 7 * * *" }, new Date(2024, 2, 1));
+    store.add({ cron: "0 7 1 1 *" }, new Date(2024, 2, 1));
+    store.save();
+
+    const ran: string[] = [];
+    const now = new Date(2024, 2, 3, 8, 0);
+    const scheduler = createScheduler({
+      store,
+      run: async (schedule) => {
+        ran.push(schedule.cron);
+        throw new Error("Failed accounts: Max");
+      },
+      lockPath: join(dir, "scheduler.lock"),
+      now: () => now,
+    });
+
+    await scheduler.tick();
+    await scheduler.tick();
+
+    expect(ran).toEqual(["0 7 * * *"]);
+    const [daily] = createScheduleStore(path).list();
+    expect(daily.lastStatus).toBe("failed");
+    expect(daily.lastError).toBe("Failed accounts: Max");
+    expect(existsSync(join(dir, "scheduler.lock"))).toBe(false);
+  });
+
+  it("does not start a run while one is in progress", async () => {
+    const store = createScheduleStore(join(dir, "schedules.json"));
+    store.add({ cron: "* * * * *" }, new Date(2024, 2, 1));
+
+    let finish: () => void = () => {};
+    let calls = 0;
+    const scheduler = createScheduler({
+      store: { ...store, reload: () => {} },
+      run: () => {
+        calls++;
+        return new Promise<void>((resolve) => (finish = resolve));
+      },
+      lockPath: join(dir, "scheduler.lock"),
+      now: () => new Date(2024, 2, 3),
+    });
+
+    const first = scheduler.tick();
+    expect(scheduler.isRunning()).toBe(true);
+    await scheduler.tick();
+    expect(calls).toBe(1);
+
+    finish();
+    await first;
+    expect(scheduler.isRunning()).toBe(false);
+  });
+});
+
+describe("acquireRunLock", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lock-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("refuses a lock held by a live process and takes over stale ones", () => {
+    const path = join(dir, "scheduler.lock");
+    const release = acquireRunLock(path);
+    expect(release).not.toBeNull();
+    expect(acquireRunLock(path)).toBeNull();
+    release!();
+
+    // PID that can't be running
+    writeFileSync(path, "999999999");
+    const takeover = acquireRunLock(path);
+    expect(takeover).not.toBeNull();
+    takeover!();
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it("treats a lock file without a PID as held until it is old", () => {
+    const path = join(dir, "scheduler.lock");
+    writeFileSync(path, "");
+    expect(acquireRunLock(path)).toBeNull();
+
+    const longAgo = new Date(Date.now() - 60_000);
+    utimesSync(path, longAgo, longAgo);
+    const takeover = acquireRunLock(path);
+    expect(takeover).not.toBeNull();
+    takeover!();
+  });
+
+  it("throws when the lock file can't be created", () => {
+    writeFileSync(join(dir, "file"), "");
+    expect(() => acquireRunLock(join(dir, "file", "scheduler.lock"))).toThrow("Failed to take the run lock");
+  });
+});
+
+describe("withRunLock", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "lock-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("runs under the lock and refuses while another run holds it", async () => {
+    const path = join(dir, "scheduler.lock");
+
+    const result = await withRunLock(async () => {
+      await expect(withRunLock(async () => "nested", path)).rejects.toThrow("Another scrape is running");
+      return "done";
+    }, path);
+
+    expect(result).toBe("done");
+    expect(existsSync(path)).toBe(false);
+  });
+});
@@ -0,0 +1,529 @@
+import {
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  existsSync,
+  linkSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import { randomUUID } from "node:crypto";
+
+export const DEFAULT_SCHEDULES_PATH = "./data/schedules.json";
+export const DEFAULT_RUN_LOCK_PATH = "./data/scheduler.lock";
+export const RUN_LOCK_HELD_ERROR = "Another scrape is running; try again when it has finished.";
+
+/** A lock file without a valid PID is treated as held for this long after it was written */
+const UNREADABLE_LOCK_GRACE_MS = 10_000;
+
+/** How far ahead nextCronTime searches before giving up (covers Feb 29 schedules) */
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Options a scheduled run passes to the scrape job (same meaning as the CLI flags)
+ */
+export interface ScheduleRunOptions {
+  daysBack?: number;
+  sinceLast?: boolean;
+  outputDir?: string;
+  split?: boolean;
+  onlyNew?: boolean;
+  ynabPush?: boolean;
+}
+
+export interface Schedule {
+  id: string;
+  /** Five-field cron expression: minute hour day-of-month month day-of-week */
+  cron: string;
+  /** Account instance names to scrape; all enabled accounts when empty */
+  accounts: string[];
+  enabled: boolean;
+  options: ScheduleRunOptions;
+  createdAt: string;
+  lastRunAt?: string;
+  lastStatus?: "success" | "failed";
+  lastError?: string;
+}
+
+export type ScheduleInput = Pick<Schedule, "cron"> & Partial<Pick<Schedule, "accounts" | "enabled" | "options">>;
+
+interface SchedulesFile {
+  version: 1;
+  schedules: Schedule[];
+}
+
+interface CronField {
+  values: Set<number>;
+  /** True when the field is "*" (matters for the day-of-month / day-of-week OR rule) */
+  wildcard: boolean;
+}
+
+export interface CronExpression {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+const FIELD_RANGES: Array<[keyof CronExpression, number, number]> = [
+  ["minute", 0, 59],
+  ["hour", 0, 23],
+  ["dayOfMonth", 1, 31],
+  ["month", 1, 12],
+  ["dayOfWeek", 0, 7],
+];
+
+function parseField(text: string, name: string, min: number, max: number): CronField {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const [rangeText, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron ${name}: "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangeText === "*") {
+      start = min;
+      end = max;
+    } else if (rangeText.includes("-")) {
+      const [a, b] = rangeText.split("-");
+      start = Number(a);
+      end = Number(b);
+    } else {
+      start = Number(rangeText);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron ${name}: "${part}" (allowed ${min}-${max})`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return { values, wildcard: text === "*" };
+}
+
+/**
+ * Parse a five-field cron expression. Supports "*", lists, ranges and steps.
+ *
+ * @example
+ * parseCron("0 7 * * 1-5") // 07:00 on weekdays
+ * parseCron("*\/30 * * * *") // every 30 minutes
+ */
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  const fields = {} as CronExpression;
+  FIELD_RANGES.forEach(([name, min, max], i) => {
+    fields[name] = parseField(parts[i], name, min, max);
+  });
+
+  // Sunday can be written as 0 or 7
+  if (fields.dayOfWeek.values.has(7)) {
+    fields.dayOfWeek.values.add(0);
+    fields.dayOfWeek.values.delete(7);
+  }
+
+  return fields;
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dom = cron.dayOfMonth.values.has(date.getDate());
+  const dow = cron.dayOfWeek.values.has(date.getDay());
+
+  // Standard cron: when both day fields are restricted, either one may match
+  if (!cron.dayOfMonth.wildcard && !cron.dayOfWeek.wildcard) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+/**
+ * First time strictly after `after` (to the minute, local time) that matches the expression.
+ */
+export function nextCronTime(expression: string | CronExpression, after: Date): Date {
+  const cron = typeof expression === "string" ? parseCron(expression) : expression;
+
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  while (date <= limit) {
+    if (!cron.month.values.has(date.getMonth() + 1) || !matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hour.values.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minute.values.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new Error(`Cron expression never matches: ${String(expression)}`);
+}
+
+/**
+ * A schedule is due when a run time passed since its last run (or creation).
+ * Several missed run times still make it due only once.
+ */
+export function isScheduleDue(schedule: Schedule, now: Date = new Date()): boolean {
+  if (!schedule.enabled) {
+    return false;
+  }
+  const since = new Date(schedule.lastRunAt ?? schedule.createdAt);
+  return nextCronTime(schedule.cron, since) <= now;
+}
+
+/**
+ * Validate user-supplied schedule fields. Throws with a readable message.
+ */
+export function validateScheduleInput(input: Partial<ScheduleInput>): void {
+  if (typeof input.cron !== "string") {
+    throw new Error("cron is required");
+  }
+  parseCron(input.cron);
+
+  if (
+    input.accounts !== undefined &&
+    (!Array.isArray(input.accounts) || input.accounts.some((name) => typeof name !== "string"))
+  ) {
+    throw new Error("accounts must be an array of account names");
+  }
+  if (input.options?.daysBack !== undefined && !(input.options.daysBack >= 1)) {
+    throw new Error("options.daysBack must be a positive number");
+  }
+}
+
+/**
+ * Scrape schedules, persisted between runs.
+ * Changes are kept in memory until save() is called.
+ */
+export function createScheduleStore(path: string = DEFAULT_SCHEDULES_PATH) {
+  let schedules = readSchedulesFile(path);
+
+  return {
+    list(): Schedule[] {
+      return schedules;
+    },
+
+    get(id: string): Schedule | undefined {
+      return schedules.find((s) => s.id === id);
+    },
+
+    add(input: ScheduleInput, now: Date = new Date()): Schedule {
+      validateScheduleInput(input);
+      const schedule: Schedule = {
+        id: randomUUID(),
+        cron: input.cron.trim(),
+        accounts: input.accounts ?? [],
+        enabled: input.enabled ?? true,
+        options: input.options ?? {},
+        createdAt: now.toISOString(),
+      };
+      schedules.push(schedule);
+      return schedule;
+    },
+
+    update(id: string, changes: Partial<ScheduleInput>): Schedule | undefined {
+      const schedule = schedules.find((s) => s.id === id);
+      if (!schedule) {
+        return undefined;
+      }
+      validateScheduleInput({ ...schedule, ...changes });
+      Object.assign(schedule, changes);
+      schedule.cron = schedule.cron.trim();
+      return schedule;
+    },
+
+    remove(id: string): boolean {
+      const before = schedules.length;
+      schedules = schedules.filter((s) => s.id !== id);
+      return schedules.length < before;
+    },
+
+    recordRun(id: string, ranAt: Date, error?: string) {
+      const schedule = schedules.find((s) => s.id === id);
+      if (!schedule) return;
+      schedule.lastRunAt = ranAt.toISOString();
+      schedule.lastStatus = error ? "failed" : "success";
+      if (error) {
+        schedule.lastError = error;
+      } else {
+        delete schedule.lastError;
+      }
+    },
+
+    /** Re-read the file, picking up edits made by another process */
+    reload() {
+      schedules = readSchedulesFile(path);
+    },
+
+    save() {
+      const dir = dirname(path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      const file: SchedulesFile = { version: 1, schedules };
+      writeFileSync(path, JSON.stringify(file, null, 2), "utf-8");
+    },
+  };
+}
+
+export type ScheduleStore = ReturnType<typeof createScheduleStore>;
+
+function readSchedulesFile(path: string): Schedule[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<SchedulesFile>;
+  return parsed.schedules ?? [];
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | undefined)?.code;
+}
+
+function removeQuietly(path: string): void {
+  try {
+    unlinkSync(path);
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Whether the lock file at path belongs to a live process. A file without a valid PID
+ * (left by a crash, or being written) counts as held until it is UNREADABLE_LOCK_GRACE_MS old.
+ * Returns the content judged, or null when the lock is free.
+ */
+function readLockHolder(path: string): { held: boolean; content: string } | null {
+  let content: string;
+  let modifiedAt: number;
+  try {
+    content = readFileSync(path, "utf-8");
+    modifiedAt = statSync(path).mtimeMs;
+  } catch (error) {
+    if (errorCode(error) === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const holder = Number(content);
+  if (content.trim() !== "" && Number.isInteger(holder) && holder > 0) {
+    return { held: isProcessAlive(holder), content };
+  }
+  return { held: Date.now() - modifiedAt < UNREADABLE_LOCK_GRACE_MS, content };
+}
+
+/**
+ * Remove a stale lock. It is renamed aside first, so a lock another process took in the
+ * meantime is noticed (its content differs) and put back instead of deleted.
+ */
+function removeStaleLock(path: string, staleContent: string): void {
+  const aside = `${path}.${process.pid}.stale`;
+  try {
+    renameSync(path, aside);
+  } catch (error) {
+    if (errorCode(error) === "ENOENT") {
+      return;
+    }
+    throw error;
+  }
+
+  if (readFileSync(aside, "utf-8") !== staleContent) {
+    try {
+      linkSync(aside, path);
+    } catch {
+      // A third process holds the lock now
+    }
+  }
+  removeQuietly(aside);
+}
+
+/**
+ * Take the cross-process run lock so scheduled, CLI and GUI scrapes never run at the same time.
+ * The PID is written to a temporary file that is then hard-linked into place, so the lock
+ * file never exists without its PID. Returns a release function, or null when another live
+ * process holds the lock. Throws when the lock file can't be created (e.g. no permission).
+ */
+export function acquireRunLock(path: string = DEFAULT_RUN_LOCK_PATH): (() => void) | null {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const pending = `${path}.${process.pid}.${randomUUID()}`;
+  try {
+    writeFileSync(pending, String(process.pid));
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      try {
+        linkSync(pending, path);
+        return () => removeQuietly(path);
+      } catch (error) {
+        if (errorCode(error) !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      const holder = readLockHolder(path);
+      if (holder?.held) {
+        return null;
+      }
+      if (holder) {
+        // Stale lock from a process that died mid-run
+        removeStaleLock(path, holder.content);
+      }
+    }
+    return null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to take the run lock ${path}: ${message}`);
+  } finally {
+    removeQuietly(pending);
+  }
+}
+
+/**
+ * Run fn while holding the run lock. Throws without running it when another scrape holds the lock.
+ */
+export async function withRunLock<T>(
+  fn: () => Promise<T>,
+  path: string = DEFAULT_RUN_LOCK_PATH
+): Promise<T> {
+  const release = acquireRunLock(path);
+  if (!release) {
+    throw new Error(RUN_LOCK_HELD_ERROR);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
+
+export interface SchedulerOptions {
+  store: ScheduleStore;
+  /** Performs one scheduled scrape; a rejection is recorded as the schedule's lastError */
+  run: (schedule: Schedule) => Promise<void>;
+  /** How often to check for due schedules */
+  intervalMs?: number;
+  lockPath?: string;
+  now?: () => Date;
+  onLog?: (message: string) => void;
+}
+
+/**
+ * Periodically runs due schedules, one at a time.
+ * A tick that starts while a run is still in progress does nothing; the schedules it
+ * would have run stay due and are picked up once by the next tick.
+ */
+export function createScheduler(options: SchedulerOptions) {
+  const { store, run, intervalMs = 60_000, lockPath = DEFAULT_RUN_LOCK_PATH, onLog } = options;
+  const now = options.now ?? (() => new Date());
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+
+  async function tick(): Promise<void> {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      store.reload();
+      const due = store.list().filter((s) => isScheduleDue(s, now()));
+      if (due.length === 0) {
+        return;
+      }
+
+      const release = acquireRunLock(lockPath);
+      if (!release) {
+        onLog?.("Another scrape is running; will retry on the next check.");
+        return;
+      }
+
+      try {
+        for (const schedule of due) {
+          const startedAt = now();
+          onLog?.(`Running schedule ${schedule.id} (${schedule.cron})`);
+          let error: string | undefined;
+          try {
+            await run(schedule);
+          } catch (e) {
+            error = e instanceof Error ? e.message : String(e);
+            onLog?.(`Schedule ${schedule.id} failed: ${error}`);
+          }
+          // Re-read so edits made during the run aren't overwritten
+          store.reload();
+          store.recordRun(schedule.id, startedAt, error);
+          store.save();
+        }
+      } finally {
+        release();
+      }
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    tick,
+
+    start() {
+      if (timer) return;
+      const safeTick = () =>
+        tick().catch((error) => {
+          onLog?.(`Scheduler error: ${error instanceof Error ? error.message : String(error)}`);
+        });
+      timer = setInterval(safeTick, intervalMs);
+      safeTick();
+    },
+
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+
+    isRunning(): boolean {
+      return running;
+    },
+  };
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>;
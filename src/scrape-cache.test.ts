@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync, utimesSync, existsSync, readdirSync } from "node:fs";
+import { join, basename } from "node:path";
+import { tmpdir } from "node:os";
+import { saveSnapshot, listSnapshots, loadSnapshot } from "./scrape-cache.js";
+import type { ScrapeResult } from "./scraper.js";
+import type { EnrichedTransaction } from "./transformer.js";
+
+describe("scrape cache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "scrape-cache-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("saves only successful accounts", () => {
+    const path = saveSnapshot(
+      [
+        { accountName: "Max", success: true, transactions: [makeTxn(-100)] },
+        { accountName: "Leumi", success: false, transactions: [], error: "Login failed" },
+      ],
+      dir,
+      new Date("2024-03-15T10:00:00.000Z")
+    );
+
+    expect(path).toBe(join(dir, "scrape-2024-03-15T10-00-00-000Z.json"));
+
+    const snapshot = loadSnapshot(basename(path!), dir);
+    expect(snapshot.createdAt).toBe("2024-03-15T10:00:00.000Z");
+    expect(snapshot.results).toHaveLength(1);
+    expect(snapshot.results[0].accountName).toBe("Max");
+    expect(snapshot.results[0].success).toBe(true);
+    expect(snapshot.results[0].transactions[0].chargedAmount).toBe(-100);
+  });
+
+  it("skips the snapshot when no account succeeded", () => {
+    const results: ScrapeResult[] = [{ accountName: "Leumi", success: false, transactions: [] }];
+    expect(saveSnapshot(results, dir)).toBeNull();
+    expect(readdirSync(dir)).toHaveLength(0);
+  });
+
+  it("lists snapshots newest first and loads them by name or as latest", () => {
+    const results: ScrapeResult[] = [{ accountName: "Max", success: true, transactions: [] }];
+    const older = saveSnapshot(results, dir, new Date("2024-03-14T10:00:00.000Z"))!;
+    const newer = saveSnapshot(results, dir, new Date("2024-03-15T10:00:00.000Z"))!;
+
+    expect(listSnapshots(dir)).toEqual([basename(newer), basename(older)]);
+    expect(loadSnapshot("latest", dir).path).toBe(newer);
+    expect(loadSnapshot(basename(older), dir).path).toBe(older);
+    expect(loadSnapshot("scrape-2024-03-14T10-00-00-000Z", dir).path).toBe(older);
+  });
+
+  it("deletes snapshots past the retention period", () => {
+    const stale = join(dir, "scrape-2020-01-01T00-00-00-000Z.json");
+    writeFileSync(stale, "{}");
+    const longAgo = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
+    utimesSync(stale, longAgo, longAgo);
+
+    saveSnapshot([{ accountName: "Max", success: true, transactions: [] }], dir);
+
+    expect(existsSync(stale)).toBe(false);
+    expect(listSnapshots(dir)).toHaveLength(1);
+  });
+
+  it("throws for missing snapshots and unsupported files", () => {
+    expect(() => loadSnapshot("latest", dir)).toThrow("No scrape snapshots");
+    expect(() => loadSnapshot("scrape-nope.json", dir)).toThrow("Snapshot not found");
+
+    writeFileSync(join(dir, "scrape-bad.json"), JSON.stringify({ version: 2, results: [] }));
+    expect(() => loadSnapshot("scrape-bad.json", dir)).toThrow("Unsupported snapshot format");
+  });
+
+  it("only loads snapshots by name from the cache directory", () => {
+    const path = saveSnapshot([{ accountName: "Max", success: true, transactions: [] }], dir)!;
+    writeFileSync(join(dir, "scrape-text.json"), "secret file contents");
+
+    expect(() => loadSnapshot(path, dir)).toThrow("Invalid snapshot name");
+    expect(() => loadSnapshot("../scrape-x.json", dir)).toThrow("Invalid snapshot name");
+    expect(() => loadSnapshot("/etc/passwd", dir)).toThrow("Invalid snapshot name");
+    expect(() => loadSnapshot("scrape-text.json", dir)).toThrow(/^Unsupported snapshot format: scrape-text\.json$/);
+  });
+});
+
+function makeTxn(amount: number): EnrichedTransaction {
+  return {
+    date: "2024-03-15T00:00:00+02:00",
+    processedDate: "2024-03-15T00:00:00+02:00",
+    originalAmount: Math.abs(amount),
+    originalCurrency: "ILS",
+    chargedAmount: amount,
+    description: "Test Transaction",
+    status: "completed" as any,
+    type: "normal" as any,
+  };
+}
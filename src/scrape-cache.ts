@@ -0,0 +1,117 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+import { cleanOldFiles } from "./output.js";
+import type { ScrapeResult } from "./scraper.js";
+
+export const DEFAULT_CACHE_DIR = "./data/scrape-cache";
+const CACHE_RETENTION_DAYS = 30;
+
+const SNAPSHOT_PREFIX = "scrape-";
+const SNAPSHOT_SUFFIX = ".json";
+
+/**
+ * On-disk format: raw transactions of the successful accounts of one scrape run
+ */
+interface SnapshotFile {
+  version: 1;
+  createdAt: string;
+  results: Array<Pick<ScrapeResult, "accountName" | "transactions">>;
+}
+
+export interface ScrapeSnapshot {
+  path: string;
+  createdAt: string;
+  /** Successful results, as the scraper returned them */
+  results: ScrapeResult[];
+}
+
+function getCacheDir(): string {
+  return process.env.SCRAPE_CACHE_DIR || DEFAULT_CACHE_DIR;
+}
+
+function isSnapshotFile(filename: string): boolean {
+  return filename.startsWith(SNAPSHOT_PREFIX) && filename.endsWith(SNAPSHOT_SUFFIX);
+}
+
+/**
+ * Save the raw transactions of successful accounts, pruning old snapshots first.
+ * Returns the snapshot path, or null when no account succeeded.
+ */
+export function saveSnapshot(
+  results: ScrapeResult[],
+  dir: string = getCacheDir(),
+  now: Date = new Date()
+): string | null {
+  const successful = results.filter((r) => r.success);
+  if (successful.length === 0) {
+    return null;
+  }
+
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  cleanOldFiles(dir, CACHE_RETENTION_DAYS, isSnapshotFile);
+
+  const file: SnapshotFile = {
+    version: 1,
+    createdAt: now.toISOString(),
+    results: successful.map((r) => ({ accountName: r.accountName, transactions: r.transactions })),
+  };
+  const path = join(dir, `${SNAPSHOT_PREFIX}${now.toISOString().replace(/[:.]/g, "-")}${SNAPSHOT_SUFFIX}`);
+  writeFileSync(path, JSON.stringify(file), { encoding: "utf-8", mode: 0o600 });
+  return path;
+}
+
+/**
+ * Snapshot filenames in the cache, newest first.
+ */
+export function listSnapshots(dir: string = getCacheDir()): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir).filter(isSnapshotFile).sort().reverse();
+}
+
+/** Snapshot names accepted by loadSnapshot: a cache filename, with or without .json */
+const SNAPSHOT_NAME = /^scrape-[\w-]+(\.json)?$/;
+
+/**
+ * Load a snapshot by filename in the cache directory, or "latest". Paths are rejected so
+ * only files inside the cache can be read.
+ */
+export function loadSnapshot(ref: string, dir: string = getCacheDir()): ScrapeSnapshot {
+  let name: string;
+  if (ref === "latest") {
+    const [newest] = listSnapshots(dir);
+    if (!newest) {
+      throw new Error(`No scrape snapshots in ${dir}`);
+    }
+    name = newest;
+  } else if (SNAPSHOT_NAME.test(ref)) {
+    name = ref.endsWith(SNAPSHOT_SUFFIX) ? ref : `${ref}${SNAPSHOT_SUFFIX}`;
+  } else {
+    throw new Error(`Invalid snapshot name: ${ref}. Use "latest" or a scrape-*.json name from the cache`);
+  }
+
+  const path = join(dir, name);
+  if (!existsSync(path)) {
+    throw new Error(`Snapshot not found: ${name}`);
+  }
+
+  let parsed: Partial<SnapshotFile>;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<SnapshotFile>;
+  } catch {
+    throw new Error(`Unsupported snapshot format: ${name}`);
+  }
+  if (parsed?.version !== 1 || !Array.isArray(parsed.results)) {
+    throw new Error(`Unsupported snapshot format: ${name}`);
+  }
+
+  return {
+    path,
+    createdAt: parsed.createdAt ?? "",
+    results: parsed.results.map((r) => ({ ...r, success: true })),
+  };
+}
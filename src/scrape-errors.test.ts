@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { classifyScrapeError, errorKindLabel, remediationHint } from "./scrape-errors.js";
+
+describe("classifyScrapeError", () => {
+  it("maps scraper error types", () => {
+    expect(classifyScrapeError("INVALID_PASSWORD")).toBe("credentials");
+    expect(classifyScrapeError("CHANGE_PASSWORD")).toBe("credentials");
+    expect(classifyScrapeError("ACCOUNT_BLOCKED")).toBe("blocked");
+    expect(classifyScrapeError("TIMEOUT")).toBe("timeout");
+  });
+
+  it("tells one-time code problems apart from rejected credentials", () => {
+    expect(classifyScrapeError("INVALID_OTP")).toBe("two-factor");
+    expect(classifyScrapeError("TWO_FACTOR_RETRIEVER_MISSING")).toBe("two-factor");
+    expect(classifyScrapeError("OTP_CODE_MISSING")).toBe("two-factor");
+    expect(remediationHint("two-factor")).toMatch(/scrape this account interactively once/);
+  });
+
+  it("classifies generic errors by message", () => {
+    expect(classifyScrapeError("GENERIC", "GENERIC: net::ERR_NAME_NOT_RESOLVED at https://bank")).toBe("network");
+    expect(classifyScrapeError(undefined, "connect ECONNREFUSED 127.0.0.1:443")).toBe("network");
+    expect(classifyScrapeError("GENERIC", "GENERIC: Error: failed to find element #login")).toBe("site-changed");
+    expect(classifyScrapeError(undefined, "Cannot read properties of undefined (reading 'txns')")).toBe(
+      "site-changed"
+    );
+  });
+
+  it("falls back to unknown", () => {
+    expect(classifyScrapeError("GENERIC", "GENERIC: something odd")).toBe("unknown");
+    expect(classifyScrapeError(undefined)).toBe("unknown");
+  });
+});
+
+describe("errorKindLabel / remediationHint", () => {
+  it("describes every kind", () => {
+    expect(errorKindLabel("credentials")).toBe("credentials rejected");
+    expect(remediationHint("network")).toMatch(/internet connection/);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * What went wrong with a scrape, in terms the user can act on.
+ */
+export type ScrapeErrorKind =
+  | "credentials"
+  | "two-factor"
+  | "blocked"
+  | "timeout"
+  | "site-changed"
+  | "network"
+  | "canceled"
+  | "unknown";
+
+const KIND_INFO: Record<ScrapeErrorKind, { label: string; hint: string }> = {
+  credentials: {
+    label: "credentials rejected",
+    hint: "Check the saved credentials, and log in on the bank's site in case it asks for a password change.",
+  },
+  "two-factor": {
+    label: "one-time code needed",
+    hint: "Enter the SMS code when asked (the GUI waits 5 minutes for it). Scheduled scrapes can't ask, so scrape this account interactively once to save a new token.",
+  },
+  blocked: {
+    label: "account blocked",
+    hint: "The bank blocked the login. Unblock it on the bank's site or by phone before scraping again.",
+  },
+  timeout: {
+    label: "timed out",
+    hint: "The bank's site was too slow. Try again later or with --show-browser to watch the login.",
+  },
+  "site-changed": {
+    label: "bank site changed",
+    hint: "The bank's site no longer matches the scraper. Update israeli-bank-scrapers and rebuild it.",
+  },
+  network: {
+    label: "network error",
+    hint: "Check the internet connection (and VPN or proxy), then try again.",
+  },
+  canceled: {
+    label: "canceled",
+    hint: "The scrape was canceled before this account finished.",
+  },
+  unknown: {
+    label: "failed",
+    hint: "See the audit log and scrape output for details, and try again with --show-browser.",
+  },
+};
+
+/** israeli-bank-scrapers error types with a known meaning */
+const ERROR_TYPE_KINDS: Record<string, ScrapeErrorKind> = {
+  INVALID_PASSWORD: "credentials",
+  CHANGE_PASSWORD: "credentials",
+  INVALID_OTP: "two-factor",
+  TWO_FACTOR_RETRIEVER_MISSING: "two-factor",
+  // No code was entered in time (see resolveOtpToken in scraper.ts)
+  OTP_CODE_MISSING: "two-factor",
+  ACCOUNT_BLOCKED: "blocked",
+  TIMEOUT: "timeout",
+};
+
+const NETWORK_PATTERNS = [
+  /ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|ETIMEDOUT|ENETUNREACH/,
+  /net::ERR_/,
+  /fetch failed/i,
+  /socket hang up/i,
+];
+
+/** Messages puppeteer and the scrapers produce when a page no longer looks as expected */
+const SITE_CHANGED_PATTERNS = [
+  /waiting for selector/i,
+  /no node found for selector/i,
+  /failed to find/i,
+  /cannot read propert(y|ies) of (undefined|null)/i,
+  /unexpected token .* in JSON|is not valid JSON/i,
+];
+
+/**
+ * Classify a failed scrape from the scraper's error type and message.
+ * GENERIC errors and thrown exceptions are classified by their message.
+ */
+export function classifyScrapeError(errorType: string | undefined, message = ""): ScrapeErrorKind {
+  if (errorType && errorType in ERROR_TYPE_KINDS) {
+    return ERROR_TYPE_KINDS[errorType];
+  }
+  if (NETWORK_PATTERNS.some((pattern) => pattern.test(message))) {
+    return "network";
+  }
+  if (SITE_CHANGED_PATTERNS.some((pattern) => pattern.test(message))) {
+    return "site-changed";
+  }
+  return "unknown";
+}
+
+/**
+ * Short description, e.g. "credentials rejected".
+ */
+export function errorKindLabel(kind: ScrapeErrorKind): string {
+  return KIND_INFO[kind]?.label ?? KIND_INFO.unknown.label;
+}
+
+/**
+ * What the user can do about it.
+ */
+export function remediationHint(kind: ScrapeErrorKind): string {
+  return KIND_INFO[kind]?.hint ?? KIND_INFO.unknown.hint;
+}
@@ -0,0 +1,408 @@
+import { basename } from "node:path";
+import {
+  loadConfig,
+  assertRealBankData,
+  loadYnabConfig,
+  loadActualConfig,
+  getOutputDir,
+  getAccountKinds,
+  getAccountInstances,
+} from "./config.js";
+import { scrapeAllAccounts, type ScrapeResult } from "./scraper.js";
+import {
+  transformTransactions,
+  filterAndPartition,
+  calculateSummary,
+  type EnrichedTransaction,
+  type TransformOptions,
+} from "./transformer.js";
+import { toCSV, type CsvDialect, type ToCSVOptions } from "./csv-writer.js";
+import { createAuditLogger } from "./audit-logger.js";
+import { pushToYnab } from "./ynab-api.js";
+import { pushToActual } from "./actual-api.js";
+import { createSeenLedger, filterAlreadyExported } from "./seen-ledger.js";
+import { createScrapeState } from "./scrape-state.js";
+import { loadRules, type Rules } from "./rules.js";
+import { writeExport, saveAuditLog } from "./output.js";
+import { getExporter, type ExportContext } from "./exporters.js";
+import { createVault, getActiveVault } from "./vault.js";
+import { createOtpTokenStore } from "./otp-tokens.js";
+import { saveSnapshot, loadSnapshot } from "./scrape-cache.js";
+import { withRunLock, type Schedule } from "./scheduler.js";
+
+export type ScrapeJobLogger = Pick<Console, "log" | "warn" | "error">;
+
+export interface ScrapeJobOptions {
+  daysBack?: number;
+  showBrowser?: boolean;
+  sinceLast?: boolean;
+  overlapDays?: number;
+  /** Accounts scraped in parallel (default 1) */
+  concurrency?: number;
+  /** Attempts per account for transient failures (default 3) */
+  maxAttempts?: number;
+  /** Scraper provider name (see SCRAPER_PROVIDERS); defaults to SCRAPER_PROVIDER */
+  provider?: string;
+  /** Only scrape these account instances (all enabled accounts when omitted) */
+  accounts?: string[];
+  outputDir?: string;
+  /** Exporter name (default csv, see EXPORTERS) */
+  format?: string;
+  split?: boolean;
+  dryRun?: boolean;
+  ynabPush?: boolean;
+  /** Also push to the Actual Budget server configured in .env */
+  actualPush?: boolean;
+  importIdColumn?: boolean;
+  /** CSV delimiter, date and amount formats, BOM and extra columns */
+  csvDialect?: CsvDialect;
+  onlyNew?: boolean;
+  /** Set by scheduled runs, whose scheduler already holds the run lock */
+  holdsRunLock?: boolean;
+  /** Asks for SMS one-time codes; without it, OTP banks need a saved long-term token */
+  requestOtpCode?: (accountName: string) => Promise<string>;
+  logger?: ScrapeJobLogger;
+}
+
+/** Options that control output, shared by scrape and transform jobs */
+type ExportOptions = Pick<
+  ScrapeJobOptions,
+  | "format"
+  | "split"
+  | "dryRun"
+  | "ynabPush"
+  | "actualPush"
+  | "importIdColumn"
+  | "csvDialect"
+  | "onlyNew"
+>;
+
+export interface TransformJobOptions extends ExportOptions {
+  /** Snapshot name in the cache directory (with or without .json), or "latest" */
+  snapshot: string;
+  outputDir?: string;
+  logger?: ScrapeJobLogger;
+}
+
+export interface ScrapeJobResult {
+  results: ScrapeResult[];
+  /** Files written (empty for dry runs and when nothing was exported) */
+  outputPaths: string[];
+  exportedCount: number;
+  auditLogPath: string;
+  /** Set when --ynab-push was requested and failed; the CSV output is still written */
+  ynabPushError?: string;
+  /** Set when --actual-push was requested and failed; the output files are still written */
+  actualPushError?: string;
+}
+
+/**
+ * Scrape, transform and write output, the way the `scrape` command does.
+ * Shared by the CLI and the scheduler. Throws on configuration errors (bad rules, unknown accounts)
+ * and when another scrape holds the run lock.
+ */
+export async function runScrapeJob(options: ScrapeJobOptions = {}): Promise<ScrapeJobResult> {
+  return options.holdsRunLock
+    ? scrapeAndExport(options)
+    : withRunLock(() => scrapeAndExport(options));
+}
+
+async function scrapeAndExport(options: ScrapeJobOptions): Promise<ScrapeJobResult> {
+  const logger = options.logger ?? console;
+
+  const config = loadConfig({
+    showBrowser: options.showBrowser,
+    daysBack: options.daysBack,
+    sinceLast: options.sinceLast,
+    overlapDays: options.overlapDays,
+    provider: options.provider,
+  });
+
+  for (const warning of config.warnings) {
+    logger.warn(warning);
+  }
+
+  const rules = loadRules();
+
+  // Fixture data stays out of everything that outlives the run
+  const fixtureData = !config.scraperProvider.needsCredentials;
+  if (options.ynabPush) {
+    assertRealBankData(config.scraperProvider, "YNAB");
+  }
+  if (options.actualPush) {
+    assertRealBankData(config.scraperProvider, "Actual Budget");
+  }
+
+  if (options.outputDir) {
+    config.outputDir = options.outputDir;
+  }
+
+  let accounts = config.accounts;
+  if (options.accounts && options.accounts.length > 0) {
+    const selected = options.accounts;
+    const unknown = selected.filter((name) => !config.accounts.some((a) => a.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown accounts: ${unknown.join(", ")}`);
+    }
+    accounts = config.accounts.filter((a) => selected.includes(a.name));
+  }
+
+  const auditLogger = createAuditLogger();
+  const scrapedAt = new Date();
+  const results = await scrapeAllAccounts(
+    accounts,
+    config.startDate,
+    config.showBrowser,
+    (message) => logger.log(message),
+    undefined,
+    {
+      concurrency: options.concurrency,
+      retry: { maxAttempts: options.maxAttempts },
+      otp: {
+        requestCode: options.requestOtpCode,
+        tokens: fixtureData ? undefined : createOtpTokenStore(),
+      },
+      provider: config.scraperProvider,
+    }
+  );
+
+  auditLogger.recordScrapeResults(results);
+
+  const scrapeState = fixtureData ? null : createScrapeState();
+  if (scrapeState) {
+    // Failures are recorded right away; successes only move the watermark once exported
+    scrapeState.recordResults(results.filter((result) => !result.success));
+    scrapeState.save();
+
+    const snapshotPath = saveSnapshot(results);
+    if (snapshotPath) {
+      // Printed by name, which is what transform --from-cache takes
+      logger.log(`\nRaw transactions cached as: ${basename(snapshotPath)}`);
+    }
+  }
+
+  const jobResult = await exportResults(
+    results,
+    auditLogger,
+    rules,
+    config.outputDir,
+    options,
+    logger,
+    !fixtureData
+  );
+
+  if (scrapeState && !options.dryRun) {
+    scrapeState.recordResults(
+      results.filter((result) => result.success),
+      scrapedAt
+    );
+    scrapeState.save();
+  }
+
+  return jobResult;
+}
+
+/**
+ * Transform a cached scrape snapshot and write output, without scraping.
+ * Throws when the snapshot can't be loaded or another scrape holds the run lock.
+ */
+export async function runTransformJob(options: TransformJobOptions): Promise<ScrapeJobResult> {
+  return withRunLock(() => transformAndExport(options));
+}
+
+async function transformAndExport(options: TransformJobOptions): Promise<ScrapeJobResult> {
+  const logger = options.logger ?? console;
+  const snapshot = loadSnapshot(options.snapshot);
+  const rules = loadRules();
+
+  logger.log(`Transforming snapshot ${snapshot.path} (scraped ${snapshot.createdAt})`);
+  for (const result of snapshot.results) {
+    logger.log(`  ${result.accountName}: ${result.transactions.length} transactions`);
+  }
+
+  const auditLogger = createAuditLogger();
+  auditLogger.recordScrapeResults(snapshot.results);
+
+  return exportResults(
+    snapshot.results,
+    auditLogger,
+    rules,
+    options.outputDir ?? getOutputDir(),
+    options,
+    logger
+  );
+}
+
+/**
+ * Filter, transform and write scrape results (shared by live scrapes and cached snapshots).
+ * With recordExports false (fixture data), --only-new doesn't add to the exported ledger.
+ */
+async function exportResults(
+  results: ScrapeResult[],
+  auditLogger: ReturnType<typeof createAuditLogger>,
+  rules: Rules,
+  outputDir: string,
+  options: ExportOptions,
+  logger: ScrapeJobLogger,
+  recordExports = true
+): Promise<ScrapeJobResult> {
+  const allRawTransactions: EnrichedTransaction[] = [];
+  for (const result of results) {
+    if (result.success) {
+      allRawTransactions.push(...result.transactions);
+    }
+  }
+
+  const { kept, skipped } = filterAndPartition(allRawTransactions);
+  for (const { txn, reason } of skipped) {
+    auditLogger.recordSkipped(txn, reason);
+  }
+
+  let allTransactions = kept;
+  const ledger = options.onlyNew ? createSeenLedger() : null;
+  if (ledger) {
+    const { fresh, suppressed } = filterAlreadyExported(kept, ledger);
+    allTransactions = fresh;
+    auditLogger.recordAlreadyExported(suppressed.length);
+    logger.log(`\nSuppressed ${suppressed.length} already-exported transaction(s).`);
+  }
+
+  if (allTransactions.length === 0) {
+    logger.log("\nNo transactions to export.");
+    const auditLogPath = saveAuditLog(auditLogger);
+    return { results, outputPaths: [], exportedCount: 0, auditLogPath };
+  }
+
+  logger.log(`\nTransforming ${allTransactions.length} transactions to YNAB format...`);
+
+  if (options.dryRun) {
+    printDryRunSummary(allTransactions, rules, logger);
+    logger.log("\n[Dry run - no files written]");
+    const auditLogPath = saveAuditLog(auditLogger);
+    return { results, outputPaths: [], exportedCount: 0, auditLogPath };
+  }
+
+  const exporter = getExporter(options.format);
+  const csvOptions: ToCSVOptions = {
+    ...options.csvDialect,
+    includeCategory: rules.categoryRules.length > 0,
+    includeImportId: options.importIdColumn,
+  };
+  const context: ExportContext = {
+    rules,
+    accountKinds: getAccountKinds(),
+    instances: getAccountInstances(),
+    csvOptions,
+    transactions: allTransactions,
+  };
+
+  const exportedRows = transformTransactions(allTransactions, rules);
+  auditLogger.recordInstallmentDating(allTransactions, rules);
+  const outputPaths = writeExport(exporter, exportedRows, context, outputDir, options.split);
+
+  logger.log(
+    `\nWrote ${exportedRows.length} transactions to ${outputPaths.length} ${exporter.label} file(s):`
+  );
+  for (const path of outputPaths) {
+    logger.log(`  ${path}`);
+  }
+  auditLogger.recordOutput(exportedRows, outputPaths.join(", "), toCSV(exportedRows, csvOptions));
+
+  if (ledger && recordExports) {
+    ledger.markExported(allTransactions);
+    ledger.save();
+  }
+
+  let ynabPushError: string | undefined;
+  if (options.ynabPush) {
+    try {
+      const ynabConfig = loadYnabConfig();
+      logger.log(`\nPushing ${exportedRows.length} transactions to YNAB...`);
+      const pushResult = await pushToYnab(exportedRows, ynabConfig);
+      logger.log(`  Created: ${pushResult.createdCount}`);
+      logger.log(`  Skipped (already imported): ${pushResult.duplicateImportIds.length}`);
+      auditLogger.recordYnabPush(pushResult);
+    } catch (error) {
+      ynabPushError = error instanceof Error ? error.message : String(error);
+      logger.error(`\nYNAB push failed: ${ynabPushError}`);
+    }
+  }
+
+  let actualPushError: string | undefined;
+  if (options.actualPush) {
+    try {
+      const actualConfig = loadActualConfig();
+      logger.log(`\nPushing ${exportedRows.length} transactions to Actual Budget...`);
+      const pushResult = await pushToActual(exportedRows, actualConfig);
+      logger.log(`  Added: ${pushResult.addedCount}`);
+      logger.log(`  Matched existing: ${pushResult.updatedCount}`);
+      auditLogger.recordActualPush(pushResult);
+    } catch (error) {
+      actualPushError = error instanceof Error ? error.message : String(error);
+      logger.error(`\nActual push failed: ${actualPushError}`);
+    }
+  }
+
+  const auditLogPath = saveAuditLog(auditLogger);
+  logger.log(`\nAudit log saved to: ${auditLogPath}`);
+
+  return {
+    results,
+    outputPaths,
+    exportedCount: exportedRows.length,
+    auditLogPath,
+    ynabPushError,
+    actualPushError,
+  };
+}
+
+/**
+ * Run one schedule. Throws when the vault is locked, an account fails or the YNAB push fails,
+ * so the scheduler records the run as failed. The scheduler holds the run lock while it runs.
+ */
+export async function runScheduledScrape(
+  schedule: Schedule,
+  logger?: ScrapeJobLogger
+): Promise<void> {
+  if (createVault().exists() && !getActiveVault()?.isUnlocked()) {
+    throw new Error("Vault is locked");
+  }
+
+  const job = await runScrapeJob({
+    ...schedule.options,
+    accounts: schedule.accounts,
+    logger,
+    holdsRunLock: true,
+  });
+
+  const failed = job.results.filter((r) => !r.success);
+  if (failed.length > 0) {
+    throw new Error(`Failed accounts: ${failed.map((r) => r.accountName).join(", ")}`);
+  }
+  if (job.ynabPushError) {
+    throw new Error(`YNAB push failed: ${job.ynabPushError}`);
+  }
+}
+
+function printDryRunSummary(
+  transactions: EnrichedTransaction[],
+  options: TransformOptions,
+  logger: ScrapeJobLogger
+) {
+  const summary = calculateSummary(transactions, options);
+
+  logger.log("\n--- Dry Run Summary ---");
+
+  for (const [account, data] of summary.byAccount) {
+    logger.log(`\n${account}: ${data.count} transactions`);
+    logger.log(`  Outflow: ₪${data.outflow.toFixed(2)}`);
+    logger.log(`  Inflow: ₪${data.inflow.toFixed(2)}`);
+    logger.log(`  Uncategorized: ${data.uncategorized}`);
+  }
+
+  logger.log("\n--- Totals ---");
+  logger.log(`Transactions: ${transactions.length}`);
+  logger.log(`Outflow: ₪${summary.totalOutflow.toFixed(2)}`);
+  logger.log(`Inflow: ₪${summary.totalInflow.toFixed(2)}`);
+  logger.log(`Uncategorized: ${summary.totalUncategorized}`);
+}
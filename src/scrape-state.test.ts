@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createScrapeState } from "./scrape-state.js";
+import type { ScrapeResult } from "./scraper.js";
+
+describe("createScrapeState", () => {
+  let dir: string;
+  let statePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "scrape-state-"));
+    statePath = join(dir, "data", "scrape-state.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("has no watermark for accounts never scraped", () => {
+    const state = createScrapeState(statePath);
+    expect(state.getLastSuccess("Max")).toBeUndefined();
+  });
+
+  it("records successful accounts only", () => {
+    const state = createScrapeState(statePath);
+    const scrapedAt = new Date("2024-03-20T08:00:00Z");
+    const results: ScrapeResult[] = [
+      { accountName: "Max", success: true, transactions: [] },
+      { accountName: "Leumi", success: false, transactions: [], error: "Timeout" },
+    ];
+
+    state.recordResults(results, scrapedAt);
+
+    expect(state.getLastSuccess("Max")).toEqual(scrapedAt);
+    expect(state.getLastSuccess("Leumi")).toBeUndefined();
+  });
+
+  it("keeps the previous watermark when an account fails", () => {
+    const state = createScrapeState(statePath);
+    const first = new Date("2024-03-20T08:00:00Z");
+    state.recordResults([{ accountName: "Max", success: true, transactions: [] }], first);
+    state.recordResults(
+      [{ accountName: "Max", success: false, transactions: [], error: "Timeout" }],
+      new Date("2024-03-25T08:00:00Z")
+    );
+
+    expect(state.getLastSuccess("Max")).toEqual(first);
+  });
+
+  it("records the last failure until the next success", () => {
+    const state = createScrapeState(statePath);
+    const failedAt = new Date("2024-03-20T08:00:00Z");
+    state.recordResults(
+      [
+        {
+          accountName: "Max",
+          success: false,
+          transactions: [],
+          error: "INVALID_PASSWORD: bad",
+          errorKind: "credentials",
+        },
+      ],
+      failedAt
+    );
+
+    expect(state.getLastFailure("Max")).toEqual({
+      at: failedAt.toISOString(),
+      errorKind: "credentials",
+      error: "INVALID_PASSWORD: bad",
+    });
+
+    state.recordResults([{ accountName: "Max", success: true, transactions: [] }]);
+    expect(state.getLastFailure("Max")).toBeUndefined();
+  });
+
+  it("ignores canceled accounts", () => {
+    const state = createScrapeState(statePath);
+    state.recordResults([
+      { accountName: "Max", success: false, transactions: [], error: "Canceled", errorKind: "canceled" },
+    ]);
+
+    expect(state.getLastFailure("Max")).toBeUndefined();
+  });
+
+  it("persists watermarks after save", () => {
+    const scrapedAt = new Date("2024-03-20T08:00:00Z");
+    const state = createScrapeState(statePath);
+    state.recordResults([{ accountName: "Max", success: true, transactions: [] }], scrapedAt);
+    state.save();
+
+    expect(createScrapeState(statePath).getLastSuccess("Max")).toEqual(scrapedAt);
+  });
+});
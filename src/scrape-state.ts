@@ -0,0 +1,86 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ScrapeResult } from "./scraper.js";
+import type { ScrapeErrorKind } from "./scrape-errors.js";
+
+export const DEFAULT_SCRAPE_STATE_PATH = "./data/scrape-state.json";
+
+export interface AccountScrapeState {
+  /** ISO timestamp of the last successful scrape */
+  lastSuccessAt?: string;
+  /** Set when the most recent scrape failed; cleared by the next success */
+  lastFailure?: {
+    at: string;
+    errorKind: ScrapeErrorKind;
+    error: string;
+  };
+}
+
+interface ScrapeStateFile {
+  version: 1;
+  accounts: Record<string, AccountScrapeState>;
+}
+
+/**
+ * Per-account scrape watermarks, persisted between runs.
+ * Changes are kept in memory until save() is called.
+ */
+export function createScrapeState(path: string = DEFAULT_SCRAPE_STATE_PATH) {
+  const accounts = readStateFile(path);
+
+  return {
+    getLastSuccess(accountName: string): Date | undefined {
+      const value = accounts[accountName]?.lastSuccessAt;
+      return value ? new Date(value) : undefined;
+    },
+
+    getLastFailure(accountName: string): AccountScrapeState["lastFailure"] {
+      return accounts[accountName]?.lastFailure;
+    },
+
+    recordResults(results: ScrapeResult[], scrapedAt: Date = new Date()) {
+      for (const result of results) {
+        if (result.success) {
+          const state = { ...accounts[result.accountName], lastSuccessAt: scrapedAt.toISOString() };
+          delete state.lastFailure;
+          accounts[result.accountName] = state;
+          continue;
+        }
+        // A canceled scrape says nothing about the account
+        if (result.errorKind === "canceled") continue;
+        accounts[result.accountName] = {
+          ...accounts[result.accountName],
+          lastFailure: {
+            at: scrapedAt.toISOString(),
+            errorKind: result.errorKind ?? "unknown",
+            error: result.error ?? "",
+          },
+        };
+      }
+    },
+
+    getAccounts(): Record<string, AccountScrapeState> {
+      return accounts;
+    },
+
+    save() {
+      const dir = dirname(path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      const file: ScrapeStateFile = { version: 1, accounts };
+      writeFileSync(path, JSON.stringify(file, null, 2), "utf-8");
+    },
+  };
+}
+
+export type ScrapeState = ReturnType<typeof createScrapeState>;
+
+function readStateFile(path: string): Record<string, AccountScrapeState> {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<ScrapeStateFile>;
+  return parsed.accounts ?? {};
+}
@@ -0,0 +1,364 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { AccountConfig } from "./config.js";
+
+interface FakeScrape {
+  resolve: (result: unknown) => void;
+  terminated: boolean;
+}
+
+// companyId -> pending scrapes, resolved by the test
+const pending = new Map<string, FakeScrape>();
+// companyId -> credentials of the latest scrape
+const scrapedWith = new Map<string, Record<string, string>>();
+const otpCalls: string[] = [];
+let active = 0;
+let maxActive = 0;
+
+vi.mock("israeli-bank-scrapers", () => ({
+  createScraper: (options: { companyId: string }) => {
+    const fake: FakeScrape = { resolve: () => {}, terminated: false };
+    return {
+      onProgress: () => {},
+      triggerTwoFactorAuth: async (phoneNumber: string) => {
+        otpCalls.push(`trigger:${phoneNumber}`);
+        return { success: true };
+      },
+      getLongTermTwoFactorToken: async (code: string) => {
+        otpCalls.push(`code:${code}`);
+        return { success: true, longTermTwoFactorAuthToken: `token-for-${code}` };
+      },
+      scrape: (credentials: Record<string, string>) => {
+        scrapedWith.set(options.companyId, credentials);
+        active++;
+        maxActive = Math.max(maxActive, active);
+        return new Promise((resolve) => {
+          fake.resolve = (result) => {
+            active--;
+            resolve(result);
+          };
+          pending.set(options.companyId, fake);
+        });
+      },
+      terminate: async () => {
+        fake.terminated = true;
+        fake.resolve({ success: false, errorType: "GENERIC", errorMessage: "terminated" });
+      },
+    };
+  },
+}));
+
+const { createOtpTokenStore } = await import("./otp-tokens.js");
+const { scrapeAllAccounts, validateConcurrency, isRetryableError, backoffDelay, DEFAULT_RETRY_POLICY } =
+  await import("./scraper.js");
+
+const makeAccount = (name: string): AccountConfig => ({
+  name,
+  bankName: name,
+  companyId: name.toLowerCase() as AccountConfig["companyId"],
+  credentials: {},
+  enabled: true,
+});
+
+const success = (count: number) => ({
+  success: true,
+  accounts: [
+    {
+      accountNumber: "1234",
+      txns: Array.from({ length: count }, () => ({ chargedAmount: -10 })),
+    },
+  ],
+});
+
+const failure = (errorType: string) => ({ success: false, errorType, errorMessage: "failed" });
+
+/** Let queued microtasks (worker pickups) run */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/** Resolve the account's current scrape, then wait for the next attempt (if any) to start */
+const settle = async (companyId: string, result: unknown) => {
+  pending.get(companyId)!.resolve(result);
+  await new Promise((resolve) => setTimeout(resolve, 5));
+};
+
+describe("validateConcurrency", () => {
+  it("defaults to 1", () => {
+    expect(validateConcurrency(undefined)).toBe(1);
+  });
+
+  it("parses numeric strings", () => {
+    expect(validateConcurrency("3")).toBe(3);
+  });
+
+  it("rejects zero and non-numbers", () => {
+    expect(() => validateConcurrency("0")).toThrow("Invalid concurrency value");
+    expect(() => validateConcurrency("abc")).toThrow("Invalid concurrency value");
+  });
+});
+
+describe("scrapeAllAccounts", () => {
+  const accounts = ["A", "B", "C"].map(makeAccount);
+
+  beforeEach(() => {
+    pending.clear();
+    active = 0;
+    maxActive = 0;
+  });
+
+  it("never runs more scrapes than the concurrency limit", async () => {
+    const run = scrapeAllAccounts(accounts, new Date("2024-01-01"), false, undefined, undefined, {
+      concurrency: 2,
+    });
+
+    await flush();
+    expect([...pending.keys()]).toEqual(["a", "b"]);
+
+    pending.get("a")!.resolve(success(1));
+    await flush();
+    expect(pending.has("c")).toBe(true);
+
+    pending.get("b")!.resolve(success(1));
+    pending.get("c")!.resolve(success(1));
+    await run;
+
+    expect(maxActive).toBe(2);
+  });
+
+  it("returns results in account order regardless of completion order", async () => {
+    const run = scrapeAllAccounts(accounts, new Date("2024-01-01"), false, undefined, undefined, {
+      concurrency: 3,
+    });
+
+    await flush();
+    pending.get("c")!.resolve(success(3));
+    pending.get("a")!.resolve(success(1));
+    pending.get("b")!.resolve(success(2));
+    const results = await run;
+
+    expect(results.map((r) => r.accountName)).toEqual(["A", "B", "C"]);
+    expect(results.map((r) => r.transactions.length)).toEqual([1, 2, 3]);
+  });
+
+  it("tags per-account progress messages with the account name", async () => {
+    const messages: Array<[string, string | undefined]> = [];
+    const run = scrapeAllAccounts(
+      [makeAccount("A")],
+      new Date("2024-01-01"),
+      false,
+      (message, accountName) => messages.push([message, accountName])
+    );
+
+    await flush();
+    pending.get("a")!.resolve(success(2));
+    await run;
+
+    expect(messages).toContainEqual(["\nScraping A...", "A"]);
+    expect(messages).toContainEqual(["  [A] Total: 2 transactions", "A"]);
+    expect(messages).toContainEqual(["Successful: 1/1 accounts", undefined]);
+  });
+
+  it("cancels in-flight accounts and skips queued ones on abort", async () => {
+    const controller = new AbortController();
+    const run = scrapeAllAccounts(accounts, new Date("2024-01-01"), false, undefined, controller.signal, {
+      concurrency: 2,
+    });
+
+    await flush();
+    controller.abort();
+    const results = await run;
+
+    expect(results.map((r) => [r.accountName, r.error])).toEqual([
+      ["A", "Canceled"],
+      ["B", "Canceled"],
+    ]);
+    expect(pending.get("a")!.terminated).toBe(true);
+    expect(pending.has("c")).toBe(false);
+  });
+});
+
+describe("retry policy", () => {
+  it("retries only transient error types", () => {
+    expect(isRetryableError("TIMEOUT")).toBe(true);
+    expect(isRetryableError("GENERIC")).toBe(true);
+    expect(isRetryableError(undefined)).toBe(true);
+    expect(isRetryableError("INVALID_PASSWORD")).toBe(false);
+    expect(isRetryableError("CHANGE_PASSWORD")).toBe(false);
+    expect(isRetryableError("ACCOUNT_BLOCKED")).toBe(false);
+  });
+
+  it("doubles the delay up to the maximum", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, policy))).toEqual([1000, 2000, 4000, 5000]);
+  });
+});
+
+describe("scrapeAllAccounts retries", () => {
+  const retry = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+  beforeEach(() => {
+    pending.clear();
+  });
+
+  it("retries a timeout and records every attempt", async () => {
+    const run = scrapeAllAccounts([makeAccount("A")], new Date("2024-01-01"), false, undefined, undefined, {
+      retry,
+    });
+
+    await flush();
+    await settle("a", failure("TIMEOUT"));
+    await settle("a", success(2));
+    const [result] = await run;
+
+    expect(result.success).toBe(true);
+    expect(result.transactions).toHaveLength(2);
+    expect(result.attempts?.map((a) => [a.attempt, a.success, a.errorType])).toEqual([
+      [1, false, "TIMEOUT"],
+      [2, true, undefined],
+    ]);
+  });
+
+  it("does not retry rejected credentials", async () => {
+    const run = scrapeAllAccounts([makeAccount("A")], new Date("2024-01-01"), false, undefined, undefined, {
+      retry,
+    });
+
+    await flush();
+    await settle("a", failure("INVALID_PASSWORD"));
+    const [result] = await run;
+
+    expect(result.success).toBe(false);
+    expect(result.errorType).toBe("INVALID_PASSWORD");
+    expect(result.attempts).toHaveLength(1);
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    const run = scrapeAllAccounts([makeAccount("A")], new Date("2024-01-01"), false, undefined, undefined, {
+      retry,
+    });
+
+    await flush();
+    await settle("a", failure("GENERIC"));
+    await settle("a", failure("TIMEOUT"));
+    await settle("a", failure("TIMEOUT"));
+    const [result] = await run;
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("TIMEOUT: failed");
+    expect(result.attempts).toHaveLength(3);
+  });
+});
+
+describe("scrapeAllAccounts with one-time codes", () => {
+  const otpAccount: AccountConfig = {
+    ...makeAccount("Z"),
+    credentials: { email: "a@b.c", password: "secret", phoneNumber: "0501234567" },
+    otp: true,
+  };
+  let dir: string;
+  let tokens: ReturnType<typeof createOtpTokenStore>;
+
+  beforeEach(() => {
+    pending.clear();
+    scrapedWith.clear();
+    otpCalls.length = 0;
+    dir = mkdtempSync(join(tmpdir(), "scraper-otp-"));
+    tokens = createOtpTokenStore(join(dir, "otp-tokens.json"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("asks for a code, saves the long-term token and scrapes with it", async () => {
+    const requestCode = vi.fn(async () => "123456");
+    const run = scrapeAllAccounts([otpAccount], new Date("2024-01-01"), false, undefined, undefined, {
+      otp: { requestCode, tokens },
+    });
+
+    await flush();
+    pending.get("z")!.resolve(success(1));
+    const [result] = await run;
+
+    expect(result.success).toBe(true);
+    expect(requestCode).toHaveBeenCalledWith("Z");
+    expect(otpCalls).toEqual(["trigger:0501234567", "code:123456"]);
+    expect(scrapedWith.get("z")?.otpLongTermToken).toBe("token-for-123456");
+    expect(createOtpTokenStore(join(dir, "otp-tokens.json")).get("Z")).toBe("token-for-123456");
+  });
+
+  it("reuses a saved token without asking", async () => {
+    tokens.set("Z", "saved-token");
+    const requestCode = vi.fn(async () => "123456");
+    const run = scrapeAllAccounts([otpAccount], new Date("2024-01-01"), false, undefined, undefined, {
+      otp: { requestCode, tokens },
+    });
+
+    await flush();
+    pending.get("z")!.resolve(success(1));
+    await run;
+
+    expect(requestCode).not.toHaveBeenCalled();
+    expect(scrapedWith.get("z")?.otpLongTermToken).toBe("saved-token");
+  });
+
+  it("fails without retrying when the code request is rejected", async () => {
+    const requestCode = vi.fn(async () => {
+      throw new Error("No one-time code entered for Z");
+    });
+    const [result] = await scrapeAllAccounts([otpAccount], new Date("2024-01-01"), false, undefined, undefined, {
+      otp: { requestCode, tokens },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errorType).toBe("OTP_CODE_MISSING");
+    expect(result.error).toContain("No one-time code entered for Z");
+    expect(result.attempts).toHaveLength(1);
+  });
+
+  it("keeps a saved token when the scrape fails for another reason", async () => {
+    tokens.set("Z", "saved-token");
+    tokens.save();
+    const run = scrapeAllAccounts([otpAccount], new Date("2024-01-01"), false, undefined, undefined, {
+      otp: { tokens },
+      retry: { maxAttempts: 1 },
+    });
+
+    await flush();
+    pending.get("z")!.resolve(failure("GENERIC"));
+    await run;
+
+    expect(createOtpTokenStore(join(dir, "otp-tokens.json")).get("Z")).toBe("saved-token");
+  });
+
+  it.each([
+    ["INVALID_PASSWORD", "bad password"],
+    ["INVALID_OTP", "bad code"],
+    ["GENERIC", "Invalid otpLongTermToken"],
+  ])("drops a saved token rejected with %s", async (errorType, errorMessage) => {
+    tokens.set("Z", "saved-token");
+    tokens.save();
+    const run = scrapeAllAccounts([otpAccount], new Date("2024-01-01"), false, undefined, undefined, {
+      otp: { tokens },
+      retry: { maxAttempts: 1 },
+    });
+
+    await flush();
+    pending.get("z")!.resolve({ success: false, errorType, errorMessage });
+    await run;
+
+    expect(createOtpTokenStore(join(dir, "otp-tokens.json")).get("Z")).toBeUndefined();
+  });
+
+  it("fails without retrying when no code can be requested", async () => {
+    const [result] = await scrapeAllAccounts([otpAccount], new Date("2024-01-01"), false, undefined, undefined, {
+      otp: { tokens },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errorType).toBe("TWO_FACTOR_RETRIEVER_MISSING");
+    expect(result.attempts).toHaveLength(1);
+    expect(pending.has("z")).toBe(false);
+  });
+});
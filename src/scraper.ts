@@ -1,25 +1,357 @@
 import { createScraper, type ScraperOptions } from "israeli-bank-scrapers";
 import type { AccountConfig } from "./config.js";
-import type { EnrichedTransaction } from "./transformer.js";
+import { numberIdenticalCharges, type EnrichedTransaction } from "./transformer.js";
+import type { OtpTokenStore } from "./otp-tokens.js";
+import { createMockProvider, loadMockFixture } from "./mock-scraper.js";
+import { classifyScrapeError, remediationHint, type ScrapeErrorKind } from "./scrape-errors.js";
+
+export interface ScrapeAttempt {
+  /** 1-based attempt number */
+  attempt: number;
+  startedAt: string;
+  success: boolean;
+  /** Scraper error type (e.g. TIMEOUT); unset for thrown exceptions */
+  errorType?: string;
+  error?: string;
+}
 
 export interface ScrapeResult {
   accountName: string;
   success: boolean;
   transactions: EnrichedTransaction[];
   error?: string;
+  /** Error type of the last attempt, when it failed */
+  errorType?: string;
+  errorKind?: ScrapeErrorKind;
+  /** Every attempt made, in order */
+  attempts?: ScrapeAttempt[];
+}
+
+export interface RetryPolicy {
+  /** Total attempts per account, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for each further retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Progress callback. Per-account messages carry the account name so parallel
+ * scrapes can be told apart.
+ */
+export type ProgressCallback = (message: string, accountName?: string) => void;
+
+/**
+ * Two-factor support for banks that log in with an SMS one-time code.
+ */
+export interface OtpHandler {
+  /** Ask the user for the code sent to the account's phone. Omit when nobody can answer (scheduled runs). */
+  requestCode?: (accountName: string) => Promise<string>;
+  /** Long-term tokens from earlier logins; new tokens are saved here */
+  tokens?: OtpTokenStore;
+}
+
+type ErrorResult = { success: false; errorType?: string; errorMessage?: string };
+
+/**
+ * The part of an israeli-bank-scrapers scraper this module uses. Providers return
+ * real scrapers or stand-ins with the same behavior.
+ */
+export interface BankScraper {
+  onProgress(func: (companyId: string, payload: { type: string }) => void): void;
+  scrape(credentials: Record<string, string>): Promise<
+    | { success: true; accounts?: Array<{ accountNumber: string; txns: EnrichedTransaction[] }> }
+    | ErrorResult
+  >;
+  triggerTwoFactorAuth(phoneNumber: string): Promise<{ success: true } | ErrorResult>;
+  getLongTermTwoFactorToken(
+    otpCode: string
+  ): Promise<{ success: true; longTermTwoFactorAuthToken: string } | ErrorResult>;
+  /** Closes the browser; only browser-based scrapers have it */
+  terminate?(success: boolean): Promise<void>;
 }
 
 /**
- * Scrape a single account
+ * Where scrapers come from: the real banks, or fixture data for demos and tests.
+ */
+export interface ScraperProvider {
+  name: string;
+  /** Accounts without credentials can't be scraped (false for the mock provider) */
+  needsCredentials: boolean;
+  createScraper(account: AccountConfig, options: ScraperOptions): BankScraper;
+}
+
+export const SCRAPER_PROVIDERS = ["israeli-bank-scrapers", "mock"] as const;
+
+const bankScrapersProvider: ScraperProvider = {
+  name: "israeli-bank-scrapers",
+  needsCredentials: true,
+  createScraper: (_account, options) => createScraper(options) as BankScraper,
+};
+
+/**
+ * Resolve a provider by name (default: the real bank scrapers).
+ * The mock provider reads its fixture from MOCK_SCRAPER_FIXTURE, or uses built-in demo data.
+ */
+export function getScraperProvider(name?: string): ScraperProvider {
+  if (!name || name === "israeli-bank-scrapers") {
+    return bankScrapersProvider;
+  }
+  if (name === "mock") {
+    return createMockProvider(loadMockFixture(process.env.MOCK_SCRAPER_FIXTURE));
+  }
+  throw new Error(`Unknown scraper provider: ${name}. Use one of: ${SCRAPER_PROVIDERS.join(", ")}`);
+}
+
+export interface ScrapeAccountOptions {
+  retry?: Partial<RetryPolicy>;
+  otp?: OtpHandler;
+  /** Defaults to the real bank scrapers */
+  provider?: ScraperProvider;
+}
+
+export interface ScrapeAllOptions extends ScrapeAccountOptions {
+  /** Maximum number of accounts scraped at the same time (default 1) */
+  concurrency?: number;
+}
+
+const DEFAULT_CONCURRENCY = 1;
+const CANCELED_ERROR = "Canceled";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 5_000,
+  maxDelayMs: 60_000,
+};
+
+/**
+ * Error types worth another attempt. Credential and account problems
+ * (INVALID_PASSWORD, CHANGE_PASSWORD, ACCOUNT_BLOCKED, ...) fail the same way every time.
+ */
+const RETRYABLE_ERROR_TYPES = new Set(["TIMEOUT", "GENERIC"]);
+
+/**
+ * Failures that mean the bank rejected the login or the saved long-term OTP token, so
+ * the token is dropped and the next scrape asks for a new code. Timeouts and site
+ * errors keep it.
+ */
+const TOKEN_REJECTED_ERROR_TYPES = new Set(["INVALID_PASSWORD", "INVALID_OTP"]);
+const TOKEN_REJECTED_MESSAGE = /otpLongTermToken|token (has )?expired|expired token/i;
+
+function isTokenRejected(errorType?: string, message = ""): boolean {
+  return (
+    (errorType !== undefined && TOKEN_REJECTED_ERROR_TYPES.has(errorType)) ||
+    TOKEN_REJECTED_MESSAGE.test(message)
+  );
+}
+
+function parsePositiveInt(value: unknown, label: string, fallback: number): number {
+  if (value === undefined || value === null) {
+    return fallback;
+  }
+
+  const num = typeof value === "string" ? parseInt(value, 10) : Number(value);
+
+  if (isNaN(num) || num < 1) {
+    throw new Error(`Invalid ${label} value: ${String(value)}. Must be a positive number.`);
+  }
+
+  return num;
+}
+
+/**
+ * Validate and parse the concurrency option
+ */
+export function validateConcurrency(value: unknown): number {
+  return parsePositiveInt(value, "concurrency", DEFAULT_CONCURRENCY);
+}
+
+/**
+ * Validate and parse the max-attempts option
+ */
+export function validateMaxAttempts(value: unknown): number {
+  return parsePositiveInt(value, "max attempts", DEFAULT_RETRY_POLICY.maxAttempts);
+}
+
+/**
+ * Whether a failed attempt should be retried. Thrown exceptions (no error type),
+ * such as browser crashes, are treated like GENERIC failures.
+ */
+export function isRetryableError(errorType?: string): boolean {
+  return errorType === undefined || RETRYABLE_ERROR_TYPES.has(errorType);
+}
+
+/**
+ * Exponential backoff: the delay before retrying after the given (1-based) attempt.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  return Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+}
+
+/**
+ * Resolves when the signal aborts (never, without a signal).
+ */
+function waitForAbort(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (!signal) return;
+    if (signal.aborted) {
+      resolve();
+      return;
+    }
+    signal.addEventListener("abort", () => resolve(), { once: true });
+  });
+}
+
+/**
+ * Resolves after the delay, or as soon as the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    waitForAbort(signal).then(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
+
+type Failure = { success: false; errorType?: string; error: string };
+
+type AttemptOutcome = { success: true; transactions: EnrichedTransaction[] } | Failure;
+
+/**
+ * Resolves with the promise's value, or null as soon as the signal aborts.
+ */
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T | null> {
+  return Promise.race([promise, waitForAbort(signal).then(() => null)]);
+}
+
+/**
+ * Long-term two-factor token for an OTP bank: the saved one, or a new one obtained by
+ * sending an SMS code and asking the user for it.
+ */
+async function resolveOtpToken(
+  scraper: BankScraper,
+  account: AccountConfig,
+  report: (message: string) => void,
+  otp: OtpHandler = {}
+): Promise<{ success: true; token: string; saved: boolean } | Failure> {
+  const saved = otp.tokens?.get(account.name);
+  if (saved) {
+    return { success: true, token: saved, saved: true };
+  }
+
+  if (!otp.requestCode) {
+    return {
+      success: false,
+      errorType: "TWO_FACTOR_RETRIEVER_MISSING",
+      error: "TWO_FACTOR_RETRIEVER_MISSING: a one-time code is required; scrape this account interactively once",
+    };
+  }
+
+  const trigger = await scraper.triggerTwoFactorAuth(account.credentials.phoneNumber);
+  if (!trigger.success) {
+    return { success: false, errorType: trigger.errorType, error: `${trigger.errorType}: ${trigger.errorMessage}` };
+  }
+
+  report("Waiting for one-time code");
+  let code: string;
+  try {
+    code = await otp.requestCode(account.name);
+  } catch (error) {
+    // No code (e.g. the wait timed out): another attempt would only send another SMS
+    const message = error instanceof Error ? error.message : String(error);
+    return { success: false, errorType: "OTP_CODE_MISSING", error: `OTP_CODE_MISSING: ${message}` };
+  }
+  const result = await scraper.getLongTermTwoFactorToken(code.trim());
+  if (!result.success) {
+    return { success: false, errorType: result.errorType, error: `${result.errorType}: ${result.errorMessage}` };
+  }
+
+  otp.tokens?.set(account.name, result.longTermTwoFactorAuthToken);
+  otp.tokens?.save();
+  report("One-time code accepted");
+  return { success: true, token: result.longTermTwoFactorAuthToken, saved: false };
+}
+
+/**
+ * Scrape a single account, retrying transient failures with exponential backoff.
+ * When the abort signal fires mid-scrape, the browser is closed and the account
+ * is reported as canceled.
  */
 export async function scrapeAccount(
   account: AccountConfig,
   startDate: Date,
   showBrowser: boolean,
-  onProgress?: (message: string) => void
+  onProgress?: ProgressCallback,
+  abortSignal?: AbortSignal,
+  options: ScrapeAccountOptions = {}
 ): Promise<ScrapeResult> {
-  onProgress?.(`\nScraping ${account.name}...`);
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const report = (message: string) => onProgress?.(`  [${account.name}] ${message}`, account.name);
+  const attempts: ScrapeAttempt[] = [];
+  const canceled = (): ScrapeResult => ({
+    accountName: account.name,
+    success: false,
+    transactions: [],
+    error: CANCELED_ERROR,
+    errorKind: "canceled",
+    attempts,
+  });
+
+  if (abortSignal?.aborted) {
+    return canceled();
+  }
+
+  onProgress?.(`\nScraping ${account.name}...`, account.name);
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = new Date().toISOString();
+    const outcome = await attemptScrape(account, startDate, showBrowser, report, abortSignal, options);
+
+    if (outcome === null) {
+      return canceled();
+    }
+
+    if (outcome.success) {
+      attempts.push({ attempt, startedAt, success: true });
+      return { accountName: account.name, success: true, transactions: outcome.transactions, attempts };
+    }
+
+    attempts.push({ attempt, startedAt, success: false, errorType: outcome.errorType, error: outcome.error });
+
+    if (attempt >= policy.maxAttempts || !isRetryableError(outcome.errorType)) {
+      return {
+        accountName: account.name,
+        success: false,
+        transactions: [],
+        error: outcome.error,
+        errorType: outcome.errorType,
+        errorKind: classifyScrapeError(outcome.errorType, outcome.error),
+        attempts,
+      };
+    }
+
+    const delay = backoffDelay(attempt, policy);
+    report(`Attempt ${attempt}/${policy.maxAttempts} failed, retrying in ${Math.ceil(delay / 1000)}s`);
+    await sleep(delay, abortSignal);
+    if (abortSignal?.aborted) {
+      return canceled();
+    }
+  }
+}
 
+/**
+ * One scrape attempt. Returns null when aborted.
+ */
+async function attemptScrape(
+  account: AccountConfig,
+  startDate: Date,
+  showBrowser: boolean,
+  report: (message: string) => void,
+  abortSignal?: AbortSignal,
+  { otp, provider = bankScrapersProvider }: ScrapeAccountOptions = {}
+): Promise<AttemptOutcome | null> {
   const options: ScraperOptions = {
     companyId: account.companyId,
     startDate,
@@ -29,21 +361,51 @@ export async function scrapeAccount(
   };
 
   try {
-    const scraper = createScraper(options);
+    const scraper = provider.createScraper(account, options);
 
     // Set up progress logging
     scraper.onProgress((companyId, payload) => {
-      onProgress?.(`  [${account.name}] ${payload.type}`);
+      report(payload.type);
     });
 
-    const result = await scraper.scrape(account.credentials as any);
+    let credentials: Record<string, string> = account.credentials;
+    let savedToken = false;
+    if (account.otp) {
+      const token = await raceAbort(resolveOtpToken(scraper, account, report, otp), abortSignal);
+      if (token === null) {
+        report("Canceled");
+        return null;
+      }
+      if (!token.success) {
+        report(`Error: ${token.error}`);
+        return token;
+      }
+      credentials = { ...account.credentials, otpLongTermToken: token.token };
+      savedToken = token.saved;
+    }
+
+    const scrape = scraper.scrape(credentials);
+    const result = await raceAbort(scrape, abortSignal);
+
+    if (result === null) {
+      report("Canceled");
+      // Close the browser
+      scrape.catch(() => {});
+      await scraper.terminate?.(false).catch(() => {});
+      return null;
+    }
 
     if (!result.success) {
-      onProgress?.(`  Error: ${result.errorType} - ${result.errorMessage}`);
+      report(`Error: ${result.errorType} - ${result.errorMessage}`);
+      if (savedToken && isTokenRejected(result.errorType, result.errorMessage)) {
+        // INVALID_PASSWORD and INVALID_OTP aren't retried, so the next scrape asks for a new
+        // code (a retried GENERIC token error asks on the next attempt)
+        otp?.tokens?.remove(account.name);
+        otp?.tokens?.save();
+      }
       return {
-        accountName: account.name,
         success: false,
-        transactions: [],
+        errorType: result.errorType,
         error: `${result.errorType}: ${result.errorMessage}`,
       };
     }
@@ -52,7 +414,7 @@ export async function scrapeAccount(
     const transactions: EnrichedTransaction[] = [];
 
     for (const bankAccount of result.accounts ?? []) {
-      onProgress?.(`  Found ${bankAccount.txns.length} transactions in account ${bankAccount.accountNumber}`);
+      report(`Found ${bankAccount.txns.length} transactions in account ${bankAccount.accountNumber}`);
 
       for (const txn of bankAccount.txns) {
         transactions.push({
@@ -63,36 +425,31 @@ export async function scrapeAccount(
       }
     }
 
-    onProgress?.(`  Total: ${transactions.length} transactions from ${account.name}`);
+    report(`Total: ${transactions.length} transactions`);
 
-    return {
-      accountName: account.name,
-      success: true,
-      transactions,
-    };
+    return { success: true, transactions: numberIdenticalCharges(transactions) };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    onProgress?.(`  Exception: ${message}`);
-    return {
-      accountName: account.name,
-      success: false,
-      transactions: [],
-      error: message,
-    };
+    report(`Exception: ${message}`);
+    return { success: false, error: message };
   }
 }
 
 /**
- * Scrape all enabled accounts
+ * Scrape all enabled accounts with a bounded worker pool.
+ * Results are returned in account order regardless of which scrape finishes first.
  */
 export async function scrapeAllAccounts(
   accounts: AccountConfig[],
   startDate: Date,
   showBrowser: boolean,
-  onProgress?: (message: string) => void,
-  abortSignal?: AbortSignal
+  onProgress?: ProgressCallback,
+  abortSignal?: AbortSignal,
+  options: ScrapeAllOptions = {}
 ): Promise<ScrapeResult[]> {
   const enabledAccounts = accounts.filter((a) => a.enabled);
+  const concurrency = validateConcurrency(options.concurrency);
+  validateMaxAttempts(options.retry?.maxAttempts);
 
   if (enabledAccounts.length === 0) {
     onProgress?.("No accounts enabled for scraping.");
@@ -106,20 +463,45 @@ export async function scrapeAllAccounts(
 
   onProgress?.(`\nScraping ${enabledAccounts.length} account(s)...`);
   onProgress?.(`Start date: ${startDate.toISOString().split("T")[0]}`);
+  if (concurrency > 1) {
+    onProgress?.(`Concurrency: ${Math.min(concurrency, enabledAccounts.length)}`);
+  }
 
-  const results: ScrapeResult[] = [];
+  const slots: Array<ScrapeResult | undefined> = new Array(enabledAccounts.length);
+  let nextIndex = 0;
 
-  // Scrape accounts sequentially to avoid overwhelming the browser
-  for (const account of enabledAccounts) {
-    if (abortSignal?.aborted) {
-      onProgress?.("Scrape canceled.");
-      break;
+  // Each worker takes the next unscraped account until none are left
+  const worker = async () => {
+    while (nextIndex < enabledAccounts.length) {
+      if (abortSignal?.aborted) return;
+
+      const index = nextIndex++;
+      const account = enabledAccounts[index];
+      const accountStartDate = account.startDate ?? startDate;
+      if (account.startDate) {
+        onProgress?.(
+          `  [${account.name}] Start date: ${accountStartDate.toISOString().split("T")[0]}`,
+          account.name
+        );
+      }
+      slots[index] = await scrapeAccount(
+        account,
+        accountStartDate,
+        showBrowser,
+        onProgress,
+        abortSignal,
+        options
+      );
     }
-    const result = await scrapeAccount(account, startDate, showBrowser, onProgress);
-    results.push(result);
-  }
+  };
+
+  const workerCount = Math.min(concurrency, enabledAccounts.length);
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  const results = slots.filter((r): r is ScrapeResult => r !== undefined);
 
   if (abortSignal?.aborted) {
+    onProgress?.("Scrape canceled.");
     return results;
   }
 
@@ -135,7 +517,11 @@ export async function scrapeAllAccounts(
   if (failed.length > 0) {
     onProgress?.(`\nFailed accounts:`);
     for (const f of failed) {
-      onProgress?.(`  - ${f.accountName}: ${f.error}`);
+      const tries = f.attempts && f.attempts.length > 1 ? ` (after ${f.attempts.length} attempts)` : "";
+      onProgress?.(`  - ${f.accountName}: ${f.error}${tries}`);
+      if (f.errorKind) {
+        onProgress?.(`    ${remediationHint(f.errorKind)}`);
+      }
     }
   }
 
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createSeenLedger, filterAlreadyExported } from "./seen-ledger.js";
+import { getTransactionFingerprint, type EnrichedTransaction } from "./transformer.js";
+
+describe("seen ledger", () => {
+  let dir: string;
+  let ledgerPath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "seen-ledger-"));
+    ledgerPath = join(dir, "data", "exported-transactions.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("starts empty when no ledger file exists", () => {
+    const ledger = createSeenLedger(ledgerPath);
+    expect(ledger.size()).toBe(0);
+    expect(existsSync(ledgerPath)).toBe(false);
+  });
+
+  it("records exported transactions by fingerprint", () => {
+    const ledger = createSeenLedger(ledgerPath);
+    const txn = makeTxn("2024-03-15", -100);
+
+    ledger.markExported([txn]);
+
+    expect(ledger.has(getTransactionFingerprint(txn))).toBe(true);
+    expect(ledger.has(getTransactionFingerprint(makeTxn("2024-03-16", -100)))).toBe(false);
+  });
+
+  it("persists entries across instances after save", () => {
+    const first = createSeenLedger(ledgerPath);
+    first.markExported([makeTxn("2024-03-15", -100)], new Date("2024-03-20T10:00:00Z"));
+    first.save();
+
+    const file = JSON.parse(readFileSync(ledgerPath, "utf-8"));
+    expect(file.version).toBe(1);
+    expect(Object.values(file.entries)).toEqual(["2024-03-20T10:00:00.000Z"]);
+
+    const second = createSeenLedger(ledgerPath);
+    expect(second.size()).toBe(1);
+  });
+
+  it("does not persist anything until save is called", () => {
+    const ledger = createSeenLedger(ledgerPath);
+    ledger.markExported([makeTxn("2024-03-15", -100)]);
+    expect(createSeenLedger(ledgerPath).size()).toBe(0);
+  });
+
+  it("filters out already-exported transactions", () => {
+    const ledger = createSeenLedger(ledgerPath);
+    const old = makeTxn("2024-03-15", -100);
+    const fresh = makeTxn("2024-03-16", -200);
+    ledger.markExported([old]);
+
+    const result = filterAlreadyExported([old, fresh], ledger);
+
+    expect(result.fresh).toEqual([fresh]);
+    expect(result.suppressed).toEqual([old]);
+  });
+});
+
+function makeTxn(date: string, amount: number): EnrichedTransaction {
+  return {
+    type: "normal" as any,
+    date,
+    processedDate: date,
+    originalAmount: Math.abs(amount),
+    originalCurrency: "ILS",
+    chargedAmount: amount,
+    description: "Test",
+    status: "completed" as any,
+    accountNumber: "1234",
+    accountName: "Max",
+  };
+}
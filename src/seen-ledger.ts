@@ -0,0 +1,79 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "node:fs";
+import { dirname } from "node:path";
+import { getTransactionFingerprint, type EnrichedTransaction } from "./transformer.js";
+
+export const DEFAULT_LEDGER_PATH = "./data/exported-transactions.json";
+
+/**
+ * On-disk format: fingerprint -> ISO timestamp of the export that included it
+ */
+interface LedgerFile {
+  version: 1;
+  entries: Record<string, string>;
+}
+
+/**
+ * Ledger of transactions that were already exported, keyed by transaction fingerprint.
+ * Changes are kept in memory until save() is called.
+ */
+export function createSeenLedger(path: string = DEFAULT_LEDGER_PATH) {
+  const entries = readLedgerFile(path);
+
+  return {
+    has(fingerprint: string): boolean {
+      return fingerprint in entries;
+    },
+
+    markExported(transactions: EnrichedTransaction[], exportedAt: Date = new Date()) {
+      const timestamp = exportedAt.toISOString();
+      for (const txn of transactions) {
+        entries[getTransactionFingerprint(txn)] = timestamp;
+      }
+    },
+
+    size(): number {
+      return Object.keys(entries).length;
+    },
+
+    save() {
+      const dir = dirname(path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      const file: LedgerFile = { version: 1, entries };
+      writeFileSync(path, JSON.stringify(file, null, 2), "utf-8");
+    },
+  };
+}
+
+export type SeenLedger = ReturnType<typeof createSeenLedger>;
+
+/**
+ * Split transactions into ones not yet exported and ones the ledger has already seen.
+ */
+export function filterAlreadyExported(
+  transactions: EnrichedTransaction[],
+  ledger: SeenLedger
+): { fresh: EnrichedTransaction[]; suppressed: EnrichedTransaction[] } {
+  const fresh: EnrichedTransaction[] = [];
+  const suppressed: EnrichedTransaction[] = [];
+
+  for (const txn of transactions) {
+    if (ledger.has(getTransactionFingerprint(txn))) {
+      suppressed.push(txn);
+    } else {
+      fresh.push(txn);
+    }
+  }
+
+  return { fresh, suppressed };
+}
+
+function readLedgerFile(path: string): Record<string, string> {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<LedgerFile>;
+  return parsed.entries ?? {};
+}
@@ -0,0 +1,354 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, readFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { MockFixture } from "../mock-scraper.js";
+
+// The routes write state, cache and logs relative to the working directory
+const originalCwd = process.cwd();
+const dir = mkdtempSync(join(tmpdir(), "server-"));
+process.chdir(dir);
+
+const fixture: MockFixture = {
+  latencyMs: 0,
+  accounts: {
+    Max: {
+      bankAccounts: [
+        {
+          accountNumber: "1234",
+          txns: [
+            { identifier: 1, date: "2024-03-15T00:00:00.000Z", chargedAmount: -100, description: "Store" },
+            { identifier: 2, date: "2024-03-16T00:00:00.000Z", chargedAmount: 50, description: "Refund" },
+            { identifier: 3, date: "2024-03-17T00:00:00.000Z", chargedAmount: 0, description: "Zero" },
+          ],
+        },
+      ],
+    },
+    Leumi: {
+      failures: [{ errorType: "INVALID_PASSWORD", errorMessage: "bad password" }],
+    },
+  },
+};
+writeFileSync(join(dir, "fixture.json"), JSON.stringify(fixture));
+
+process.env.SCRAPER_PROVIDER = "mock";
+process.env.MOCK_SCRAPER_FIXTURE = join(dir, "fixture.json");
+process.env.VAULT_FILE = join(dir, "vault.json");
+process.env.RULES_FILE = join(dir, "rules.json");
+process.env.OTP_TOKENS_FILE = join(dir, "otp-tokens.json");
+process.env.SCRAPE_CACHE_DIR = join(dir, "cache");
+
+const { createApp } = await import("./app.js");
+
+interface StreamEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  server = await new Promise<Server>((resolve) => {
+    const listening = createApp().listen(0, () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  process.chdir(originalCwd);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function readStream(query: string): Promise<StreamEvent[]> {
+  const res = await fetch(`${baseUrl}/scrape/stream?${query}`);
+  expect(res.headers.get("content-type")).toContain("text/event-stream");
+
+  const body = await res.text();
+  return body
+    .split("\n\n")
+    .filter((chunk) => chunk.startsWith("data: "))
+    .map((chunk) => JSON.parse(chunk.slice("data: ".length)) as StreamEvent);
+}
+
+describe("GET /api/scrape/stream", () => {
+  it("streams progress, per-account results and the transformed payload", async () => {
+    const events = await readStream("accounts=Max,Leumi&maxAttempts=1");
+
+    expect(events.some((e) => e.type === "progress" && e.accountName === "Max")).toBe(true);
+
+    const accountDone = events.filter((e) => e.type === "account-done");
+    expect(accountDone).toHaveLength(2);
+    expect(accountDone.find((e) => e.accountName === "Max")).toMatchObject({
+      success: true,
+      transactionCount: 3,
+    });
+    expect(accountDone.find((e) => e.accountName === "Leumi")).toMatchObject({
+      success: false,
+      errorKind: "credentials",
+    });
+
+    const done = events.find((e) => e.type === "done");
+    const payload = done?.payload as {
+      rows: Array<{ date: string; payee: string; outflow: string; inflow: string }>;
+      skipped: unknown[];
+      summary: { totalOutflow: number; totalInflow: number };
+    };
+    expect(payload.rows.map((r) => r.payee)).toEqual(["Refund", "Store"]);
+    expect(payload.skipped).toHaveLength(1);
+    expect(payload.summary.totalOutflow).toBe(100);
+    expect(payload.summary.totalInflow).toBe(50);
+  });
+
+  it("reports unknown accounts as an error event", async () => {
+    const events = await readStream("accounts=Nope");
+    expect(events.at(-1)).toMatchObject({ type: "error", message: "Unknown accounts: Nope" });
+  });
+
+  it("refuses to start while another scrape holds the run lock", async () => {
+    mkdirSync(join(dir, "data"), { recursive: true });
+    writeFileSync(join(dir, "data", "scheduler.lock"), String(process.pid));
+    try {
+      const events = await readStream("accounts=Max");
+      expect(events.at(-1)).toMatchObject({ type: "error", message: expect.stringContaining("Another scrape") });
+    } finally {
+      rmSync(join(dir, "data", "scheduler.lock"));
+    }
+  });
+
+  it("keeps fixture data out of the scrape state and the scrape cache", async () => {
+    await readStream("accounts=Max");
+
+    expect(existsSync(join(dir, "data", "scrape-state.json"))).toBe(false);
+    expect(existsSync(join(dir, "cache"))).toBe(false);
+  });
+});
+
+describe("POST /api/ynab/push and /api/actual/push", () => {
+  it("refuses to push fixture data", async () => {
+    for (const target of ["ynab", "actual"]) {
+      const res = await fetch(`${baseUrl}/${target}/push`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows: [] }),
+      });
+
+      expect(res.status).toBe(400);
+      expect(((await res.json()) as { error: string }).error).toContain("fixture data");
+    }
+  });
+});
+
+describe("POST /api/export", () => {
+  it("writes the CSV and an audit log", async () => {
+    const events = await readStream("accounts=Max");
+    const payload = events.find((e) => e.type === "done")?.payload as Record<string, unknown>;
+    const outputDir = join(dir, "output");
+
+    const res = await fetch(`${baseUrl}/export`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...payload, outputDir, split: false }),
+    });
+    const data = (await res.json()) as { csvPaths: string[]; auditLogPath: string };
+
+    expect(res.status).toBe(200);
+    expect(data.csvPaths).toHaveLength(1);
+    const csv = readFileSync(data.csvPaths[0], "utf-8");
+    expect(csv).toContain("Store");
+    expect(csv).toContain("Refund");
+    expect(existsSync(data.auditLogPath)).toBe(true);
+  });
+
+  it("applies the CSV dialect", async () => {
+    const events = await readStream("accounts=Max");
+    const payload = events.find((e) => e.type === "done")?.payload as Record<string, unknown>;
+
+    const res = await fetch(`${baseUrl}/export`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...payload,
+        outputDir: join(dir, "dialect"),
+        split: false,
+        csvDialect: { bom: true, delimiter: ";", amountColumns: "single", extraColumns: ["Account"] },
+      }),
+    });
+    const data = (await res.json()) as { csvPaths: string[] };
+
+    expect(res.status).toBe(200);
+    const csv = readFileSync(data.csvPaths[0], "utf-8");
+    expect(csv.split("\n")[0]).toBe("\uFEFFDate;Payee;Memo;Amount;Account");
+  });
+
+  it("writes one OFX statement per account when format is ofx", async () => {
+    const events = await readStream("accounts=Max");
+    const payload = events.find((e) => e.type === "done")?.payload as Record<string, unknown>;
+
+    const res = await fetch(`${baseUrl}/export`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...payload, outputDir: join(dir, "ofx"), split: false, format: "ofx" }),
+    });
+    const data = (await res.json()) as { csvPaths: string[] };
+
+    expect(res.status).toBe(200);
+    expect(data.csvPaths[0]).toMatch(/\.ofx$/);
+    const ofx = readFileSync(data.csvPaths[0], "utf-8");
+    expect(ofx.match(/<STMTRS>/g)).toHaveLength(1);
+    expect(ofx).toContain("<ACCTID>Max</ACCTID>");
+  });
+
+  it("writes a QIF section typed by the account's bank definition", async () => {
+    const events = await readStream("accounts=Max");
+    const payload = events.find((e) => e.type === "done")?.payload as Record<string, unknown>;
+
+    const res = await fetch(`${baseUrl}/export`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...payload, outputDir: join(dir, "qif"), split: false, format: "qif" }),
+    });
+    const data = (await res.json()) as { csvPaths: string[] };
+
+    expect(res.status).toBe(200);
+    const qif = readFileSync(data.csvPaths[0], "utf-8");
+    expect(qif).toContain("!Type:CCard");
+    expect(qif).toContain("PStore");
+  });
+
+  it("writes an Actual OFX file with stable FITIDs", async () => {
+    const events = await readStream("accounts=Max");
+    const payload = events.find((e) => e.type === "done")?.payload as Record<string, unknown>;
+
+    const res = await fetch(`${baseUrl}/export`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...payload,
+        outputDir: join(dir, "actual"),
+        split: false,
+        format: "actual",
+      }),
+    });
+    const data = (await res.json()) as { csvPaths: string[] };
+
+    expect(res.status).toBe(200);
+    expect(data.csvPaths).toHaveLength(1);
+    expect(data.csvPaths[0]).toMatch(/actual-max-.*\.ofx$/);
+    const ofx = readFileSync(data.csvPaths[0], "utf-8");
+    expect(ofx).toContain("<TRNAMT>-100.00</TRNAMT>");
+    expect(ofx).toMatch(/<FITID>ib:[0-9a-f]+<\/FITID>/);
+  });
+
+  it("writes journals from the payload's transactions", async () => {
+    const events = await readStream("accounts=Max");
+    const payload = events.find((e) => e.type === "done")?.payload as Record<string, unknown>;
+
+    const res = await fetch(`${baseUrl}/export`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...payload,
+        transactions: payload.kept,
+        outputDir: join(dir, "ledger"),
+        split: false,
+        format: "ledger",
+      }),
+    });
+    const data = (await res.json()) as { csvPaths: string[] };
+
+    expect(res.status).toBe(200);
+    expect(readFileSync(data.csvPaths[0], "utf-8")).toContain("Liabilities:CreditCard:Max");
+  });
+
+  it("rejects unknown formats, invalid CSV dialects and journals without transactions", async () => {
+    const post = (format: string) =>
+      fetch(`${baseUrl}/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows: [], outputDir: join(dir, "output"), split: false, format }),
+      });
+
+    const unknown = await post("xlsx");
+    expect(unknown.status).toBe(400);
+    expect(((await unknown.json()) as { error: string }).error).toContain("Invalid format: xlsx");
+    expect((await post("beancount")).status).toBe(400);
+
+    const dialect = await fetch(`${baseUrl}/export`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ rows: [], outputDir: join(dir, "output"), csvDialect: { lineEnding: "cr" } }),
+    });
+    expect(dialect.status).toBe(400);
+  });
+
+  it("moves the scrape watermark only for exported live scrapes", async () => {
+    const events = await readStream("accounts=Max");
+    const payload = events.find((e) => e.type === "done")?.payload as {
+      scrapeResults: Array<{ accountName: string; scrapedAt?: string }>;
+    };
+    const statePath = join(dir, "data", "scrape-state.json");
+    const post = (scrapeResults: unknown) =>
+      fetch(`${baseUrl}/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...payload, scrapeResults, outputDir: join(dir, "watermark"), split: false }),
+      });
+
+    // Fixture data carries no scrapedAt
+    expect(payload.scrapeResults[0].scrapedAt).toBeUndefined();
+    expect((await post(payload.scrapeResults)).status).toBe(200);
+    expect(existsSync(statePath)).toBe(false);
+
+    const scrapedAt = "2024-03-18T08:00:00.000Z";
+    expect((await post([{ ...payload.scrapeResults[0], scrapedAt }])).status).toBe(200);
+    const state = JSON.parse(readFileSync(statePath, "utf-8"));
+    expect(state.accounts.Max.lastSuccessAt).toBe(scrapedAt);
+  });
+
+  it("rejects requests without rows", async () => {
+    const res = await fetch(`${baseUrl}/export`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ outputDir: join(dir, "output") }),
+    });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("GET /api/exporters", () => {
+  it("lists the registered formats", async () => {
+    const res = await fetch(`${baseUrl}/exporters`);
+    const exporters = (await res.json()) as Array<{ name: string; label: string; needsTransactions: boolean }>;
+
+    expect(exporters.map((e) => e.name)).toContain("ofx");
+    expect(exporters.find((e) => e.name === "csv")).toMatchObject({ label: "YNAB CSV", needsTransactions: false });
+    expect(exporters.find((e) => e.name === "ledger")?.needsTransactions).toBe(true);
+  });
+});
+
+describe("POST /api/schedules and PUT /api/schedules/:id", () => {
+  it("rejects accounts that aren't a list of names", async () => {
+    for (const accounts of ["Max", {}, [1]]) {
+      for (const [method, path] of [
+        ["POST", "/schedules"],
+        ["PUT", "/schedules/missing"],
+      ]) {
+        const res = await fetch(`${baseUrl}${path}`, {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ cron: "0 6 * * *", accounts }),
+        });
+
+        expect(res.status).toBe(400);
+        expect(((await res.json()) as { error: string }).error).toBe(
+          "accounts must be an array of account names"
+        );
+      }
+    }
+  });
+});
@@ -0,0 +1,37 @@
+import express from "express";
+import cors from "cors";
+import accountsRouter from "./routes/accounts.js";
+import scrapeRouter from "./routes/scrape.js";
+import reconcileRouter from "./routes/reconcile.js";
+import ynabRouter from "./routes/ynab.js";
+import actualRouter from "./routes/actual.js";
+import exportersRouter from "./routes/exporters.js";
+import vaultRouter from "./routes/vault.js";
+import schedulesRouter from "./routes/schedules.js";
+
+/**
+ * The API server without listening or starting the scheduler, so tests can mount it.
+ */
+export function createApp() {
+  const app = express();
+
+  app.use(cors());
+  app.use(express.json({ limit: "50mb" }));
+
+  // Routes
+  app.use("/api/accounts", accountsRouter);
+  app.use("/api", scrapeRouter);
+  app.use("/api/reconcile", reconcileRouter);
+  app.use("/api/ynab", ynabRouter);
+  app.use("/api/actual", actualRouter);
+  app.use("/api/exporters", exportersRouter);
+  app.use("/api/vault", vaultRouter);
+  app.use("/api/schedules", schedulesRouter);
+
+  // Health check
+  app.get("/api/health", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  return app;
+}
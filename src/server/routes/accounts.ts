@@ -1,10 +1,15 @@
-import { Router } from "express";
+import { Router, type Response } from "express";
 import { join } from "node:path";
-import { BANK_DEFINITIONS } from "../../banks.js";
+import { BANK_DEFINITIONS, resolveAccountInstances, type AccountInstance } from "../../banks.js";
 import { readEnvFile, writeEnvFile, clearEnvVars } from "../env-io.js";
+import { createVault, getActiveVault, type Vault } from "../../vault.js";
+import { createScrapeState } from "../../scrape-state.js";
+import { remediationHint } from "../../scrape-errors.js";
 
 const router = Router();
 
+const INSTANCES_ENV_KEY = "ACCOUNT_INSTANCES";
+
 function getEnvPath(): string {
   return join(process.cwd(), ".env");
 }
@@ -16,42 +21,129 @@ function reloadEnv(): void {
   }
 }
 
+function getInstancesSpec(envVars: Record<string, string>): string {
+  return envVars[INSTANCES_ENV_KEY] ?? process.env[INSTANCES_ENV_KEY] ?? "";
+}
+
+/**
+ * Credentials go to the vault when one exists (null when no vault is set up).
+ */
+function getCredentialVault(): Vault | null {
+  return createVault().exists() ? getActiveVault() : null;
+}
+
+function isVaultLocked(): boolean {
+  return createVault().exists() && !getActiveVault()?.isUnlocked();
+}
+
+function sendVaultLocked(res: Response): void {
+  res.status(423).json({ error: "Vault is locked", locked: true });
+}
+
+function findInstance(name: string): AccountInstance | undefined {
+  const spec = getInstancesSpec(readEnvFile(getEnvPath()));
+  return resolveAccountInstances(spec).find((i) => i.name === name);
+}
+
 /**
  * GET /api/accounts
- * Returns all banks with their field names and enabled status.
+ * Returns all account instances with their field names, enabled status and last failed scrape.
  * Never sends credential values.
  */
 router.get("/", (_req, res) => {
   const envPath = getEnvPath();
   const envVars = readEnvFile(envPath);
 
-  const accounts = BANK_DEFINITIONS.map((bank) => {
-    const fields = Object.keys(bank.credentialFields);
-    const envKeys = Object.values(bank.credentialFields);
-    const allFilled = envKeys.every((envKey) => (envVars[envKey] ?? "").length > 0);
+  if (isVaultLocked()) {
+    sendVaultLocked(res);
+    return;
+  }
+  const vault = getCredentialVault();
+
+  let instances: AccountInstance[];
+  try {
+    instances = resolveAccountInstances(getInstancesSpec(envVars));
+  } catch (error) {
+    res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+
+  const scrapeState = createScrapeState();
+
+  const accounts = instances.map((instance) => {
+    const lastFailure = scrapeState.getLastFailure(instance.name);
+    const fields = Object.keys(instance.credentialFields);
+    const envKeys = Object.values(instance.credentialFields);
+    const allFilled = envKeys.every(
+      (envKey) => (vault?.get(envKey) ?? envVars[envKey] ?? "").length > 0
+    );
 
     return {
-      name: bank.name,
-      companyId: bank.companyId,
+      name: instance.name,
+      bankName: instance.bank.name,
+      companyId: instance.bank.companyId,
       fields,
       enabled: allFilled,
+      lastFailure: lastFailure && { ...lastFailure, hint: remediationHint(lastFailure.errorKind) },
     };
   });
 
   res.json({ accounts });
 });
 
+/**
+ * POST /api/accounts
+ * Adds a named login for a bank (e.g. { bankName: "Isracard", label: "Dana" }).
+ */
+router.post("/", (req, res) => {
+  const { bankName, label } = req.body as { bankName?: string; label?: string };
+
+  if (!bankName || !label?.trim()) {
+    res.status(400).json({ error: "Missing bankName or label" });
+    return;
+  }
+
+  if (/[,:]/.test(label)) {
+    res.status(400).json({ error: "Label must not contain commas or colons" });
+    return;
+  }
+
+  const bank = BANK_DEFINITIONS.find((b) => b.name === bankName);
+  if (!bank) {
+    res.status(404).json({ error: `Bank "${bankName}" not found` });
+    return;
+  }
+
+  const spec = getInstancesSpec(readEnvFile(getEnvPath()));
+  const entries = spec.split(",").filter((e) => e.trim().length > 0);
+  const newSpec = [...entries, `${bank.name}:${label.trim()}`].join(",");
+
+  let instance: AccountInstance | undefined;
+  try {
+    const instances = resolveAccountInstances(newSpec);
+    instance = instances.find((i) => i.name === `${bank.name} - ${label.trim()}`);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+
+  writeEnvFile(getEnvPath(), { [INSTANCES_ENV_KEY]: newSpec });
+  reloadEnv();
+
+  res.json({ success: true, name: instance?.name });
+});
+
 /**
  * PUT /api/accounts/:name/credentials
- * Saves credentials for a bank to the .env file.
+ * Saves credentials for an account instance to the vault, or the .env file when there is none.
  */
 router.put("/:name/credentials", (req, res) => {
   const { name } = req.params;
   const { credentials } = req.body as { credentials: Record<string, string> };
 
-  const bank = BANK_DEFINITIONS.find((b) => b.name === name);
-  if (!bank) {
-    res.status(404).json({ error: `Bank "${name}" not found` });
+  const instance = findInstance(name);
+  if (!instance) {
+    res.status(404).json({ error: `Account "${name}" not found` });
     return;
   }
 
@@ -62,7 +154,7 @@ router.put("/:name/credentials", (req, res) => {
 
   // Map credential field names to env var names
   const updates: Record<string, string> = {};
-  for (const [field, envVar] of Object.entries(bank.credentialFields)) {
+  for (const [field, envVar] of Object.entries(instance.credentialFields)) {
     const value = credentials[field];
     if (value === undefined || value === "") {
       res.status(400).json({ error: `Missing required field: ${field}` });
@@ -71,27 +163,63 @@ router.put("/:name/credentials", (req, res) => {
     updates[envVar] = value;
   }
 
-  writeEnvFile(getEnvPath(), updates);
-  reloadEnv();
+  if (isVaultLocked()) {
+    sendVaultLocked(res);
+    return;
+  }
+  const vault = getCredentialVault();
+
+  if (vault) {
+    vault.set(updates);
+    vault.save();
+  } else {
+    writeEnvFile(getEnvPath(), updates);
+    reloadEnv();
+  }
 
   res.json({ success: true });
 });
 
 /**
  * DELETE /api/accounts/:name/credentials
- * Clears credentials for a bank from the .env file.
+ * Clears credentials for an account instance from the vault and the .env file.
+ * Named instances are also removed from ACCOUNT_INSTANCES.
  */
 router.delete("/:name/credentials", (req, res) => {
   const { name } = req.params;
 
-  const bank = BANK_DEFINITIONS.find((b) => b.name === name);
-  if (!bank) {
-    res.status(404).json({ error: `Bank "${name}" not found` });
+  const instance = findInstance(name);
+  if (!instance) {
+    res.status(404).json({ error: `Account "${name}" not found` });
     return;
   }
 
-  const envKeys = Object.values(bank.credentialFields);
+  if (isVaultLocked()) {
+    sendVaultLocked(res);
+    return;
+  }
+  const vault = getCredentialVault();
+
+  const envKeys = Object.values(instance.credentialFields);
+  if (vault) {
+    vault.clear(envKeys);
+    vault.save();
+  }
   clearEnvVars(getEnvPath(), envKeys);
+
+  if (instance.name !== instance.bank.name) {
+    const label = instance.name.slice(`${instance.bank.name} - `.length);
+    const spec = getInstancesSpec(readEnvFile(getEnvPath()));
+    const remaining = spec
+      .split(",")
+      .filter((entry) => {
+        const [bankName, entryLabel] = entry.split(":").map((part) => part?.trim());
+        return !(bankName?.toLowerCase() === instance.bank.name.toLowerCase() && entryLabel === label);
+      })
+      .join(",");
+    writeEnvFile(getEnvPath(), { [INSTANCES_ENV_KEY]: remaining });
+  }
+
   reloadEnv();
 
   // Also clear from process.env
@@ -0,0 +1,39 @@
+import { Router, type Request, type Response } from "express";
+import { loadActualConfig, getConfiguredScraperProvider, assertRealBankData } from "../../config.js";
+import { pushToActual } from "../../actual-api.js";
+import type { YnabRow } from "../../transformer.js";
+
+const router = Router();
+
+/**
+ * POST /api/actual/push
+ * Pushes rows to the Actual Budget server/account configured in .env.
+ */
+router.post("/push", async (req: Request, res: Response) => {
+  const { rows } = req.body as { rows: YnabRow[] };
+
+  if (!rows) {
+    res.status(400).json({ error: "Missing rows" });
+    return;
+  }
+
+  let actualConfig;
+  try {
+    assertRealBankData(getConfiguredScraperProvider(), "Actual Budget");
+    actualConfig = loadActualConfig();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+    return;
+  }
+
+  try {
+    const result = await pushToActual(rows, actualConfig);
+    res.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(502).json({ error: message });
+  }
+});
+
+export default router;
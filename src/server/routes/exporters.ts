@@ -0,0 +1,21 @@
+import { Router, type Request, type Response } from "express";
+import { EXPORTERS } from "../../exporters.js";
+
+const router = Router();
+
+/**
+ * GET /api/exporters
+ * Lists the output formats POST /api/export accepts, for the GUI to render.
+ */
+router.get("/", (_req: Request, res: Response) => {
+  res.json(
+    EXPORTERS.map((exporter) => ({
+      name: exporter.name,
+      label: exporter.label,
+      extension: exporter.extension,
+      needsTransactions: exporter.needsTransactions === true,
+    }))
+  );
+});
+
+export default router;
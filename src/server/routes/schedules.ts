@@ -0,0 +1,114 @@
+import { Router, type Request, type Response } from "express";
+import { getAccountInstances } from "../../config.js";
+import { isScheduleDue, nextCronTime, type Schedule, type ScheduleInput } from "../../scheduler.js";
+import { scheduleStore, scheduler } from "../scheduler.js";
+
+const router = Router();
+
+function withNextRun(schedule: Schedule) {
+  return {
+    ...schedule,
+    due: isScheduleDue(schedule),
+    nextRunAt: schedule.enabled ? nextCronTime(schedule.cron, new Date()).toISOString() : null,
+  };
+}
+
+/**
+ * Requested accounts that aren't configured. Throws when accounts isn't a list of names.
+ */
+function findUnknownAccounts(accounts: unknown): string[] {
+  if (accounts === undefined) return [];
+  if (!Array.isArray(accounts) || accounts.some((name) => typeof name !== "string")) {
+    throw new Error("accounts must be an array of account names");
+  }
+  const known = new Set(getAccountInstances().map((i) => i.name));
+  return accounts.filter((name) => !known.has(name));
+}
+
+/**
+ * GET /api/schedules
+ * Lists schedules with their next run time, and whether a scheduled scrape is running.
+ */
+router.get("/", (_req: Request, res: Response) => {
+  scheduleStore.reload();
+  res.json({
+    schedules: scheduleStore.list().map(withNextRun),
+    running: scheduler.isRunning(),
+  });
+});
+
+/**
+ * POST /api/schedules
+ * Creates a schedule: { cron, accounts?, enabled?, options? }
+ */
+router.post("/", (req: Request, res: Response) => {
+  const input = req.body as ScheduleInput;
+
+  try {
+    const unknown = findUnknownAccounts(input?.accounts);
+    if (unknown.length > 0) {
+      res.status(400).json({ error: `Unknown accounts: ${unknown.join(", ")}` });
+      return;
+    }
+
+    scheduleStore.reload();
+    const schedule = scheduleStore.add(input);
+    scheduleStore.save();
+    res.status(201).json({ schedule: withNextRun(schedule) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * PUT /api/schedules/:id
+ * Updates cron, accounts, enabled or options.
+ */
+router.put("/:id", (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  const { cron, accounts, enabled, options } = req.body as Partial<ScheduleInput>;
+
+  const changes: Partial<ScheduleInput> = {};
+  if (cron !== undefined) changes.cron = cron;
+  if (accounts !== undefined) changes.accounts = accounts;
+  if (enabled !== undefined) changes.enabled = enabled;
+  if (options !== undefined) changes.options = options;
+
+  try {
+    const unknown = findUnknownAccounts(accounts);
+    if (unknown.length > 0) {
+      res.status(400).json({ error: `Unknown accounts: ${unknown.join(", ")}` });
+      return;
+    }
+
+    scheduleStore.reload();
+    const schedule = scheduleStore.update(id, changes);
+    if (!schedule) {
+      res.status(404).json({ error: `Schedule "${id}" not found` });
+      return;
+    }
+    scheduleStore.save();
+    res.json({ schedule: withNextRun(schedule) });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * DELETE /api/schedules/:id
+ */
+router.delete("/:id", (req: Request, res: Response) => {
+  const id = req.params.id as string;
+
+  scheduleStore.reload();
+  if (!scheduleStore.remove(id)) {
+    res.status(404).json({ error: `Schedule "${id}" not found` });
+    return;
+  }
+  scheduleStore.save();
+  res.json({ success: true });
+});
+
+export default router;
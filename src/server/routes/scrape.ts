@@ -1,9 +1,9 @@
 import { Router, type Request, type Response } from "express";
 import { writeFileSync, mkdirSync, existsSync, statSync } from "node:fs";
-import { join, resolve } from "node:path";
+import { basename, join, resolve } from "node:path";
 import { spawn } from "node:child_process";
 import { createHash, randomUUID } from "node:crypto";
-import { loadConfig } from "../../config.js";
+import { loadConfig, getAccountKinds, getAccountInstances } from "../../config.js";
 import { scrapeAllAccounts } from "../../scraper.js";
 import {
   filterAndPartition,
@@ -14,13 +14,26 @@ import {
   type YnabRow,
   type EnrichedTransaction,
 } from "../../transformer.js";
-import { toCSV, generateFilename } from "../../csv-writer.js";
+import { toCSV, validateCsvDialect, type CsvDialect } from "../../csv-writer.js";
+import { writeExport } from "../../output.js";
+import { getExporter, type Exporter } from "../../exporters.js";
 import { createAuditLogger, formatAuditLog, type AuditLog } from "../../audit-logger.js";
-import type { ScrapeResult } from "../../scraper.js";
+import { createScrapeState } from "../../scrape-state.js";
+import { acquireRunLock, RUN_LOCK_HELD_ERROR } from "../../scheduler.js";
+import { loadRules, type Rules } from "../../rules.js";
+import { createVault, getActiveVault } from "../../vault.js";
+import { createOtpTokenStore } from "../../otp-tokens.js";
+import { saveSnapshot, loadSnapshot, type ScrapeSnapshot } from "../../scrape-cache.js";
+import { remediationHint, type ScrapeErrorKind } from "../../scrape-errors.js";
+import type { ScrapeAttempt, ScrapeResult } from "../../scraper.js";
 import type { SkippedItem } from "../../transformer.js";
 
 const router = Router();
 const activeScrapes = new Map<string, AbortController>();
+/** How long a scrape waits for a one-time code before failing the account */
+const OTP_CODE_TIMEOUT_MS = 5 * 60_000;
+/** scrapeId -> account name -> resolver for a one-time code the scrape is waiting on */
+const pendingOtpCodes = new Map<string, Map<string, (code: string) => void>>();
 
 /**
  * GET /api/scrape/stream
@@ -29,6 +42,13 @@ const activeScrapes = new Map<string, AbortController>();
 router.get("/scrape/stream", async (req: Request, res: Response) => {
   const daysBack = parseInt(req.query.daysBack as string) || 60;
   const showBrowser = req.query.showBrowser === "true";
+  const sinceLast = req.query.sinceLast === "true";
+  const overlapDays =
+    typeof req.query.overlapDays === "string" ? parseInt(req.query.overlapDays, 10) : undefined;
+  const concurrency =
+    typeof req.query.concurrency === "string" ? parseInt(req.query.concurrency, 10) : undefined;
+  const maxAttempts =
+    typeof req.query.maxAttempts === "string" ? parseInt(req.query.maxAttempts, 10) : undefined;
   const enableDetailedLogging = req.query.enableDetailedLogging === "true";
   const detailedLoggingLimit = parseInt(req.query.detailedLoggingLimit as string) || 0;
   const accountsParam = typeof req.query.accounts === "string" ? req.query.accounts : "";
@@ -42,12 +62,15 @@ router.get("/scrape/stream", async (req: Request, res: Response) => {
       : randomUUID();
   const abortController = new AbortController();
   activeScrapes.set(scrapeId, abortController);
+  const otpWaiters = new Map<string, (code: string) => void>();
+  pendingOtpCodes.set(scrapeId, otpWaiters);
   let connectionClosed = false;
 
   req.on("close", () => {
     connectionClosed = true;
     abortController.abort();
     activeScrapes.delete(scrapeId);
+    pendingOtpCodes.delete(scrapeId);
   });
 
   // Set up SSE
@@ -61,9 +84,25 @@ router.get("/scrape/stream", async (req: Request, res: Response) => {
     res.write(`data: ${JSON.stringify(data)}\n\n`);
   }
 
+  let releaseRunLock: (() => void) | null = null;
   try {
+    if (createVault().exists() && !getActiveVault()?.isUnlocked()) {
+      sendEvent({ type: "error", message: "Vault is locked. Unlock it on the Accounts page first." });
+      res.end();
+      return;
+    }
+
+    // Scheduled runs, the CLI and other GUI tabs must not scrape at the same time
+    releaseRunLock = acquireRunLock();
+    if (!releaseRunLock) {
+      sendEvent({ type: "error", message: RUN_LOCK_HELD_ERROR });
+      res.end();
+      return;
+    }
+
     // Load config
-    const config = loadConfig({ daysBack, showBrowser });
+    const config = loadConfig({ daysBack, showBrowser, sinceLast, overlapDays });
+    const rules = loadRules();
 
     for (const warning of config.warnings) {
       sendEvent({ type: "warning", message: warning });
@@ -96,15 +135,46 @@ router.get("/scrape/stream", async (req: Request, res: Response) => {
       return;
     }
 
+    // Fixture data is never saved to the scrape state, the scrape cache or the token store
+    const fixtureData = !config.scraperProvider.needsCredentials;
+
     // Scrape with progress callbacks
+    const scrapedAt = new Date();
     const results = await scrapeAllAccounts(
       filteredAccounts,
       config.startDate,
       config.showBrowser,
-      (message: string) => {
-        sendEvent({ type: "progress", message });
+      (message: string, accountName?: string) => {
+        sendEvent({ type: "progress", message, accountName });
       },
-      abortController.signal
+      abortController.signal,
+      {
+        concurrency,
+        retry: { maxAttempts },
+        otp: {
+          requestCode: (accountName: string) =>
+            new Promise<string>((resolve, reject) => {
+              const timer = setTimeout(() => {
+                otpWaiters.delete(accountName);
+                const minutes = OTP_CODE_TIMEOUT_MS / 60_000;
+                reject(
+                  new Error(`No one-time code entered for ${accountName} within ${minutes} minutes`)
+                );
+              }, OTP_CODE_TIMEOUT_MS);
+              otpWaiters.set(accountName, (code) => {
+                clearTimeout(timer);
+                resolve(code);
+              });
+              sendEvent({
+                type: "otp-required",
+                accountName,
+                message: `Enter the one-time code sent to ${accountName}'s phone`,
+              });
+            }),
+          tokens: fixtureData ? undefined : createOtpTokenStore(),
+        },
+        provider: config.scraperProvider,
+      }
     );
 
     if (abortController.signal.aborted) {
@@ -113,6 +183,13 @@ router.get("/scrape/stream", async (req: Request, res: Response) => {
       return;
     }
 
+    // Failures are recorded right away; successes move the watermark once /api/export writes them
+    if (!fixtureData) {
+      const scrapeState = createScrapeState();
+      scrapeState.recordResults(results.filter((result) => !result.success));
+      scrapeState.save();
+    }
+
     // Send per-account results
     for (const result of results) {
       sendEvent({
@@ -121,75 +198,37 @@ router.get("/scrape/stream", async (req: Request, res: Response) => {
         success: result.success,
         transactionCount: result.transactions.length,
         error: result.error,
+        errorKind: result.errorKind,
+        hint: result.errorKind ? remediationHint(result.errorKind) : undefined,
+        attempts: result.attempts?.length,
       });
     }
 
-    // Create audit logger (transformations will be logged if detailed logging is enabled)
-    const auditLogger = createAuditLogger();
-
-    // Process results
-    const allRawTransactions: EnrichedTransaction[] = [];
-    for (const result of results) {
-      if (result.success) {
-        allRawTransactions.push(...result.transactions);
-      }
-    }
-
-    const { kept, skipped } = filterAndPartition(allRawTransactions);
-
-    // Track transformations if detailed logging is enabled
-    const transformationPairs: Array<{ raw: EnrichedTransaction; transformed: YnabRow }> = [];
-    const rows: YnabRow[] = [];
-
-    for (const txn of kept) {
-      const row = transformTransaction(txn);
-      if (row) {
-        rows.push(row);
-        if (enableDetailedLogging) {
-          transformationPairs.push({ raw: txn, transformed: row });
-        }
-      }
-    }
-
-    if (enableDetailedLogging && transformationPairs.length > 0) {
-      auditLogger.recordTransformations(transformationPairs, detailedLoggingLimit);
+    const snapshotPath = fixtureData ? null : saveSnapshot(results);
+    if (snapshotPath) {
+      sendEvent({
+        type: "progress",
+        message: `Raw transactions cached as: ${basename(snapshotPath)}`,
+      });
     }
 
-    // Sort by date descending (newest first)
-    rows.sort((a, b) => b.date.localeCompare(a.date));
-    const summary = calculateSummary(kept);
-
-    // Record scrape results in audit logger
-    auditLogger.recordScrapeResults(results);
-
-    // Convert Map to serializable object
-    const summaryObj = {
-      byAccount: Object.fromEntries(summary.byAccount),
-      totalOutflow: summary.totalOutflow,
-      totalInflow: summary.totalInflow,
-    };
-
     sendEvent({
       type: "done",
-      payload: {
-        scrapeResults: results.map((r) => ({
-          accountName: r.accountName,
-          success: r.success,
-          transactionCount: r.transactions.length,
-          error: r.error,
-        })),
-        kept,
-        skipped,
-        rows,
-        summary: summaryObj,
-        auditLog: auditLogger.getLog(),
-      },
+      payload: buildScrapePayload(
+        results,
+        rules,
+        enableDetailedLogging,
+        detailedLoggingLimit,
+        fixtureData ? undefined : scrapedAt
+      ),
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     sendEvent({ type: "error", message });
   } finally {
+    releaseRunLock?.();
     activeScrapes.delete(scrapeId);
+    pendingOtpCodes.delete(scrapeId);
   }
 
   res.end();
@@ -218,20 +257,101 @@ router.post("/scrape/cancel", (req: Request, res: Response) => {
   res.json({ success: true });
 });
 
+/**
+ * POST /api/scrape/:id/otp
+ * Supplies the one-time code an in-progress scrape asked for with an otp-required event.
+ */
+router.post("/scrape/:id/otp", (req: Request, res: Response) => {
+  const { accountName, code } = req.body as { accountName?: string; code?: string };
+
+  if (!accountName || !code || !code.trim()) {
+    res.status(400).json({ error: "Missing accountName or code" });
+    return;
+  }
+
+  const waiters = pendingOtpCodes.get(req.params.id as string);
+  const resolveCode = waiters?.get(accountName);
+  if (!waiters || !resolveCode) {
+    res.status(404).json({ error: "No one-time code is pending for this account" });
+    return;
+  }
+
+  waiters.delete(accountName);
+  resolveCode(code.trim());
+  res.json({ success: true });
+});
+
+/**
+ * POST /api/transform
+ * Re-runs the transformation on a cached scrape snapshot, without logging in to the banks.
+ * Responds with the same payload as the "done" event of /api/scrape/stream.
+ */
+router.post("/transform", (req: Request, res: Response) => {
+  const { snapshot, enableDetailedLogging, detailedLoggingLimit } = req.body as {
+    snapshot?: string;
+    enableDetailedLogging?: boolean;
+    detailedLoggingLimit?: number;
+  };
+
+  if (!snapshot) {
+    res.status(400).json({ error: "Missing snapshot" });
+    return;
+  }
+
+  let cached: ScrapeSnapshot;
+  try {
+    cached = loadSnapshot(snapshot);
+  } catch {
+    // The reason stays server-side: error text must not reveal anything about the filesystem
+    res.status(404).json({ error: "Snapshot not found in the scrape cache" });
+    return;
+  }
+
+  try {
+    const rules = loadRules();
+    res.json({
+      snapshot: { path: cached.path, createdAt: cached.createdAt },
+      ...buildScrapePayload(cached.results, rules, enableDetailedLogging === true, detailedLoggingLimit ?? 0),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
 /**
  * POST /api/export
- * Writes CSV files and audit log to disk.
+ * Writes the rows with the requested exporter (default csv) and the audit log to disk.
+ * `transactions` (the payload's kept transactions) is required by journal formats;
+ * `csvDialect` sets the CSV delimiter, date and amount formats, BOM and extra columns.
+ * Accounts in `scrapeResults` with a `scrapedAt` get their scrape watermark moved to it.
  */
 router.post("/export", (req: Request, res: Response) => {
-  const { rows, outputDir, split, scrapeResults, skipped, auditLog } = req.body as {
+  const {
+    rows,
+    transactions,
+    outputDir,
+    split,
+    format,
+    csvDialect,
+    scrapeResults,
+    skipped,
+    auditLog,
+  } = req.body as {
     rows: YnabRow[];
+    transactions?: EnrichedTransaction[];
     outputDir: string;
     split: boolean;
+    format?: string;
+    csvDialect?: unknown;
     scrapeResults: Array<{
       accountName: string;
       success: boolean;
       transactionCount: number;
       error?: string;
+      errorKind?: ScrapeErrorKind;
+      attempts?: ScrapeAttempt[];
+      scrapedAt?: string;
     }>;
     skipped: SkippedItem[];
     auditLog?: any;
@@ -242,44 +362,41 @@ router.post("/export", (req: Request, res: Response) => {
     return;
   }
 
+  let exporter: Exporter;
+  let dialect: CsvDialect;
+  try {
+    exporter = getExporter(format);
+    dialect = validateCsvDialect(csvDialect);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+    return;
+  }
+
+  if (exporter.needsTransactions && !transactions) {
+    res.status(400).json({ error: `The ${exporter.name} format needs the scraped transactions` });
+    return;
+  }
+
   try {
     if (!existsSync(outputDir)) {
       mkdirSync(outputDir, { recursive: true });
     }
 
-    const csvPaths: string[] = [];
-
-    if (split) {
-      // Group rows by their source account (parse from memo JSON)
-      const byAccount = new Map<string, YnabRow[]>();
-      for (const row of rows) {
-        let account = "unknown";
-        try {
-          const memo = JSON.parse(row.memo);
-          if (memo.source) account = memo.source;
-        } catch {
-          // ignore
-        }
-        const list = byAccount.get(account) ?? [];
-        list.push(row);
-        byAccount.set(account, list);
-      }
-
-      for (const [accountName, accountRows] of byAccount) {
-        const safeName = accountName.replace(/[^a-zA-Z0-9]/g, "-").toLowerCase();
-        const filename = generateFilename(`ynab-${safeName}`);
-        const outputPath = join(outputDir, filename);
-        const csv = toCSV(accountRows);
-        writeFileSync(outputPath, csv, "utf-8");
-        csvPaths.push(outputPath);
-      }
-    } else {
-      const filename = generateFilename();
-      const outputPath = join(outputDir, filename);
-      const csv = toCSV(rows);
-      writeFileSync(outputPath, csv, "utf-8");
-      csvPaths.push(outputPath);
-    }
+    const rules = loadRules();
+    const csvPaths = writeExport(
+      exporter,
+      rows,
+      {
+        rules,
+        accountKinds: getAccountKinds(),
+        instances: getAccountInstances(),
+        csvOptions: { ...dialect, includeCategory: rules.categoryRules.length > 0 },
+        transactions,
+      },
+      outputDir,
+      split
+    );
 
     // Prepare audit log
     let logToSave: AuditLog;
@@ -312,6 +429,8 @@ router.post("/export", (req: Request, res: Response) => {
             success: r.success,
             transactions: [] as EnrichedTransaction[],
             error: r.error,
+            errorKind: r.errorKind,
+            attempts: r.attempts,
           }))
         );
       }
@@ -338,6 +457,19 @@ router.post("/export", (req: Request, res: Response) => {
     const logPath = join(logDir, logFilename);
     writeFileSync(logPath, formatAuditLog(logToSave), "utf-8");
 
+    // The exported accounts' transactions are now on disk, so --since-last can start after them
+    const exported = (scrapeResults ?? []).filter((r) => r.success && r.scrapedAt);
+    if (exported.length > 0) {
+      const scrapeState = createScrapeState();
+      for (const { accountName, scrapedAt } of exported) {
+        scrapeState.recordResults(
+          [{ accountName, success: true, transactions: [] }],
+          new Date(scrapedAt as string)
+        );
+      }
+      scrapeState.save();
+    }
+
     res.json({ csvPaths, auditLogPath: logPath });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -381,6 +513,83 @@ router.post("/open-path", (req: Request, res: Response) => {
 
 export default router;
 
+/**
+ * Filter, transform and summarize scrape results into the payload of the "done" event.
+ * scrapedAt is set on live scrapes of real accounts; /api/export uses it as the watermark.
+ */
+function buildScrapePayload(
+  results: ScrapeResult[],
+  rules: Rules,
+  enableDetailedLogging: boolean,
+  detailedLoggingLimit: number,
+  scrapedAt?: Date
+) {
+  // Create audit logger (transformations will be logged if detailed logging is enabled)
+  const auditLogger = createAuditLogger();
+
+  // Process results
+  const allRawTransactions: EnrichedTransaction[] = [];
+  for (const result of results) {
+    if (result.success) {
+      allRawTransactions.push(...result.transactions);
+    }
+  }
+
+  const { kept, skipped } = filterAndPartition(allRawTransactions);
+
+  // Track transformations if detailed logging is enabled
+  const transformationPairs: Array<{ raw: EnrichedTransaction; transformed: YnabRow }> = [];
+  const rows: YnabRow[] = [];
+
+  for (const txn of kept) {
+    const row = transformTransaction(txn, rules);
+    if (row) {
+      rows.push(row);
+      if (enableDetailedLogging) {
+        transformationPairs.push({ raw: txn, transformed: row });
+      }
+    }
+  }
+
+  if (enableDetailedLogging && transformationPairs.length > 0) {
+    auditLogger.recordTransformations(transformationPairs, detailedLoggingLimit);
+  }
+
+  // Sort by date descending (newest first)
+  rows.sort((a, b) => b.date.localeCompare(a.date));
+  const summary = calculateSummary(kept, rules);
+
+  // Record scrape results in audit logger
+  auditLogger.recordScrapeResults(results);
+  auditLogger.recordInstallmentDating(kept, rules);
+
+  // Convert Map to serializable object
+  const summaryObj = {
+    byAccount: Object.fromEntries(summary.byAccount),
+    totalOutflow: summary.totalOutflow,
+    totalInflow: summary.totalInflow,
+    totalUncategorized: summary.totalUncategorized,
+  };
+
+  return {
+    scrapeResults: results.map((r) => ({
+      accountName: r.accountName,
+      success: r.success,
+      transactionCount: r.transactions.length,
+      error: r.error,
+      errorKind: r.errorKind,
+      hint: r.errorKind ? remediationHint(r.errorKind) : undefined,
+      attempts: r.attempts,
+      scrapedAt: r.success ? scrapedAt?.toISOString() : undefined,
+    })),
+    kept,
+    skipped,
+    rows,
+    summary: summaryObj,
+    auditLog: auditLogger.getLog(),
+  };
+}
+
 function openInFileManager(targetPath: string) {
   const platform = process.platform;
   let command: string;
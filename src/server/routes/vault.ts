@@ -0,0 +1,57 @@
+import { Router, type Request, type Response } from "express";
+import { createVault, getActiveVault, setActiveVault } from "../../vault.js";
+
+const router = Router();
+
+/**
+ * GET /api/vault
+ * Whether a credential vault exists and is unlocked in this server process.
+ */
+router.get("/", (_req: Request, res: Response) => {
+  res.json({
+    exists: createVault().exists(),
+    unlocked: getActiveVault()?.isUnlocked() ?? false,
+  });
+});
+
+/**
+ * POST /api/vault/unlock
+ * Decrypts the vault with the given passphrase and keeps it unlocked until the server stops.
+ */
+router.post("/unlock", async (req: Request, res: Response) => {
+  const { passphrase } = req.body as { passphrase?: string };
+
+  if (!passphrase) {
+    res.status(400).json({ error: "Missing passphrase" });
+    return;
+  }
+
+  const vault = createVault();
+  if (!vault.exists()) {
+    res.status(404).json({ error: 'No vault found. Run "vault init" first.' });
+    return;
+  }
+
+  try {
+    await vault.unlock(passphrase);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(401).json({ error: message });
+    return;
+  }
+
+  setActiveVault(vault);
+  res.json({ success: true });
+});
+
+/**
+ * POST /api/vault/lock
+ * Forgets the decrypted credentials.
+ */
+router.post("/lock", (_req: Request, res: Response) => {
+  getActiveVault()?.lock();
+  setActiveVault(null);
+  res.json({ success: true });
+});
+
+export default router;
@@ -0,0 +1,39 @@
+import { Router, type Request, type Response } from "express";
+import { loadYnabConfig, getConfiguredScraperProvider, assertRealBankData } from "../../config.js";
+import { pushToYnab } from "../../ynab-api.js";
+import type { YnabRow } from "../../transformer.js";
+
+const router = Router();
+
+/**
+ * POST /api/ynab/push
+ * Pushes rows directly to the YNAB budget/account configured in .env.
+ */
+router.post("/push", async (req: Request, res: Response) => {
+  const { rows } = req.body as { rows: YnabRow[] };
+
+  if (!rows) {
+    res.status(400).json({ error: "Missing rows" });
+    return;
+  }
+
+  let ynabConfig;
+  try {
+    assertRealBankData(getConfiguredScraperProvider(), "YNAB");
+    ynabConfig = loadYnabConfig();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+    return;
+  }
+
+  try {
+    const result = await pushToYnab(rows, ynabConfig);
+    res.json(result);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(502).json({ error: message });
+  }
+});
+
+export default router;
@@ -0,0 +1,13 @@
+import { createScheduleStore, createScheduler } from "../scheduler.js";
+import { runScheduledScrape } from "../scrape-job.js";
+
+/**
+ * Schedules shared by the /api/schedules routes and the server's scheduler
+ */
+export const scheduleStore = createScheduleStore();
+
+export const scheduler = createScheduler({
+  store: scheduleStore,
+  run: (schedule) => runScheduledScrape(schedule),
+  onLog: (message) => console.log(`[scheduler] ${message}`),
+});
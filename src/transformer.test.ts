@@ -5,6 +5,8 @@ import {
   formatDate,
   parseDate,
   buildMemo,
+  buildImportId,
+  numberIdenticalCharges,
   shouldSkipTransaction,
   transformTransaction,
   transformTransactions,
@@ -205,6 +207,104 @@ describe("buildMemo", () => {
     const memo = JSON.parse(buildMemo(txn, null));
     expect(memo.type).toBe("installments");
   });
+
+  it("formats the fields with a template or preset", () => {
+    const txn = { ...baseTxn, originalAmount: -25.99, originalCurrency: "USD", accountName: "Max" };
+    expect(buildMemo(txn, { number: 2, total: 6 }, {}, "compact")).toBe("2/6 USD25.99 · Max");
+    expect(buildMemo(txn, null, {}, "Charged {chargeDate}")).toBe("Charged 2024-03-15");
+  });
+});
+
+describe("buildImportId", () => {
+  const baseTxn: EnrichedTransaction = {
+    type: "normal" as any,
+    identifier: 98765,
+    date: "2024-01-20T00:00:00+02:00",
+    processedDate: "2024-03-10T00:00:00+02:00",
+    originalAmount: -1200,
+    originalCurrency: "ILS",
+    chargedAmount: -100,
+    description: "מחשב תשלום 3 מ-12",
+    status: "completed" as any,
+    accountNumber: "1234",
+    accountName: "Max",
+  };
+
+  it("is stable across runs for the same transaction", () => {
+    const first = buildImportId(baseTxn, { number: 3, total: 12 });
+    const second = buildImportId({ ...baseTxn }, { number: 3, total: 12 });
+    expect(first).toBe(second);
+  });
+
+  it("fits YNAB's 36-character import_id limit", () => {
+    expect(buildImportId(baseTxn, null).length).toBeLessThanOrEqual(36);
+  });
+
+  it("is distinct for installments of the same purchase", () => {
+    const third = buildImportId(baseTxn, { number: 3, total: 12 });
+    const fourth = buildImportId(
+      { ...baseTxn, processedDate: "2024-04-10T00:00:00+02:00", description: "מחשב תשלום 4 מ-12" },
+      { number: 4, total: 12 }
+    );
+    expect(third).not.toBe(fourth);
+  });
+
+  it("does not depend on the charge date or description", () => {
+    const original = buildImportId(baseTxn, null);
+    const reprocessed = buildImportId(
+      { ...baseTxn, processedDate: "2024-03-11T00:00:00+02:00", description: "renamed" },
+      null
+    );
+    expect(original).toBe(reprocessed);
+  });
+
+  it("differs by account number, identifier and amount", () => {
+    const original = buildImportId(baseTxn, null);
+    expect(buildImportId({ ...baseTxn, accountNumber: "5678" }, null)).not.toBe(original);
+    expect(buildImportId({ ...baseTxn, identifier: 11111 }, null)).not.toBe(original);
+    expect(buildImportId({ ...baseTxn, chargedAmount: -101 }, null)).not.toBe(original);
+  });
+});
+
+describe("numberIdenticalCharges", () => {
+  const coffee: EnrichedTransaction = {
+    type: "normal" as any,
+    date: "2024-03-15T00:00:00+02:00",
+    processedDate: "2024-04-10T00:00:00+02:00",
+    originalAmount: -12,
+    originalCurrency: "ILS",
+    chargedAmount: -12,
+    description: "Coffee",
+    status: "completed" as any,
+    accountNumber: "1234",
+    accountName: "Max",
+  };
+
+  it("gives identical charges without an identifier distinct import IDs", () => {
+    const [first, second, third] = numberIdenticalCharges([coffee, { ...coffee }, { ...coffee }]);
+    const ids = [first, second, third].map((txn) => buildImportId(txn, null));
+
+    expect(new Set(ids).size).toBe(3);
+    expect(ids[0]).toBe(buildImportId(coffee, null));
+    expect(third.importOccurrence).toBe(3);
+  });
+
+  it("leaves charges with an identifier or a different date or amount alone", () => {
+    const charges = numberIdenticalCharges([
+      coffee,
+      { ...coffee, chargedAmount: -13 },
+      { ...coffee, date: "2024-03-16T00:00:00+02:00" },
+      { ...coffee, identifier: 1 },
+      { ...coffee, identifier: 1 },
+    ]);
+    expect(charges.map((txn) => txn.importOccurrence)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+  });
 });
 
 describe("shouldSkipTransaction", () => {
@@ -286,6 +386,52 @@ describe("transformTransaction", () => {
     expect(row!.date).toBe("2024-02-16");
   });
 
+  it("applies payee rules and keeps the original description in the memo", () => {
+    const txn = { ...baseTxn, description: "PAYPAL *NETFLIX 1234" };
+    const row = transformTransaction(txn, {
+      payeeRules: [{ match: "contains", pattern: "netflix", rewrite: "Netflix" }],
+    });
+    expect(row!.payee).toBe("Netflix");
+    expect(JSON.parse(row!.memo).originalPayee).toBe("PAYPAL *NETFLIX 1234");
+  });
+
+  it("omits originalPayee when no rule matches", () => {
+    const row = transformTransaction(baseTxn, {
+      payeeRules: [{ match: "contains", pattern: "netflix", rewrite: "Netflix" }],
+    });
+    expect(row!.payee).toBe("סופר פארם");
+    expect(JSON.parse(row!.memo).originalPayee).toBeUndefined();
+  });
+
+  it("records the account instance on the row", () => {
+    const row = transformTransaction({ ...baseTxn, accountName: "Isracard - Dana" });
+    expect(row!.account).toBe("Isracard - Dana");
+  });
+
+  it("assigns a category from category rules", () => {
+    const row = transformTransaction(baseTxn, {
+      payeeRules: [{ match: "exact", pattern: "סופר פארם", rewrite: "Super-Pharm" }],
+      categoryRules: [{ category: "Pharmacy", categoryId: "cat-1", payee: { match: "exact", pattern: "Super-Pharm" } }],
+    });
+    expect(row!.category).toBe("Pharmacy");
+    expect(row!.categoryId).toBe("cat-1");
+  });
+
+  it("leaves category unset when no category rule matches", () => {
+    const row = transformTransaction(baseTxn, {
+      categoryRules: [{ category: "Salary", direction: "inflow" }],
+    });
+    expect(row!.category).toBeUndefined();
+  });
+
+  it("assigns the same import ID on repeated transforms", () => {
+    const txn = { ...baseTxn, description: "רכישה תשלום 3 מ-12" };
+    const first = transformTransaction(txn);
+    const second = transformTransaction(txn);
+    expect(first!.importId).toBeDefined();
+    expect(first!.importId).toBe(second!.importId);
+  });
+
   it("uses transaction date for regular (non-installment) transactions", () => {
     // Regular transaction with different transaction and charge dates
     const txn = {
@@ -298,6 +444,45 @@ describe("transformTransaction", () => {
     // Should use transaction date (date field), not charge date (processedDate)
     expect(row!.date).toBe("2024-03-10");
   });
+
+  it("dates installments with the account's strategy and records it in the memo", () => {
+    const txn = {
+      ...baseTxn,
+      description: "רכישה תשלום 3 מ-12",
+      date: "2024-01-31T12:00:00.000Z",
+      processedDate: "2024-04-10T12:00:00.000Z",
+    };
+
+    const offset = transformTransaction(txn)!;
+    expect(offset.date).toBe("2024-03-11");
+    expect(JSON.parse(offset.memo).dateStrategy).toBe("offset");
+
+    const options = { installmentDateStrategies: { Max: "purchase-plus-months" } };
+    const purchase = transformTransaction(txn, options)!;
+    expect(purchase.date).toBe("2024-03-31");
+    expect(JSON.parse(purchase.memo).dateStrategy).toBe("purchase-plus-months");
+
+    expect(transformTransaction(txn, { installmentDateStrategy: "charge-date" })!.date).toBe(
+      "2024-04-10"
+    );
+    expect(JSON.parse(transformTransaction(baseTxn)!.memo).dateStrategy).toBeUndefined();
+  });
+
+  it("selects the memo template by account instance, then bank", () => {
+    const txn = { ...baseTxn, processedDate: "2024-03-15T12:00:00.000Z" };
+    const options = {
+      memoTemplate: "{chargeDate}",
+      memoTemplates: { Isracard: "{source}", "Isracard - Dana": "{chargeDate} {source}" },
+    };
+    expect(transformTransaction(txn, options)!.memo).toBe("2024-03-15");
+    expect(transformTransaction({ ...txn, accountName: "Isracard" }, options)!.memo).toBe(
+      "Isracard"
+    );
+    expect(transformTransaction({ ...txn, accountName: "Isracard - Dana" }, options)!.memo).toBe(
+      "2024-03-15 Isracard - Dana"
+    );
+    expect(JSON.parse(transformTransaction(txn)!.memo).source).toBe("Max");
+  });
 });
 
 describe("transformTransactions", () => {
@@ -477,6 +662,17 @@ describe("calculateSummary", () => {
     expect(summary.totalInflow).toBe(200);
   });
 
+  it("counts uncategorized transactions", () => {
+    const txns = [makeTxn("Max", -100), makeTxn("Max", 200), makeTxn("Leumi", -300)];
+    const summary = calculateSummary(txns, {
+      categoryRules: [{ category: "Income", direction: "inflow" }],
+    });
+
+    expect(summary.byAccount.get("Max")!.uncategorized).toBe(1);
+    expect(summary.byAccount.get("Leumi")!.uncategorized).toBe(1);
+    expect(summary.totalUncategorized).toBe(2);
+  });
+
   it("returns zeros for empty input", () => {
     const summary = calculateSummary([]);
     expect(summary.byAccount.size).toBe(0);
@@ -1,8 +1,18 @@
+import { createHash } from "node:crypto";
 import type {
   Transaction,
   TransactionStatuses,
   TransactionTypes,
 } from "israeli-bank-scrapers/lib/transactions";
+import {
+  applyPayeeRules,
+  assignCategory,
+  type PayeeRule,
+  type CategoryRule,
+  type CategoryRuleMatch,
+} from "./rules.js";
+import { formatMemo, selectMemoTemplate, type MemoFields } from "./memo-template.js";
+import { applyInstallmentOffset, selectInstallmentDateStrategy } from "./installment-dates.js";
 
 export interface YnabRow {
   date: string;
@@ -10,11 +20,21 @@ export interface YnabRow {
   memo: string;
   outflow: string;
   inflow: string;
+  /** Stable per-transaction ID, used as YNAB import_id */
+  importId?: string;
+  /** YNAB category name assigned by category rules */
+  category?: string;
+  /** YNAB category ID assigned by category rules */
+  categoryId?: string;
+  /** Account instance the transaction was scraped from (used to split output) */
+  account?: string;
 }
 
 export interface EnrichedTransaction extends Transaction {
   accountNumber?: string;
   accountName?: string;
+  /** Set from 2 on identical charges of one scrape (see numberIdenticalCharges) */
+  importOccurrence?: number;
 }
 
 export interface InstallmentInfo {
@@ -22,6 +42,31 @@ export interface InstallmentInfo {
   total: number;
 }
 
+export interface TransformOptions {
+  /** Ordered payee rewrite rules (first match wins) */
+  payeeRules?: PayeeRule[];
+  /** Ordered category assignment rules (first match wins) */
+  categoryRules?: CategoryRule[];
+  /** Memo template or preset name for all accounts (default "json") */
+  memoTemplate?: string;
+  /** Memo template or preset name by account instance or bank name */
+  memoTemplates?: Record<string, string>;
+  /** Installment date strategy for all accounts (default "offset") */
+  installmentDateStrategy?: string;
+  /** Installment date strategy by account instance or bank name */
+  installmentDateStrategies?: Record<string, string>;
+}
+
+/**
+ * Extra memo fields derived during transformation
+ */
+export interface MemoExtras {
+  /** Bank description, when a payee rule rewrote it */
+  originalPayee?: string;
+  /** Installment date strategy that picked the row's date */
+  dateStrategy?: string;
+}
+
 /**
  * Patterns for detecting installment transactions in descriptions.
  * Order matters - more specific patterns should come first.
@@ -61,7 +106,7 @@ export function parseInstallments(text: string): InstallmentInfo | null {
 /**
  * Adjust date for installment transactions to prevent YNAB duplicate detection.
  *
- * Applies a fixed offset to installment charge dates:
+ * Applies the default "offset" installment date strategy to a charge date:
  * - Subtracts 1 month
  * - Adds 1 day
  *
@@ -71,26 +116,7 @@ export function parseInstallments(text: string): InstallmentInfo | null {
  * @param dateString - Date string from scraper (ISO or DD/MM/YYYY format)
  */
 export function deriveYnabSafeInstallmentDate(dateString: string): string {
-  const formatted = formatDate(dateString);
-
-  const [year, month, day] = formatted.split("-");
-  if (!year || !month || !day) {
-    return formatted;
-  }
-
-  const baseDate = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
-  if (isNaN(baseDate.getTime())) {
-    return formatted;
-  }
-
-  // Apply fixed offset: subtract 1 month, add 1 day
-  baseDate.setUTCMonth(baseDate.getUTCMonth() - 1);
-  baseDate.setUTCDate(baseDate.getUTCDate() + 1);
-
-  const adjustedYear = baseDate.getUTCFullYear();
-  const adjustedMonth = String(baseDate.getUTCMonth() + 1).padStart(2, "0");
-  const adjustedDay = String(baseDate.getUTCDate()).padStart(2, "0");
-  return `${adjustedYear}-${adjustedMonth}-${adjustedDay}`;
+  return applyInstallmentOffset(formatDate(dateString));
 }
 
 /**
@@ -151,11 +177,15 @@ export function formatDate(input: string | Date): string {
 }
 
 /**
- * Build memo field as JSON with transaction metadata.
+ * Collect the memo metadata for a transaction.
  * Only includes fields that have meaningful values.
  */
-export function buildMemo(txn: EnrichedTransaction, installments: InstallmentInfo | null): string {
-  const memo: Record<string, unknown> = {};
+export function buildMemoFields(
+  txn: EnrichedTransaction,
+  installments: InstallmentInfo | null,
+  extras: MemoExtras = {}
+): MemoFields {
+  const memo: MemoFields = {};
 
   // Include original transaction date if different from processed date
   if (txn.date && txn.processedDate && txn.date !== txn.processedDate) {
@@ -179,6 +209,9 @@ export function buildMemo(txn: EnrichedTransaction, installments: InstallmentInf
   } else if (txn.installments?.number && txn.installments?.total) {
     memo.installment = `${txn.installments.number}/${txn.installments.total}`;
   }
+  if (memo.installment && extras.dateStrategy) {
+    memo.dateStrategy = extras.dateStrategy;
+  }
 
   // Original amount if different from charged (foreign currency transactions)
   if (
@@ -213,12 +246,140 @@ export function buildMemo(txn: EnrichedTransaction, installments: InstallmentInf
     memo.bankMemo = txn.memo;
   }
 
-  // Return empty string if no metadata
-  if (Object.keys(memo).length === 0) {
-    return "";
+  // Original bank description when the payee was rewritten
+  if (extras.originalPayee) {
+    memo.originalPayee = extras.originalPayee;
+  }
+
+  return memo;
+}
+
+/**
+ * Build the memo field: the metadata as JSON, or formatted with a memo template
+ * or preset name. Empty when there is no metadata.
+ */
+export function buildMemo(
+  txn: EnrichedTransaction,
+  installments: InstallmentInfo | null,
+  extras: MemoExtras = {},
+  template?: string
+): string {
+  return formatMemo(buildMemoFields(txn, installments, extras), template);
+}
+
+/**
+ * Build a deterministic import ID for a transaction.
+ *
+ * Derived from account number, scraper identifier, original transaction date,
+ * charged amount and installment number, so the same charge always gets the same ID
+ * regardless of scrape window or installment date adjustments. Identical charges without
+ * an identifier are told apart by their importOccurrence.
+ * Fits YNAB's 36-character import_id limit.
+ */
+export function buildImportId(
+  txn: EnrichedTransaction,
+  installments: InstallmentInfo | null
+): string {
+  const originalDate = parseDate(txn.date || txn.processedDate);
+  const parts = [
+    txn.accountNumber ?? "",
+    txn.identifier !== undefined ? String(txn.identifier) : "",
+    originalDate ? formatDate(originalDate) : "",
+    (txn.chargedAmount ?? 0).toFixed(2),
+    installments ? String(installments.number) : "",
+  ];
+  // Only later occurrences get a suffix, so the first keeps its ID
+  if (txn.importOccurrence && txn.importOccurrence > 1) {
+    parts.push(String(txn.importOccurrence));
+  }
+
+  const hash = createHash("sha256").update(parts.join("|")).digest("hex");
+  return `ib:${hash.slice(0, 32)}`;
+}
+
+/**
+ * Number identical charges of one scrape (same card, date, amount and installment, and no
+ * identifier) in the order the bank listed them, like YNAB's own occurrence counter, so
+ * each gets its own import ID.
+ */
+export function numberIdenticalCharges(transactions: EnrichedTransaction[]): EnrichedTransaction[] {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map((txn) => {
+    if (txn.identifier !== undefined) {
+      return txn;
+    }
+    const key = buildImportId({ ...txn, importOccurrence: undefined }, resolveInstallments(txn));
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+    return occurrence > 1 ? { ...txn, importOccurrence: occurrence } : txn;
+  });
+}
+
+/**
+ * Remove installment notation from a description
+ *
+ * @example
+ * stripInstallmentText("מחשב תשלום 2 מ-12") // "מחשב"
+ */
+export function stripInstallmentText(text: string): string {
+  const stripped = INSTALLMENT_PATTERNS.reduce((result, pattern) => result.replace(pattern, ""), text);
+  return stripped.replace(/\s+/g, " ").replace(/[\s–,:-]+$/, "").trim() || text.trim();
+}
+
+/**
+ * Resolve installment info, preferring the description over scraper data.
+ */
+export function resolveInstallments(txn: EnrichedTransaction): InstallmentInfo | null {
+  return (
+    parseInstallments(txn.description ?? "") ||
+    (txn.installments?.number && txn.installments?.total
+      ? { number: txn.installments.number, total: txn.installments.total }
+      : null)
+  );
+}
+
+/**
+ * Stable fingerprint for a raw transaction (same value as its row's importId).
+ */
+export function getTransactionFingerprint(txn: EnrichedTransaction): string {
+  return buildImportId(txn, resolveInstallments(txn));
+}
+
+/**
+ * Stable ID for a transformed row: its importId, or a hash of the row
+ * for rows transformed before import IDs existed.
+ */
+export function getRowFingerprint(row: YnabRow): string {
+  if (row.importId) {
+    return row.importId;
   }
+  const hash = createHash("sha256")
+    .update([row.account ?? "", row.date, row.payee, row.outflow, row.inflow, row.memo].join("|"))
+    .digest("hex");
+  return `row:${hash.slice(0, 32)}`;
+}
 
-  return JSON.stringify(memo);
+/**
+ * Find the category for a transaction, matching rules against its (rewritten) payee.
+ */
+export function categorizeTransaction(
+  txn: EnrichedTransaction,
+  payee: string,
+  options: TransformOptions = {}
+): CategoryRuleMatch | null {
+  return assignCategory(
+    {
+      payee,
+      description: txn.description,
+      amount: txn.chargedAmount ?? 0,
+      accountName: txn.accountName,
+      bankCategory: txn.category,
+      bankMemo: txn.memo,
+      type: txn.type,
+    },
+    options.categoryRules ?? []
+  );
 }
 
 /**
@@ -242,28 +403,34 @@ export function shouldSkipTransaction(txn: EnrichedTransaction): boolean {
  * Transform a bank transaction to YNAB row format.
  * Returns null for transactions that should be skipped.
  */
-export function transformTransaction(txn: EnrichedTransaction): YnabRow | null {
+export function transformTransaction(
+  txn: EnrichedTransaction,
+  options: TransformOptions = {}
+): YnabRow | null {
   if (shouldSkipTransaction(txn)) {
     return null;
   }
 
-  // Parse installments from description
-  const installments =
-    parseInstallments(txn.description) ||
-    (txn.installments?.number && txn.installments?.total
-      ? { number: txn.installments.number, total: txn.installments.total }
-      : null);
+  const installments = resolveInstallments(txn);
 
   // Determine the date to use:
-  // - Installments: use charge date (processedDate) with offset
+  // - Installments: the account's installment date strategy (charge date with offset by default)
   // - Regular transactions: use transaction date
   let date: string;
+  let dateStrategy: string | undefined;
   if (installments) {
     const chargeDate = txn.processedDate || txn.date;
     if (!chargeDate) {
       return null;
     }
-    date = deriveYnabSafeInstallmentDate(chargeDate);
+    const purchaseDate = txn.date ? parseDate(txn.date) : null;
+    const strategy = selectInstallmentDateStrategy(txn.accountName, options);
+    date = strategy.date({
+      chargeDate: formatDate(chargeDate),
+      purchaseDate: formatDate(purchaseDate ?? chargeDate),
+      installment: installments,
+    });
+    dateStrategy = strategy.name;
   } else {
     const txnDate = txn.date || txn.processedDate;
     if (!txnDate) {
@@ -281,27 +448,52 @@ export function transformTransaction(txn: EnrichedTransaction): YnabRow | null {
   const outflow = amount < 0 ? Math.abs(amount).toFixed(2) : "";
   const inflow = amount > 0 ? amount.toFixed(2) : "";
 
-  // Build memo with metadata
-  const memo = buildMemo(txn, installments);
+  // Apply payee rewrite rules
+  const description = txn.description.trim();
+  const { payee, rule } = applyPayeeRules(description, txn.accountName, options.payeeRules ?? []);
 
-  return {
+  // Build memo with metadata
+  const memo = buildMemo(
+    txn,
+    installments,
+    { originalPayee: rule && payee !== description ? description : undefined, dateStrategy },
+    selectMemoTemplate(txn.accountName, options)
+  );
+
+  const row: YnabRow = {
     date,
-    payee: txn.description.trim(),
+    payee,
     memo,
     outflow,
     inflow,
+    importId: buildImportId(txn, installments),
+    account: txn.accountName,
   };
+
+  // Assign YNAB category from rules
+  const categoryMatch = categorizeTransaction(txn, payee, options);
+  if (categoryMatch) {
+    row.category = categoryMatch.category;
+    if (categoryMatch.categoryId) {
+      row.categoryId = categoryMatch.categoryId;
+    }
+  }
+
+  return row;
 }
 
 /**
  * Transform all transactions from scraper results to YNAB format.
  * Filters out invalid transactions and sorts by date (newest first).
  */
-export function transformTransactions(transactions: EnrichedTransaction[]): YnabRow[] {
+export function transformTransactions(
+  transactions: EnrichedTransaction[],
+  options: TransformOptions = {}
+): YnabRow[] {
   const rows: YnabRow[] = [];
 
   for (const txn of transactions) {
-    const row = transformTransaction(txn);
+    const row = transformTransaction(txn, options);
     if (row) {
       rows.push(row);
     }
@@ -331,6 +523,22 @@ export function groupByAccount(
   return byAccount;
 }
 
+/**
+ * Group rows by the account instance they were scraped from.
+ */
+export function groupRowsByAccount(rows: YnabRow[]): Map<string, YnabRow[]> {
+  const byAccount = new Map<string, YnabRow[]>();
+
+  for (const row of rows) {
+    const key = row.account ?? "unknown";
+    const list = byAccount.get(key) ?? [];
+    list.push(row);
+    byAccount.set(key, list);
+  }
+
+  return byAccount;
+}
+
 export interface SkippedItem {
   txn: EnrichedTransaction;
   reason: string;
@@ -362,38 +570,50 @@ export interface AccountSummaryData {
   count: number;
   outflow: number;
   inflow: number;
+  /** Transactions no category rule matched */
+  uncategorized: number;
 }
 
 export interface TransactionSummary {
   byAccount: Map<string, AccountSummaryData>;
   totalOutflow: number;
   totalInflow: number;
+  totalUncategorized: number;
 }
 
 /**
  * Calculate summary statistics for a set of transactions.
+ * Pass the transform options to count uncategorized transactions against category rules.
  */
-export function calculateSummary(transactions: EnrichedTransaction[]): TransactionSummary {
+export function calculateSummary(
+  transactions: EnrichedTransaction[],
+  options: TransformOptions = {}
+): TransactionSummary {
   const byAccount = new Map<string, AccountSummaryData>();
   let totalOutflow = 0;
   let totalInflow = 0;
+  let totalUncategorized = 0;
 
   for (const txn of transactions) {
     const key = txn.accountName ?? "unknown";
-    const existing = byAccount.get(key) ?? { count: 0, outflow: 0, inflow: 0 };
+    const existing = byAccount.get(key) ?? { count: 0, outflow: 0, inflow: 0, uncategorized: 0 };
 
     const amount = txn.chargedAmount ?? 0;
     if (amount < 0) existing.outflow += Math.abs(amount);
     if (amount > 0) existing.inflow += amount;
     existing.count++;
 
+    const { payee } = applyPayeeRules(txn.description, txn.accountName, options.payeeRules ?? []);
+    if (!categorizeTransaction(txn, payee, options)) existing.uncategorized++;
+
     byAccount.set(key, existing);
   }
 
   for (const summary of byAccount.values()) {
     totalOutflow += summary.outflow;
     totalInflow += summary.inflow;
+    totalUncategorized += summary.uncategorized;
   }
 
-  return { byAccount, totalOutflow, totalInflow };
+  return { byAccount, totalOutflow, totalInflow, totalUncategorized };
 }
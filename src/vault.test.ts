@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { createVault } from "./vault.js";
+
+// Low scrypt cost keeps the tests fast; the format is the same
+const FAST_KDF = { N: 2 ** 10, r: 8, p: 1 };
+
+describe("createVault", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "vault-"));
+    path = join(dir, "vault.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips secrets through an encrypted file", async () => {
+    const vault = createVault(path, FAST_KDF);
+    await vault.init("correct horse");
+    vault.set({ MAX_USERNAME: "dana", MAX_PASSWORD: "s3cret-pass" });
+    vault.save();
+
+    const raw = readFileSync(path, "utf-8");
+    expect(raw).not.toContain("s3cret-pass");
+    expect(JSON.parse(raw).version).toBe(1);
+
+    const reopened = createVault(path);
+    expect(reopened.isUnlocked()).toBe(false);
+    await reopened.unlock("correct horse");
+    expect(reopened.get("MAX_PASSWORD")).toBe("s3cret-pass");
+    expect(reopened.keys().sort()).toEqual(["MAX_PASSWORD", "MAX_USERNAME"]);
+  });
+
+  it("rejects a wrong passphrase", async () => {
+    await createVault(path, FAST_KDF).init("correct horse");
+    await expect(createVault(path).unlock("battery staple")).rejects.toThrow(
+      "Incorrect vault passphrase"
+    );
+  });
+
+  it("refuses to overwrite an existing vault", async () => {
+    await createVault(path, FAST_KDF).init("one");
+    await expect(createVault(path, FAST_KDF).init("two")).rejects.toThrow("Vault already exists");
+  });
+
+  it("keeps secrets out of reach after lock", async () => {
+    const vault = createVault(path, FAST_KDF);
+    await vault.init("pass");
+    vault.set({ LEUMI_PASSWORD: "x" });
+    vault.clear(["LEUMI_PASSWORD"]);
+    expect(vault.get("LEUMI_PASSWORD")).toBeUndefined();
+
+    vault.lock();
+    expect(vault.get("LEUMI_PASSWORD")).toBeUndefined();
+    expect(() => vault.set({ A: "b" })).toThrow("Vault is locked");
+  });
+});
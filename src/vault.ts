@@ -0,0 +1,200 @@
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "node:fs";
+import { dirname } from "node:path";
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, type ScryptOptions } from "node:crypto";
+
+export const DEFAULT_VAULT_PATH = "./data/vault.json";
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+
+/** scrypt cost parameters (N=2^15 needs ~32MB of memory) */
+const DEFAULT_KDF_PARAMS: KdfParams = { N: 2 ** 15, r: 8, p: 1 };
+
+interface KdfParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * On-disk format. Secrets (env var name -> value) are stored as one
+ * AES-256-GCM encrypted JSON blob; everything here is base64.
+ */
+interface VaultFile {
+  version: 1;
+  kdf: "scrypt";
+  kdfParams: KdfParams;
+  salt: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: KdfParams): Promise<Buffer> {
+  const options: ScryptOptions = { ...params, maxmem: 128 * params.N * params.r * 2 };
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, options, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+function encrypt(secrets: Record<string, string>, key: Buffer): Pick<VaultFile, "iv" | "authTag" | "ciphertext"> {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secrets), "utf-8"), cipher.final()]);
+  return {
+    iv: iv.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+function decrypt(file: VaultFile, key: Buffer): Record<string, string> {
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(file.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(file.authTag, "base64"));
+  try {
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(file.ciphertext, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString("utf-8"));
+  } catch {
+    throw new Error("Incorrect vault passphrase");
+  }
+}
+
+function readVaultFile(path: string): VaultFile {
+  const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<VaultFile>;
+  if (parsed.version !== 1 || parsed.kdf !== "scrypt") {
+    throw new Error(`Unsupported vault file format: ${path}`);
+  }
+  return parsed as VaultFile;
+}
+
+/**
+ * Encrypted credential store, keyed by the same env var names as .env.
+ * The derived key and decrypted secrets are kept in memory between unlock() and lock();
+ * changes are written when save() is called.
+ */
+export function createVault(
+  path: string = process.env.VAULT_FILE || DEFAULT_VAULT_PATH,
+  kdfParams: KdfParams = DEFAULT_KDF_PARAMS
+) {
+  let key: Buffer | null = null;
+  let salt: Buffer | null = null;
+  let params = kdfParams;
+  let secrets: Record<string, string> | null = null;
+
+  function requireUnlocked(): Record<string, string> {
+    if (!secrets) {
+      throw new Error("Vault is locked");
+    }
+    return secrets;
+  }
+
+  return {
+    path,
+
+    exists(): boolean {
+      return existsSync(path);
+    },
+
+    isUnlocked(): boolean {
+      return secrets !== null;
+    },
+
+    /**
+     * Create a new, empty vault protected by the passphrase. Leaves it unlocked.
+     */
+    async init(passphrase: string) {
+      if (existsSync(path)) {
+        throw new Error(`Vault already exists: ${path}`);
+      }
+      if (passphrase.length === 0) {
+        throw new Error("Passphrase must not be empty");
+      }
+      salt = randomBytes(SALT_LENGTH);
+      key = await deriveKey(passphrase, salt, params);
+      secrets = {};
+      this.save();
+    },
+
+    /**
+     * Decrypt the vault. Throws "Incorrect vault passphrase" on a wrong passphrase.
+     */
+    async unlock(passphrase: string) {
+      if (!existsSync(path)) {
+        throw new Error(`Vault not found: ${path}. Run "vault init" first.`);
+      }
+      const file = readVaultFile(path);
+      const fileSalt = Buffer.from(file.salt, "base64");
+      const derived = await deriveKey(passphrase, fileSalt, file.kdfParams);
+      secrets = decrypt(file, derived);
+      key = derived;
+      salt = fileSalt;
+      params = file.kdfParams;
+    },
+
+    lock() {
+      key = null;
+      secrets = null;
+    },
+
+    get(name: string): string | undefined {
+      return secrets?.[name];
+    },
+
+    /** Names of stored secrets (never their values) */
+    keys(): string[] {
+      return Object.keys(requireUnlocked());
+    },
+
+    set(updates: Record<string, string>) {
+      Object.assign(requireUnlocked(), updates);
+    },
+
+    clear(names: string[]) {
+      const current = requireUnlocked();
+      for (const name of names) {
+        delete current[name];
+      }
+    },
+
+    save() {
+      const current = requireUnlocked();
+      if (!key || !salt) {
+        throw new Error("Vault is locked");
+      }
+      const dir = dirname(path);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+      const file: VaultFile = {
+        version: 1,
+        kdf: "scrypt",
+        kdfParams: params,
+        salt: salt.toString("base64"),
+        ...encrypt(current, key),
+      };
+      writeFileSync(path, JSON.stringify(file, null, 2), { encoding: "utf-8", mode: 0o600 });
+    },
+  };
+}
+
+export type Vault = ReturnType<typeof createVault>;
+
+let activeVault: Vault | null = null;
+
+/**
+ * The unlocked vault credentials are read from, if any (shared by config and the server).
+ */
+export function getActiveVault(): Vault | null {
+  return activeVault;
+}
+
+export function setActiveVault(vault: Vault | null): void {
+  activeVault = vault;
+}
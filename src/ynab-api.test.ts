@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  toMilliunits,
+  buildImportIds,
+  toYnabTransaction,
+  pushToYnab,
+  pushScheduledTransactions,
+  type YnabConfig,
+  type YnabApiTransaction,
+} from "./ynab-api.js";
+import type { YnabRow } from "./transformer.js";
+
+const makeRow = (overrides: Partial<YnabRow> = {}): YnabRow => ({
+  date: "2024-03-15",
+  payee: "Test Store",
+  memo: "",
+  outflow: "100.00",
+  inflow: "",
+  ...overrides,
+});
+
+describe("toMilliunits", () => {
+  it("converts decimal strings to milliunits", () => {
+    expect(toMilliunits("100.00")).toBe(100000);
+    expect(toMilliunits("0.01")).toBe(10);
+    expect(toMilliunits("19.99")).toBe(19990);
+  });
+
+  it("returns 0 for empty values", () => {
+    expect(toMilliunits("")).toBe(0);
+  });
+});
+
+describe("buildImportIds", () => {
+  it("uses YNAB's amount:date:occurrence format", () => {
+    const ids = buildImportIds([makeRow()]);
+    expect(ids).toEqual(["YNAB:-100000:2024-03-15:1"]);
+  });
+
+  it("prefers the row's stable import ID", () => {
+    const ids = buildImportIds([makeRow({ importId: "ib:stable" }), makeRow()]);
+    expect(ids).toEqual(["ib:stable", "YNAB:-100000:2024-03-15:1"]);
+  });
+
+  it("increments occurrence for identical amount and date", () => {
+    const ids = buildImportIds([makeRow(), makeRow(), makeRow({ outflow: "50.00" })]);
+    expect(ids).toEqual([
+      "YNAB:-100000:2024-03-15:1",
+      "YNAB:-100000:2024-03-15:2",
+      "YNAB:-50000:2024-03-15:1",
+    ]);
+  });
+});
+
+describe("toYnabTransaction", () => {
+  it("maps outflow to a negative amount", () => {
+    const txn = toYnabTransaction(makeRow(), "acc-1", "id-1");
+    expect(txn.amount).toBe(-100000);
+    expect(txn.account_id).toBe("acc-1");
+    expect(txn.import_id).toBe("id-1");
+    expect(txn.payee_name).toBe("Test Store");
+  });
+
+  it("maps inflow to a positive amount", () => {
+    const txn = toYnabTransaction(makeRow({ outflow: "", inflow: "250.50" }), "acc-1", "id-1");
+    expect(txn.amount).toBe(250500);
+  });
+
+  it("sends the row's category ID, or null when uncategorized", () => {
+    expect(toYnabTransaction(makeRow({ categoryId: "cat-1" }), "acc-1", "id-1").category_id).toBe("cat-1");
+    expect(toYnabTransaction(makeRow(), "acc-1", "id-1").category_id).toBeNull();
+  });
+
+  it("sends null memo when empty and truncates long memos", () => {
+    expect(toYnabTransaction(makeRow(), "acc-1", "id-1").memo).toBeNull();
+    const long = toYnabTransaction(makeRow({ memo: "x".repeat(300) }), "acc-1", "id-1");
+    expect(long.memo).toHaveLength(200);
+  });
+
+  it("keeps long JSON memos valid", () => {
+    const memo = JSON.stringify({ installment: "2/6", bankMemo: "x".repeat(300) });
+    const txn = toYnabTransaction(makeRow({ memo }), "acc-1", "id-1");
+    expect(JSON.parse(txn.memo as string)).toEqual({ installment: "2/6" });
+  });
+});
+
+describe("pushToYnab", () => {
+  let server: Server;
+  let config: YnabConfig;
+  const requests: Array<{
+    url?: string;
+    auth?: string;
+    body: { transactions: YnabApiTransaction[] };
+  }> = [];
+  let respondWith: { status: number; body: unknown } = { status: 201, body: {} };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        requests.push({ url: req.url, auth: req.headers.authorization, body: JSON.parse(raw) });
+        res.writeHead(respondWith.status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(respondWith.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    config = {
+      accessToken: "token-123",
+      budgetId: "budget-1",
+      accountId: "account-1",
+      apiUrl: `http://127.0.0.1:${port}/v1`,
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("posts transactions to the configured budget", async () => {
+    respondWith = {
+      status: 201,
+      body: { data: { transaction_ids: ["t1"], duplicate_import_ids: ["YNAB:-50000:2024-03-15:1"] } },
+    };
+
+    const result = await pushToYnab([makeRow(), makeRow({ outflow: "50.00" })], config);
+
+    const request = requests[requests.length - 1];
+    expect(request.url).toBe("/v1/budgets/budget-1/transactions");
+    expect(request.auth).toBe("Bearer token-123");
+    expect(request.body.transactions).toHaveLength(2);
+    expect(request.body.transactions[0].account_id).toBe("account-1");
+    expect(result.createdCount).toBe(1);
+    expect(result.duplicateImportIds).toEqual(["YNAB:-50000:2024-03-15:1"]);
+  });
+
+  it("sends each scraped account to its mapped YNAB account", async () => {
+    respondWith = { status: 201, body: { data: { transaction_ids: ["t1", "t2", "t3"] } } };
+    const accountIds = { Max: "max-account", Leumi: "leumi-account" };
+
+    await pushToYnab(
+      [makeRow({ account: "Max" }), makeRow({ account: "Leumi" }), makeRow({ account: "Max" })],
+      { ...config, accountIds }
+    );
+
+    const { transactions } = requests[requests.length - 1].body;
+    expect(transactions.map((txn) => [txn.account_id, txn.import_id])).toEqual([
+      ["max-account", "YNAB:-100000:2024-03-15:1"],
+      ["max-account", "YNAB:-100000:2024-03-15:2"],
+      ["leumi-account", "YNAB:-100000:2024-03-15:1"],
+    ]);
+  });
+
+  it("refuses to push several unmapped accounts into YNAB_ACCOUNT_ID", async () => {
+    const before = requests.length;
+    await expect(
+      pushToYnab([makeRow({ account: "Max" }), makeRow({ account: "Leumi" })], config)
+    ).rejects.toThrow("Map Max, Leumi in YNAB_ACCOUNT_IDS");
+    expect(requests.length).toBe(before);
+  });
+
+  it("throws with the API error detail on failure", async () => {
+    respondWith = { status: 401, body: { error: { id: "401", name: "unauthorized", detail: "Bad token" } } };
+    await expect(pushToYnab([makeRow()], config)).rejects.toThrow("YNAB API error (401): Bad token");
+  });
+
+  it("does not call the API for empty input", async () => {
+    const before = requests.length;
+    const result = await pushToYnab([], config);
+    expect(result.createdCount).toBe(0);
+    expect(requests.length).toBe(before);
+  });
+});
+
+describe("pushScheduledTransactions", () => {
+  let server: Server;
+  let config: YnabConfig;
+  const posted: Array<{ scheduled_transaction: Record<string, unknown> }> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        res.writeHead(req.method === "GET" ? 200 : 201, { "Content-Type": "application/json" });
+        if (req.method === "GET") {
+          res.end(
+            JSON.stringify({
+              data: {
+                scheduled_transactions: [
+                  { memo: "Installment 5/6 (projected) · ip:existing", deleted: false },
+                ],
+              },
+            })
+          );
+          return;
+        }
+        posted.push(JSON.parse(raw));
+        res.end(JSON.stringify({ data: { scheduled_transaction: { id: "s1" } } }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    config = {
+      accessToken: "token-123",
+      budgetId: "budget-1",
+      accountId: "account-1",
+      apiUrl: `http://127.0.0.1:${port}/v1`,
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("schedules future rows that are not scheduled yet", async () => {
+    const result = await pushScheduledTransactions(
+      [
+        makeRow({ date: "2024-03-01", importId: "ip:past" }),
+        makeRow({ date: "2024-04-11", importId: "ip:existing" }),
+        makeRow({ date: "2024-05-11", importId: "ip:new", memo: "Installment 6/6 (projected) · ip:new" }),
+      ],
+      config,
+      "2024-03-15"
+    );
+
+    expect(result).toEqual({ createdCount: 1, existingCount: 1, pastCount: 1 });
+    expect(posted).toHaveLength(1);
+    expect(posted[0].scheduled_transaction).toMatchObject({
+      account_id: "account-1",
+      date: "2024-05-11",
+      frequency: "never",
+      amount: -100000,
+      memo: "Installment 6/6 (projected) · ip:new",
+    });
+  });
+
+  it("schedules each card's rows in its mapped YNAB account", async () => {
+    posted.length = 0;
+    await pushScheduledTransactions(
+      [makeRow({ date: "2024-05-11", importId: "ip:max", account: "Max" })],
+      { ...config, accountIds: { Max: "max-account" } },
+      "2024-03-15"
+    );
+
+    expect(posted[0].scheduled_transaction.account_id).toBe("max-account");
+  });
+});
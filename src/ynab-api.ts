@@ -0,0 +1,249 @@
+import { formatDate, type YnabRow } from "./transformer.js";
+import { assignPushAccounts } from "./push-accounts.js";
+import { fitMemo } from "./memo-template.js";
+
+export const DEFAULT_YNAB_API_URL = "https://api.ynab.com/v1";
+
+/** YNAB rejects payee names longer than this */
+const MAX_PAYEE_LENGTH = 200;
+
+export interface YnabConfig {
+  accessToken: string;
+  budgetId: string;
+  /** Account that a single scraped account's rows are pushed to */
+  accountId: string;
+  /** YNAB account per account instance, for pushes of several accounts (YNAB_ACCOUNT_IDS) */
+  accountIds?: Record<string, string>;
+  /** Override for testing against a local stub server */
+  apiUrl: string;
+}
+
+/**
+ * Transaction shape accepted by POST /budgets/{budget_id}/transactions
+ */
+export interface YnabApiTransaction {
+  account_id: string;
+  date: string;
+  amount: number;
+  payee_name: string;
+  category_id: string | null;
+  memo: string | null;
+  cleared: "cleared" | "uncleared";
+  approved: boolean;
+  import_id: string;
+}
+
+export interface YnabPushResult {
+  createdCount: number;
+  duplicateImportIds: string[];
+}
+
+/**
+ * Convert a decimal currency string to YNAB milliunits (1.00 -> 1000).
+ */
+export function toMilliunits(value: string): number {
+  const num = parseFloat(value);
+  if (isNaN(num)) {
+    return 0;
+  }
+  return Math.round(num * 1000);
+}
+
+/**
+ * Signed milliunit amount for a row (outflow is negative).
+ */
+export function rowAmountMilliunits(row: YnabRow): number {
+  return toMilliunits(row.inflow) - toMilliunits(row.outflow);
+}
+
+/**
+ * Resolve import IDs for a batch of rows.
+ * Uses each row's stable importId when present, otherwise falls back to YNAB's own
+ * file-import format: "YNAB:[milliunit amount]:[iso date]:[occurrence]",
+ * where occurrence counts rows with the same amount and date within the batch.
+ */
+export function buildImportIds(rows: YnabRow[]): string[] {
+  const occurrences = new Map<string, number>();
+
+  return rows.map((row) => {
+    if (row.importId) {
+      return row.importId;
+    }
+    const key = `${rowAmountMilliunits(row)}:${row.date}`;
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+    return `YNAB:${key}:${occurrence}`;
+  });
+}
+
+/**
+ * Map a YNAB row to an API transaction for the given account.
+ */
+export function toYnabTransaction(
+  row: YnabRow,
+  accountId: string,
+  importId: string
+): YnabApiTransaction {
+  return {
+    account_id: accountId,
+    date: row.date,
+    amount: rowAmountMilliunits(row),
+    payee_name: row.payee.slice(0, MAX_PAYEE_LENGTH),
+    category_id: row.categoryId ?? null,
+    memo: row.memo ? fitMemo(row.memo) : null,
+    cleared: "cleared",
+    approved: false,
+    import_id: importId,
+  };
+}
+
+/**
+ * YNAB account for each group of rows (see assignPushAccounts)
+ */
+function assignYnabAccounts(rows: YnabRow[], config: YnabConfig): Map<string, YnabRow[]> {
+  return assignPushAccounts(
+    rows,
+    { defaultAccountId: config.accountId, accountIds: config.accountIds },
+    { defaultEnvVar: "YNAB_ACCOUNT_ID", mapEnvVar: "YNAB_ACCOUNT_IDS" }
+  );
+}
+
+/**
+ * Push rows to the configured YNAB budget, each scraped account to its YNAB account
+ * (see assignPushAccounts). YNAB skips transactions whose import_id already exists,
+ * so re-pushing is safe.
+ */
+export async function pushToYnab(rows: YnabRow[], config: YnabConfig): Promise<YnabPushResult> {
+  if (rows.length === 0) {
+    return { createdCount: 0, duplicateImportIds: [] };
+  }
+
+  // Fallback import IDs count occurrences per YNAB account, like YNAB's own file import
+  const transactions = Array.from(assignYnabAccounts(rows, config)).flatMap(
+    ([accountId, accountRows]) => {
+      const importIds = buildImportIds(accountRows);
+      return accountRows.map((row, i) => toYnabTransaction(row, accountId, importIds[i]));
+    }
+  );
+
+  const url = `${config.apiUrl.replace(/\/+$/, "")}/budgets/${encodeURIComponent(config.budgetId)}/transactions`;
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${config.accessToken}`,
+    },
+    body: JSON.stringify({ transactions }),
+  });
+
+  const body = (await res.json().catch(() => null)) as {
+    data?: { transaction_ids?: string[]; duplicate_import_ids?: string[] };
+    error?: { name?: string; detail?: string };
+  } | null;
+
+  if (!res.ok) {
+    const detail = body?.error?.detail ?? body?.error?.name ?? res.statusText;
+    throw new Error(`YNAB API error (${res.status}): ${detail}`);
+  }
+
+  return {
+    createdCount: body?.data?.transaction_ids?.length ?? 0,
+    duplicateImportIds: body?.data?.duplicate_import_ids ?? [],
+  };
+}
+
+/**
+ * Shape accepted by POST /budgets/{budget_id}/scheduled_transactions
+ */
+export interface YnabScheduledTransaction {
+  account_id: string;
+  /** Must be in the future */
+  date: string;
+  frequency: "never";
+  amount: number;
+  payee_name: string;
+  category_id: string | null;
+  memo: string | null;
+}
+
+export interface YnabSchedulePushResult {
+  createdCount: number;
+  /** Rows already scheduled by an earlier push */
+  existingCount: number;
+  /** Rows skipped because YNAB only schedules future dates */
+  pastCount: number;
+}
+
+async function requestYnab<T>(url: string, config: YnabConfig, init: RequestInit = {}): Promise<T | null> {
+  const res = await fetch(url, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${config.accessToken}`,
+    },
+  });
+
+  const body = (await res.json().catch(() => null)) as {
+    data?: T;
+    error?: { name?: string; detail?: string };
+  } | null;
+
+  if (!res.ok) {
+    const detail = body?.error?.detail ?? body?.error?.name ?? res.statusText;
+    throw new Error(`YNAB API error (${res.status}): ${detail}`);
+  }
+  return body?.data ?? null;
+}
+
+/**
+ * Create one-off scheduled transactions for rows dated in the future (projected installments).
+ * Scheduled transactions have no import ID, so rows whose importId already appears in a
+ * scheduled transaction's memo are skipped, which makes re-pushing safe.
+ * today is a local (Israel) date like the rows', not the UTC date.
+ */
+export async function pushScheduledTransactions(
+  rows: YnabRow[],
+  config: YnabConfig,
+  today: string = formatDate(new Date())
+): Promise<YnabSchedulePushResult> {
+  const result: YnabSchedulePushResult = { createdCount: 0, existingCount: 0, pastCount: 0 };
+  const future = rows.filter((row) => row.date > today);
+  result.pastCount = rows.length - future.length;
+  if (future.length === 0) {
+    return result;
+  }
+
+  const url = `${config.apiUrl.replace(/\/+$/, "")}/budgets/${encodeURIComponent(config.budgetId)}/scheduled_transactions`;
+  const existing = await requestYnab<{
+    scheduled_transactions?: Array<{ memo?: string | null; deleted?: boolean }>;
+  }>(url, config);
+  const existingMemos = (existing?.scheduled_transactions ?? [])
+    .filter((scheduled) => !scheduled.deleted)
+    .map((scheduled) => scheduled.memo ?? "");
+
+  for (const [accountId, accountRows] of assignYnabAccounts(future, config)) {
+    for (const row of accountRows) {
+      if (row.importId && existingMemos.some((memo) => memo.includes(row.importId!))) {
+        result.existingCount++;
+        continue;
+      }
+
+      const scheduled: YnabScheduledTransaction = {
+        account_id: accountId,
+        date: row.date,
+        frequency: "never",
+        amount: rowAmountMilliunits(row),
+        payee_name: row.payee.slice(0, MAX_PAYEE_LENGTH),
+        category_id: row.categoryId ?? null,
+        memo: row.memo ? fitMemo(row.memo) : null,
+      };
+      await requestYnab(url, config, {
+        method: "POST",
+        body: JSON.stringify({ scheduled_transaction: scheduled }),
+      });
+      result.createdCount++;
+    }
+  }
+
+  return result;
+}